@@ -1,172 +1,264 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ConnectionManager from './components/ConnectionManager';
 import StandardCCSender from './components/StandardCCSender';
 import HighResCCSender from './components/HighResCCSender';
+import SysExSender from './components/SysExSender';
+import NoteSender from './components/NoteSender';
+import RpnSender from './components/RpnSender';
+import ClockSender from './components/ClockSender';
+import MpeSender from './components/MpeSender';
 import MidiLog from './components/MidiLog';
-import type { MidiDeviceState, ParsedMidiMessage } from './types';
+import ControllerMonitor from './components/ControllerMonitor';
+import MpeMonitor from './components/MpeMonitor';
+import SessionPanel from './components/SessionPanel';
+import ThruMatrix from './components/ThruMatrix';
+import SceneBar from './components/SceneBar';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import TestSequencePanel from './components/TestSequencePanel';
+import DeviceProfilePanel from './components/DeviceProfilePanel';
+import { listWebMidiPorts } from './transports/webMidiTransport';
+import { DEFAULT_BLE_MTU } from './utils/bleMidiEncoder';
+import { useDeviceConnections } from './hooks/useDeviceConnections';
+import { downloadBlob } from './utils/download';
+import { createEmitter } from './utils/emitter';
+import { applyControllerMessages, type ControllerState } from './utils/controllerState';
+import { withChannel } from './utils/midiBuilder';
+import { createSentEntries } from './utils/midiLog';
+import { createParameterNumberGrouper } from './utils/parameterNumbers';
+import { createMessageLabeler, loadStoredDeviceProfiles, resolveDeviceProfile, storeDeviceProfiles } from './utils/deviceProfiles';
+import { createSessionRecorder } from './utils/session';
+import {
+  createDefaultSenders,
+  createSender,
+  getSenderLabel,
+  isSenderOfType,
+  loadStoredWorkspace,
+  parseWorkspace,
+  serializeWorkspace,
+  storeWorkspace,
+  withSenderParams,
+  type SenderOfType,
+} from './utils/workspace';
+import type {
+  BleLinkSettings,
+  DeviceProfile,
+  ParsedMidiMessage,
+  Scene,
+  SenderConfig,
+  SenderParams,
+  SenderType,
+  ThruRoute,
+  TransportWrite,
+} from './types';
 
-// BLE MIDI Service and Characteristic UUIDs
-const MIDI_SERVICE_UUID = '03b80e5a-ede8-4b33-a751-6ce34ec4c700';
-const MIDI_CHARACTERISTIC_UUID = '7772e5db-3868-4112-a1a9-f2669d106bf3';
-
-type SenderComponent = {
-  id: number;
-  type: 'standard' | 'high-res';
-};
+// The workspace is written to localStorage at most once per interval.
+const AUTOSAVE_INTERVAL_MS = 1000;
 
 function App() {
-  const [deviceState, setDeviceState] = useState<MidiDeviceState>({
-    device: null,
-    status: 'disconnected',
-  });
   const [receivedMessages, setReceivedMessages] = useState<ParsedMidiMessage[]>([]);
-  const [senders, setSenders] = useState<SenderComponent[]>([
-    { id: Date.now(), type: 'standard' },
-    { id: Date.now() + 1, type: 'high-res' },
-  ]);
+  const [logBufferSize, setLogBufferSize] = useState(1000);
+  const logBufferSizeRef = useRef(logBufferSize);
+  logBufferSizeRef.current = logBufferSize;
+  const [controllerState, setControllerState] = useState<ControllerState>({});
+  const storedWorkspace = useMemo(() => loadStoredWorkspace(), []);
+  const [senders, setSenders] = useState<SenderConfig[]>(() => storedWorkspace?.senders ?? createDefaultSenders());
+  const [scenes, setScenes] = useState<Scene[]>(() => storedWorkspace?.scenes ?? []);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+  const workspaceFileInputRef = useRef<HTMLInputElement>(null);
   const [draggedItemId, setDraggedItemId] = useState<number | null>(null);
-  // Fix: Replaced 'BluetoothGATTCharacteristic' with 'any' because Web Bluetooth API types are not available in this context.
-  const midiCharacteristicRef = useRef<any | null>(null);
+  const [linkSettings, setLinkSettings] = useState<BleLinkSettings>({
+    mtu: DEFAULT_BLE_MTU,
+    connectionIntervalMs: 15,
+    autoReconnect: true,
+    maxReconnectAttempts: 10,
+    reconnectDelayMs: 500,
+    keepQueueOnDrop: false,
+  });
+  const linkSettingsRef = useRef(linkSettings);
+  linkSettingsRef.current = linkSettings;
+  const [thruRoutes, setThruRoutes] = useState<ThruRoute[]>([]);
+  const thruRoutesRef = useRef(thruRoutes);
+  thruRoutesRef.current = thruRoutes;
+  const [webMidiPorts, setWebMidiPorts] = useState<string[]>([]);
+  const [deviceProfiles, setDeviceProfiles] = useState<DeviceProfile[]>(() => loadStoredDeviceProfiles());
+  // Profile picked per connection id; connections without an entry match by device name.
+  const [profileChoices, setProfileChoices] = useState<Record<number, string | null>>({});
+  // The profile in use per connection id, for labelling log entries.
+  const activeProfilesRef = useRef(new Map<number, DeviceProfile>());
+  const sessionRecorder = useMemo(() => createSessionRecorder(), []);
+  // Lets panels watch incoming traffic without going through the log state.
+  const receivedEmitter = useMemo(() => createEmitter<ParsedMidiMessage[]>(), []);
+  // Completed writes, for timing what actually went out.
+  const writeEmitter = useMemo(() => createEmitter<TransportWrite>(), []);
 
-  const addSender = (type: 'standard' | 'high-res') => {
-    const newSender: SenderComponent = { id: Date.now() + Math.random(), type };
-    setSenders(prev => [...prev, newSender]);
-  };
+  // Which card or panel sent a message, looked up when its transport reports the write.
+  const sentMessageOrigins = useMemo(() => new WeakMap<Uint8Array, string>(), []);
 
-  const removeSender = (id: number) => {
-    setSenders(prev => prev.filter(sender => sender.id !== id));
-  };
-  
-  const clearMidiLog = useCallback(() => {
-    setReceivedMessages([]);
-  }, []);
+  const labelMessage = useMemo(() => createMessageLabeler(), []);
 
-  const parseMidiMessage = (data: DataView): ParsedMidiMessage | null => {
-    if (data.byteLength < 3) return null;
-
-    const status = data.getUint8(2);
-    const command = status & 0xf0;
-    const channel = (status & 0x0f) + 1;
-    const data1 = data.getUint8(3);
-    const data2 = data.byteLength > 4 ? data.getUint8(4) : 0;
-
-    let type: ParsedMidiMessage['type'] = 'Unknown';
-    let description = `Unknown: [${status}, ${data1}, ${data2}]`;
-
-    if (command === 0x90) { // Note On
-        type = 'Note On';
-        description = `Note On  - Ch: ${channel}, Note: ${data1}, Vel: ${data2}`;
-    } else if (command === 0x80) { // Note Off
-        type = 'Note Off';
-        description = `Note Off - Ch: ${channel}, Note: ${data1}, Vel: ${data2}`;
-    } else if (command === 0xb0) { // Control Change
-        type = 'Control Change';
-        description = `CC       - Ch: ${channel}, CC#: ${data1}, Val: ${data2}`;
-    }
-    
-    return {
-        id: Date.now() + Math.random(),
-        timestamp: new Date().toLocaleTimeString(),
-        type,
-        channel,
-        data1,
-        data2,
-        description,
-    };
+  const appendToLog = useCallback((entries: ParsedMidiMessage[]) => {
+    if (entries.length === 0) return;
+    const labelled = entries.map(entry => {
+      const profile = entry.source === undefined ? undefined : activeProfilesRef.current.get(entry.source);
+      return profile ? labelMessage(entry, profile) : entry;
+    });
+    setReceivedMessages(prev => [...prev, ...labelled].slice(-logBufferSizeRef.current));
+  }, [labelMessage]);
+
+  // The log shows RPN/NRPN sequences as single entries; everything else sees the raw CCs.
+  const parameterNumberGrouper = useMemo(() => createParameterNumberGrouper(appendToLog), [appendToLog]);
+
+  const deviceConnections = useDeviceConnections({
+    getLinkSettings: () => linkSettingsRef.current,
+    onMessages: (parsedMessages, source) => {
+      parameterNumberGrouper.push(parsedMessages);
+      setControllerState(prev => applyControllerMessages(prev, parsedMessages));
+      parsedMessages.forEach(message => sessionRecorder.record('in', message.bytes, message.receivedAt));
+      receivedEmitter.emit(parsedMessages);
+      // MIDI thru: forward to every routed destination, moving channel messages if requested.
+      thruRoutesRef.current
+        .filter(route => route.from === source)
+        .forEach(route => parsedMessages.forEach(message => {
+          const bytes = route.channel === null ? new Uint8Array(message.bytes) : withChannel(message.bytes, route.channel);
+          sentMessageOrigins.set(bytes, 'MIDI Thru');
+          deviceConnections.send(bytes, [route.to]);
+        }));
+    },
+    onWrite: (write, target) => {
+      appendToLog(createSentEntries(write, target, message => sentMessageOrigins.get(message)));
+      writeEmitter.emit(write);
+    },
+  });
+  const { connections, devices } = deviceConnections;
+
+  const activeProfiles = new Map(devices.flatMap(device => {
+    const profile = resolveDeviceProfile(deviceProfiles, profileChoices[device.id], device.name);
+    return profile ? [[device.id, profile] as const] : [];
+  }));
+  activeProfilesRef.current = activeProfiles;
+
+  // The profiles of a card's target devices, or every loaded profile when none of them has one.
+  const getTargetProfiles = (targets: number[]): DeviceProfile[] => {
+    const ids = targets.length > 0 ? targets : devices.map(device => device.id);
+    const profiles = [...new Set(ids.flatMap(id => activeProfiles.get(id) ?? []))];
+    return profiles.length > 0 ? profiles : deviceProfiles;
   };
 
-  const handleCharacteristicValueChanged = useCallback((event: Event) => {
-    // Fix: Replaced 'BluetoothGATTCharacteristic' with 'any' because Web Bluetooth API types are not available in this context.
-    const target = event.target as any;
-    if (target.value) {
-      const parsedMessage = parseMidiMessage(target.value);
-      if (parsedMessage) {
-          setReceivedMessages(prev => [...prev.slice(-100), parsedMessage]); // Keep log size manageable
-      }
+  const refreshWebMidiPorts = useCallback(async (id: number) => {
+    try {
+      setWebMidiPorts(await listWebMidiPorts());
+    } catch (error) {
+      console.error('Failed to list Web MIDI ports:', error);
+      deviceConnections.reportError(id, error instanceof Error ? error.message : String(error));
     }
+  }, [deviceConnections.reportError]);
+
+  const removeDevice = useCallback((id: number) => {
+    deviceConnections.removeDevice(id);
+    setThruRoutes(prev => prev.filter(route => route.from !== id && route.to !== id));
+    // Cards that only targeted this device fall back to all devices rather than to none.
+    setSenders(prev => prev.map(sender => (sender.params.targets.includes(id)
+      ? withSenderParams(sender, { targets: sender.params.targets.filter(target => target !== id) })
+      : sender)));
+  }, [deviceConnections.removeDevice]);
+
+  // Autosave the layout so it survives a reload. Writes are spaced out, since a morphing
+  // scene changes the cards many times per second; a pending write is done when the page closes.
+  const workspaceRef = useRef({ senders, scenes });
+  workspaceRef.current = { senders, scenes };
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    if (autosaveTimerRef.current !== null) return;
+    autosaveTimerRef.current = setTimeout(() => {
+      autosaveTimerRef.current = null;
+      storeWorkspace(workspaceRef.current);
+    }, AUTOSAVE_INTERVAL_MS);
+  }, [senders, scenes]);
+
+  useEffect(() => {
+    const flush = () => {
+      if (autosaveTimerRef.current === null) return;
+      clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+      storeWorkspace(workspaceRef.current);
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
   }, []);
 
-  const handleConnect = useCallback(async () => {
-    setDeviceState({ device: null, status: 'connecting' });
-    try {
-      // Fix: Cast 'navigator' to 'any' to access the 'bluetooth' property, which is part of the experimental Web Bluetooth API.
-      const device = await (navigator as any).bluetooth.requestDevice({
-        filters: [{ services: [MIDI_SERVICE_UUID] }],
-      });
+  useEffect(() => {
+    storeDeviceProfiles(deviceProfiles);
+  }, [deviceProfiles]);
 
-      const server = await device.gatt?.connect();
-      if (!server) throw new Error('Could not connect to GATT server.');
+  const addSender = (type: SenderType) => {
+    setSenders(prev => [...prev, createSender(type)]);
+  };
 
-      const service = await server.getPrimaryService(MIDI_SERVICE_UUID);
-      const characteristic = await service.getCharacteristic(MIDI_CHARACTERISTIC_UUID);
-      
-      midiCharacteristicRef.current = characteristic;
-      await characteristic.startNotifications();
-      characteristic.addEventListener('characteristicvaluechanged', handleCharacteristicValueChanged);
-      
-      setDeviceState({ device, status: 'connected' });
+  // Changes apply only while the card still has the type they were made for.
+  const updateSenderParams = useCallback(<T extends SenderType>(id: number, type: T, changes: Partial<SenderOfType<T>['params']>) => {
+    setSenders(prev => prev.map(sender =>
+      sender.id === id && isSenderOfType(sender, type) ? withSenderParams(sender, changes) : sender,
+    ));
+  }, []);
 
-      device.addEventListener('gattserverdisconnected', () => {
-        setDeviceState({ device: null, status: 'disconnected' });
-        midiCharacteristicRef.current = null;
-      });
+  const exportWorkspace = () => {
+    downloadBlob(serializeWorkspace({ senders, scenes }), 'ble-midi-workspace.json', 'application/json');
+  };
 
+  const importWorkspace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    try {
+      const workspace = parseWorkspace(await file.text());
+      setSenders(workspace.senders);
+      setScenes(workspace.scenes);
+      setWorkspaceError(null);
     } catch (error) {
-      // Check if the user cancelled the device picker. This is not a real error.
-      if (error instanceof DOMException && error.name === 'NotFoundError') {
-        console.log('User cancelled the device selection dialog.');
-        setDeviceState({ device: null, status: 'disconnected' });
-      } else {
-        // Handle other genuine errors
-        console.error('BLE Connection Error:', error);
-        setDeviceState({
-          device: null,
-          status: 'error',
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
+      console.error('Failed to import workspace:', error);
+      setWorkspaceError(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-  }, [handleCharacteristicValueChanged]);
+  };
 
-  const handleDisconnect = useCallback(() => {
-    if (deviceState.device && deviceState.device.gatt?.connected) {
-      deviceState.device.gatt.disconnect();
-    }
-    midiCharacteristicRef.current?.removeEventListener('characteristicvaluechanged', handleCharacteristicValueChanged);
-    midiCharacteristicRef.current = null;
-    setDeviceState({ device: null, status: 'disconnected' });
-  }, [deviceState.device, handleCharacteristicValueChanged]);
+  const removeSender = (id: number) => {
+    setSenders(prev => prev.filter(sender => sender.id !== id));
+  };
+  
+  const clearMidiLog = useCallback(() => {
+    setReceivedMessages([]);
+  }, []);
+
+  const changeLogBufferSize = useCallback((size: number) => {
+    setLogBufferSize(size);
+    setReceivedMessages(prev => prev.slice(-size));
+  }, []);
+
+  const resetControllerState = useCallback(() => {
+    setControllerState({});
+  }, []);
+
+  // An empty target list means every connected device; ids of removed devices are ignored, as in send.
+  const isAnyTargetConnected = (targets: number[]) => {
+    const known = targets.filter(id => devices.some(device => device.id === id));
+    return devices.some(device => device.connected && (known.length === 0 || known.includes(device.id)));
+  };
 
-  const handleSendMidi = useCallback(async (message: Uint8Array) => {
-    if (deviceState.status !== 'connected' || !midiCharacteristicRef.current) {
+  const handleSendMidi = useCallback((message: Uint8Array, targets: number[] = [], origin?: string) => {
+    if (origin) sentMessageOrigins.set(message, origin);
+    const sentTo = deviceConnections.send(message, targets);
+    if (sentTo.length === 0) {
       console.warn('Cannot send MIDI message, not connected.');
-      return;
+      const write = { messages: [message], packets: [], writtenAt: performance.now(), error: 'No connected target device' };
+      appendToLog(createSentEntries(write, undefined, () => origin));
+      return false;
     }
-    try {
-      // BLE MIDI packet requires a header and timestamp
-      const timestamp = performance.now();
-      const header = 0x80; // Header for MIDI data
-      const timestampMsb = 0x80 | ( (Math.floor(timestamp) >> 7) & 0x7F );
-      const timestampLsb = 0x80 | ( Math.floor(timestamp) & 0x7F );
-
-      // The full packet is [header, timestamp, ...midi_message]
-      const packet = new Uint8Array([timestampMsb, timestampLsb, ...message]);
-      await midiCharacteristicRef.current.writeValueWithoutResponse(packet);
-    } catch (error) {
-      console.error('Failed to send MIDI message:', error);
-      setDeviceState(prev => ({ ...prev, status: 'error', error: 'Send failed' }));
-    }
-  }, [deviceState.status]);
+    sessionRecorder.record('out', message);
+    return true;
+  }, [deviceConnections.send, sessionRecorder, sentMessageOrigins, appendToLog]);
 
-  useEffect(() => {
-    return () => {
-      // Cleanup on unmount
-      if (deviceState.device && deviceState.device.gatt?.connected) {
-        deviceState.device.gatt.disconnect();
-      }
-    };
-  }, [deviceState.device]);
-  
   const handleDragStart = (e: React.DragEvent, id: number) => {
     e.dataTransfer.setData('senderId', String(id));
     setDraggedItemId(id);
@@ -213,12 +305,31 @@ function App() {
 
         <main className="space-y-6">
           <ConnectionManager
-            deviceState={deviceState}
-            onConnect={handleConnect}
-            onDisconnect={handleDisconnect}
+            connections={connections}
+            onConnect={deviceConnections.connect}
+            onDisconnect={deviceConnections.disconnect}
+            onSettingsChange={deviceConnections.updateSettings}
+            onAddDevice={deviceConnections.addDevice}
+            onRemoveDevice={removeDevice}
+            linkSettings={linkSettings}
+            onLinkSettingsChange={setLinkSettings}
+            webMidiPorts={webMidiPorts}
+            onRefreshWebMidiPorts={refreshWebMidiPorts}
+          />
+
+          {devices.length > 1 && (
+            <ThruMatrix devices={devices} routes={thruRoutes} onRoutesChange={setThruRoutes} />
+          )}
+
+          <DeviceProfilePanel
+            profiles={deviceProfiles}
+            onProfilesChange={setDeviceProfiles}
+            devices={devices}
+            choices={profileChoices}
+            onChoicesChange={setProfileChoices}
           />
           
-          <div className="flex items-center gap-4">
+          <div className="flex flex-wrap items-center gap-4">
             <button
               onClick={() => addSender('standard')}
               className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
@@ -231,7 +342,70 @@ function App() {
             >
               Add High-Res CC
             </button>
+            <button
+              onClick={() => addSender('sysex')}
+              className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+            >
+              Add SysEx
+            </button>
+            <button
+              onClick={() => addSender('note')}
+              className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+            >
+              Add Notes
+            </button>
+            <button
+              onClick={() => addSender('rpn')}
+              className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+            >
+              Add RPN/NRPN
+            </button>
+            <button
+              onClick={() => addSender('clock')}
+              className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+            >
+              Add Clock
+            </button>
+            <button
+              onClick={() => addSender('mpe')}
+              className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+            >
+              Add MPE
+            </button>
+            <div className="flex items-center gap-2 ml-auto">
+              <input
+                ref={workspaceFileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={importWorkspace}
+                className="hidden"
+              />
+              <button
+                onClick={() => workspaceFileInputRef.current?.click()}
+                className="px-4 py-2 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+              >
+                Import Layout
+              </button>
+              <button
+                onClick={exportWorkspace}
+                className="px-4 py-2 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+              >
+                Export Layout
+              </button>
+            </div>
           </div>
+          {workspaceError && (
+            <div className="text-sm text-red-400 font-mono">{workspaceError}</div>
+          )}
+
+          <SceneBar
+            scenes={scenes}
+            onScenesChange={setScenes}
+            senders={senders}
+            onParamsChange={(sender: SenderConfig, changes: Partial<SenderParams>) => updateSenderParams(sender.id, sender.type, changes)}
+            onSend={(message: Uint8Array, sender: SenderConfig, scene: Scene) => handleSendMidi(message, sender.params.targets, `Scene "${scene.name}"`)}
+            subscribe={receivedEmitter.subscribe}
+          />
 
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {senders.map(sender => {
@@ -239,8 +413,13 @@ function App() {
                 return <StandardCCSender 
                   key={sender.id} 
                   id={sender.id} 
-                  onSend={handleSendMidi} 
-                  disabled={deviceState.status !== 'connected'} 
+                  params={sender.params}
+                  onParamsChange={changes => updateSenderParams(sender.id, sender.type, changes)}
+                  onSend={(message: Uint8Array) => handleSendMidi(message, sender.params.targets, getSenderLabel(sender))}
+                  subscribe={receivedEmitter.subscribe}
+                  profiles={getTargetProfiles(sender.params.targets)}
+                  devices={devices}
+                  disabled={!isAnyTargetConnected(sender.params.targets)}
                   onRemove={removeSender}
                   isDragging={draggedItemId === sender.id}
                   onDragStart={handleDragStart}
@@ -252,8 +431,96 @@ function App() {
                 return <HighResCCSender 
                   key={sender.id} 
                   id={sender.id} 
-                  onSend={handleSendMidi} 
-                  disabled={deviceState.status !== 'connected'} 
+                  params={sender.params}
+                  onParamsChange={changes => updateSenderParams(sender.id, sender.type, changes)}
+                  onSend={(message: Uint8Array) => handleSendMidi(message, sender.params.targets, getSenderLabel(sender))}
+                  subscribe={receivedEmitter.subscribe}
+                  profiles={getTargetProfiles(sender.params.targets)}
+                  devices={devices}
+                  disabled={!isAnyTargetConnected(sender.params.targets)}
+                  onRemove={removeSender}
+                  isDragging={draggedItemId === sender.id}
+                  onDragStart={handleDragStart}
+                  onDrop={handleDrop}
+                  onDragEnd={handleDragEnd}
+                />
+              }
+              if (sender.type === 'sysex') {
+                return <SysExSender 
+                  key={sender.id} 
+                  id={sender.id} 
+                  params={sender.params}
+                  onParamsChange={changes => updateSenderParams(sender.id, sender.type, changes)}
+                  onSend={(message: Uint8Array) => handleSendMidi(message, sender.params.targets, getSenderLabel(sender))}
+                  devices={devices}
+                  disabled={!isAnyTargetConnected(sender.params.targets)}
+                  onRemove={removeSender}
+                  isDragging={draggedItemId === sender.id}
+                  onDragStart={handleDragStart}
+                  onDrop={handleDrop}
+                  onDragEnd={handleDragEnd}
+                />
+              }
+              if (sender.type === 'note') {
+                return <NoteSender 
+                  key={sender.id} 
+                  id={sender.id} 
+                  params={sender.params}
+                  onParamsChange={changes => updateSenderParams(sender.id, sender.type, changes)}
+                  onSend={(message: Uint8Array) => handleSendMidi(message, sender.params.targets, getSenderLabel(sender))}
+                  devices={devices}
+                  disabled={!isAnyTargetConnected(sender.params.targets)}
+                  onRemove={removeSender}
+                  isDragging={draggedItemId === sender.id}
+                  onDragStart={handleDragStart}
+                  onDrop={handleDrop}
+                  onDragEnd={handleDragEnd}
+                />
+              }
+              if (sender.type === 'rpn') {
+                return <RpnSender
+                  key={sender.id}
+                  id={sender.id}
+                  params={sender.params}
+                  onParamsChange={changes => updateSenderParams(sender.id, sender.type, changes)}
+                  onSend={(message: Uint8Array) => handleSendMidi(message, sender.params.targets, getSenderLabel(sender))}
+                  subscribe={receivedEmitter.subscribe}
+                  profiles={getTargetProfiles(sender.params.targets)}
+                  devices={devices}
+                  disabled={!isAnyTargetConnected(sender.params.targets)}
+                  onRemove={removeSender}
+                  isDragging={draggedItemId === sender.id}
+                  onDragStart={handleDragStart}
+                  onDrop={handleDrop}
+                  onDragEnd={handleDragEnd}
+                />
+              }
+              if (sender.type === 'clock') {
+                return <ClockSender
+                  key={sender.id}
+                  id={sender.id}
+                  params={sender.params}
+                  onParamsChange={changes => updateSenderParams(sender.id, sender.type, changes)}
+                  onSend={(message: Uint8Array) => handleSendMidi(message, sender.params.targets, getSenderLabel(sender))}
+                  subscribe={receivedEmitter.subscribe}
+                  devices={devices}
+                  disabled={!isAnyTargetConnected(sender.params.targets)}
+                  onRemove={removeSender}
+                  isDragging={draggedItemId === sender.id}
+                  onDragStart={handleDragStart}
+                  onDrop={handleDrop}
+                  onDragEnd={handleDragEnd}
+                />
+              }
+              if (sender.type === 'mpe') {
+                return <MpeSender
+                  key={sender.id}
+                  id={sender.id}
+                  params={sender.params}
+                  onParamsChange={changes => updateSenderParams(sender.id, sender.type, changes)}
+                  onSend={(message: Uint8Array) => handleSendMidi(message, sender.params.targets, getSenderLabel(sender))}
+                  devices={devices}
+                  disabled={!isAnyTargetConnected(sender.params.targets)}
                   onRemove={removeSender}
                   isDragging={draggedItemId === sender.id}
                   onDragStart={handleDragStart}
@@ -265,11 +532,41 @@ function App() {
             })}
           </div>
           
-          <MidiLog messages={receivedMessages} onClear={clearMidiLog} />
+          <SessionPanel
+            recorder={sessionRecorder}
+            onSend={(message: Uint8Array) => handleSendMidi(message, [], 'Session playback')}
+            disabled={!isAnyTargetConnected([])}
+          />
+
+          <DiagnosticsPanel
+            devices={devices}
+            onSend={(message: Uint8Array, targets: number[]) => handleSendMidi(message, targets, 'Link diagnostics')}
+            subscribe={receivedEmitter.subscribe}
+            subscribeWrites={writeEmitter.subscribe}
+          />
+
+          <TestSequencePanel
+            devices={devices}
+            onSend={(message: Uint8Array, targets: number[]) => handleSendMidi(message, targets, 'Test sequence')}
+            subscribe={receivedEmitter.subscribe}
+            subscribeWrites={writeEmitter.subscribe}
+          />
+
+          <ControllerMonitor state={controllerState} onClear={resetControllerState} />
+
+          <MpeMonitor subscribe={receivedEmitter.subscribe} />
+
+          <MidiLog
+            messages={receivedMessages}
+            devices={devices}
+            onClear={clearMidiLog}
+            bufferSize={logBufferSize}
+            onBufferSizeChange={changeLogBufferSize}
+          />
         </main>
         
         <footer className="text-center mt-12 text-gray-500 text-sm">
-            <p>Built for modern browsers with Web Bluetooth support (e.g., Chrome, Edge).</p>
+            <p>Built for modern browsers with Web Bluetooth or Web MIDI support (e.g., Chrome, Edge).</p>
         </footer>
       </div>
     </div>
@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { AutomationConfig, Waveform } from '../types';
+import { createAutomationEngine } from '../utils/automation';
+
+interface AutomationControlsProps {
+  id: number;
+  config: AutomationConfig;
+  onConfigChange: (config: AutomationConfig) => void;
+  // Engine updates per second; cards pass their max send rate.
+  updateRate: number;
+  // Receives the generated value as a fraction of the card's full range, 0-1.
+  onValue: (normalized: number) => void;
+  disabled: boolean;
+}
+
+const WAVEFORM_LABELS: Record<Waveform, string> = {
+  sine: 'Sine',
+  triangle: 'Triangle',
+  saw: 'Saw',
+  square: 'Square',
+  random: 'Random (S&H)',
+  ramp: 'Ramp (once)',
+};
+
+const inputClassName = "mt-1 block w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+const AutomationControls: React.FC<AutomationControlsProps> = ({ id, config, onConfigChange, updateRate, onValue, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // The engine runs on its own timer and reads the latest props through refs.
+  const latestRef = useRef({ config, updateRate, onValue });
+  latestRef.current = { config, updateRate, onValue };
+
+  const engine = useMemo(() => createAutomationEngine({
+    getConfig: () => latestRef.current.config,
+    getTickMs: () => 1000 / Math.max(latestRef.current.updateRate, 1),
+    onValue: (normalized) => latestRef.current.onValue(normalized),
+    onComplete: () => setIsRunning(false),
+  }), []);
+
+  useEffect(() => {
+    if (isRunning) {
+      engine.start();
+    }
+    return () => engine.stop();
+  }, [engine, isRunning]);
+
+  // A dropped link stops the automation; it does not resume on its own.
+  useEffect(() => {
+    if (disabled) setIsRunning(false);
+  }, [disabled]);
+
+  const update = (changes: Partial<AutomationConfig>) => onConfigChange({ ...config, ...changes });
+
+  return (
+    <div className="border-t border-gray-700 pt-2">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-xs font-medium text-gray-400 hover:text-gray-200"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? '▾' : '▸'} Automation {isRunning && <span className="text-green-400">● {WAVEFORM_LABELS[config.waveform]}</span>}
+        </button>
+        <button
+          onClick={() => setIsRunning(!isRunning)}
+          className={`px-2 py-0.5 text-xs font-semibold rounded-md transition-colors ${isRunning ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+          disabled={disabled}
+        >
+          {isRunning ? 'Stop' : 'Start'}
+        </button>
+      </div>
+      {isOpen && (
+        <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-gray-400">
+          <label className="col-span-2">
+            Waveform
+            <select
+              value={config.waveform}
+              onChange={(e) => update({ waveform: e.target.value as Waveform })}
+              className={inputClassName}
+              disabled={disabled}
+            >
+              {(Object.keys(WAVEFORM_LABELS) as Waveform[]).map(waveform => (
+                <option key={waveform} value={waveform}>{WAVEFORM_LABELS[waveform]}</option>
+              ))}
+            </select>
+          </label>
+          <label htmlFor={`automation-rate-${id}`}>
+            Rate (Hz)
+            <input
+              type="number"
+              id={`automation-rate-${id}`}
+              min="0.01"
+              max="50"
+              step="0.01"
+              value={config.rateHz}
+              onChange={(e) => update({ rateHz: parseFloat(e.target.value) || 0 })}
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </label>
+          <label htmlFor={`automation-phase-${id}`}>
+            Phase (°)
+            <input
+              type="number"
+              id={`automation-phase-${id}`}
+              min="0"
+              max="360"
+              value={config.phase}
+              onChange={(e) => update({ phase: parseFloat(e.target.value) || 0 })}
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </label>
+          <label htmlFor={`automation-depth-${id}`}>
+            Depth: <span className="font-mono text-blue-400">{Math.round(config.depth * 100)}%</span>
+            <input
+              type="range"
+              id={`automation-depth-${id}`}
+              min="0"
+              max="100"
+              value={Math.round(config.depth * 100)}
+              onChange={(e) => update({ depth: parseInt(e.target.value, 10) / 100 })}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              disabled={disabled}
+            />
+          </label>
+          <label htmlFor={`automation-offset-${id}`}>
+            Offset: <span className="font-mono text-blue-400">{Math.round(config.offset * 100)}%</span>
+            <input
+              type="range"
+              id={`automation-offset-${id}`}
+              min="0"
+              max="100"
+              value={Math.round(config.offset * 100)}
+              onChange={(e) => update({ offset: parseInt(e.target.value, 10) / 100 })}
+              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+              disabled={disabled}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutomationControls;
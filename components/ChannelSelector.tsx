@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+
+interface ChannelSelectorProps {
+  id: number;
+  // Selected channels, 1-16. The same message is sent on each of them.
+  channels: number[];
+  onChange: (channels: number[]) => void;
+  disabled: boolean;
+}
+
+const ALL_CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+const ChannelSelector: React.FC<ChannelSelectorProps> = ({ id, channels, onChange, disabled }) => {
+  const [isMulti, setIsMulti] = useState(channels.length > 1);
+
+  const toggleMulti = () => {
+    if (isMulti) {
+      // Leaving multi mode keeps the lowest selected channel.
+      onChange([channels[0] ?? 1]);
+    }
+    setIsMulti(!isMulti);
+  };
+
+  const toggleChannel = (channel: number) => {
+    // A card without channels would send nothing, so the last channel stays selected.
+    if (channels.length === 1 && channels[0] === channel) return;
+    const next = channels.includes(channel)
+      ? channels.filter(ch => ch !== channel)
+      : [...channels, channel].sort((a, b) => a - b);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <label htmlFor={`channel-${id}`} className="block text-sm font-medium text-gray-300">
+          Channel
+        </label>
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          <input type="checkbox" checked={isMulti} onChange={toggleMulti} disabled={disabled} />
+          Multi
+        </label>
+      </div>
+      {isMulti ? (
+        <div className="mt-1 grid grid-cols-8 gap-1" role="group" aria-label="Channels">
+          {ALL_CHANNELS.map(channel => (
+            <button
+              key={channel}
+              onClick={() => toggleChannel(channel)}
+              className={`py-1 text-xs font-mono rounded ${channels.includes(channel) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+              aria-pressed={channels.includes(channel)}
+              title={channels.length === 1 && channels[0] === channel ? 'At least one channel stays selected' : undefined}
+              disabled={disabled}
+            >
+              {channel}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <select
+          id={`channel-${id}`}
+          value={channels[0]}
+          onChange={(e) => onChange([parseInt(e.target.value, 10)])}
+          className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          disabled={disabled}
+        >
+          {ALL_CHANNELS.map(channel => (
+            <option key={channel} value={channel}>{channel}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default ChannelSelector;
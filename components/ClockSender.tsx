@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import SenderCard from './SenderCard';
+import {
+  CLOCKS_PER_QUARTER,
+  MAX_BPM,
+  MIN_BPM,
+  createClockFollower,
+  createClockMaster,
+  formatSongPosition,
+  type ClockFollowerState,
+} from '../utils/midiClock';
+import type { ClockMode, ClockParams, DeviceSummary, ParsedMidiMessage } from '../types';
+
+interface ClockSenderProps {
+  id: number;
+  params: ClockParams;
+  onParamsChange: (changes: Partial<ClockParams>) => void;
+  onSend: (message: Uint8Array) => void;
+  // Received messages, for slave mode
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  devices: DeviceSummary[];
+  disabled: boolean;
+  onRemove: (id: number) => void;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent, id: number) => void;
+  onDrop: (e: React.DragEvent, id: number) => void;
+  onDragEnd: (e: React.DragEvent) => void;
+}
+
+const buttonClass = 'flex-1 px-3 py-2 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const inputClass = 'mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const clampBpm = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(bpm * 10) / 10));
+
+/**
+ * MIDI clock card. As master it sends 24 PPQN clock, Start/Stop/Continue and Song Position
+ * Pointer; as slave it shows the tempo and transport state received from the target devices.
+ */
+const ClockSender: React.FC<ClockSenderProps> = ({
+  id,
+  params,
+  onParamsChange,
+  onSend,
+  subscribe,
+  devices,
+  disabled,
+  onRemove,
+  isDragging,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+}) => {
+  const { mode, bpm, clockWhileStopped, description } = params;
+  const isMaster = mode === 'master';
+  const [transport, setTransport] = useState<ClockFollowerState>({ playing: false, position: 0, bpm: null, receivingClock: false });
+  const [locateBar, setLocateBar] = useState(1);
+  const [locateBeat, setLocateBeat] = useState(1);
+
+  const onSendRef = useRef(onSend);
+  onSendRef.current = onSend;
+  const targetsRef = useRef(params.targets);
+  targetsRef.current = params.targets;
+
+  const master = useMemo(() => createClockMaster(message => onSendRef.current(message)), []);
+  const follower = useMemo(() => createClockFollower(), []);
+
+  useEffect(() => () => master.halt(), [master]);
+
+  useEffect(() => {
+    master.setBpm(bpm);
+  }, [bpm, master]);
+
+  // Without a link the clock has nowhere to go; stop rather than silently dropping it.
+  useEffect(() => {
+    if (!isMaster || disabled) master.halt();
+    master.setClockWhileStopped(isMaster && !disabled && clockWhileStopped);
+  }, [isMaster, disabled, clockWhileStopped, master]);
+
+  useEffect(() => {
+    if (isMaster) return;
+    follower.reset();
+    return subscribe(messages => {
+      const targets = targetsRef.current;
+      messages
+        .filter(message => targets.length === 0 || (message.source !== undefined && targets.includes(message.source)))
+        .forEach(follower.handle);
+    });
+  }, [isMaster, subscribe, follower]);
+
+  // Poll rather than re-render on every one of the 24 clocks per beat.
+  useEffect(() => {
+    const poll = () => setTransport(isMaster ? { ...master.getState(), bpm, receivingClock: true } : follower.getState());
+    poll();
+    const timer = setInterval(poll, 50);
+    return () => clearInterval(timer);
+  }, [isMaster, bpm, master, follower]);
+
+  const changeMode = (next: ClockMode) => {
+    // Leave slaves stopped rather than running without clock.
+    if (next === 'slave' && master.getState().playing) master.stop();
+    onParamsChange({ mode: next });
+  };
+
+  const locate = () => master.locate((locateBar - 1) * 16 + (locateBeat - 1) * 4);
+
+  const onBeat = transport.playing && transport.position % CLOCKS_PER_QUARTER < CLOCKS_PER_QUARTER / 4;
+
+  return (
+    <SenderCard
+      id={id}
+      title="MIDI Clock"
+      description={description}
+      onDescriptionChange={(description) => onParamsChange({ description })}
+      descriptionPlaceholder="Add a description (e.g., Pedal LFO Sync)"
+      devices={devices}
+      targets={params.targets}
+      onTargetsChange={(targets) => onParamsChange({ targets })}
+      disabled={disabled}
+      onRemove={onRemove}
+      isDragging={isDragging}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+    >
+      <div className="space-y-4">
+        <div className="flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Clock mode">
+          {(['master', 'slave'] as ClockMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => changeMode(option)}
+              className={`flex-1 px-3 py-1 text-sm capitalize ${mode === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+              aria-pressed={mode === option}
+              disabled={disabled}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-xs font-mono p-3 bg-gray-900 rounded-md">
+          <div className="space-y-1 text-gray-400">
+            <div>
+              Tempo: <span className="text-blue-400">{transport.bpm === null ? '—' : `${transport.bpm.toFixed(1)} BPM`}</span>
+            </div>
+            <div>
+              State: <span className="text-blue-400">
+                {transport.playing ? 'Playing' : 'Stopped'}
+                {!isMaster && !transport.receivingClock && ' (no clock)'}
+              </span>
+            </div>
+            <div>
+              Position: <span className="text-blue-400">{formatSongPosition(transport.position)}</span>
+            </div>
+          </div>
+          <span
+            className={`w-4 h-4 rounded-full ${onBeat ? 'bg-green-400' : 'bg-gray-700'}`}
+            aria-label="Beat indicator"
+          />
+        </div>
+
+        {isMaster && (
+          <>
+            <div>
+              <label htmlFor={`clock-bpm-${id}`} className="block text-sm font-medium text-gray-300">
+                BPM
+              </label>
+              <input
+                type="number"
+                id={`clock-bpm-${id}`}
+                min={MIN_BPM}
+                max={MAX_BPM}
+                step="0.1"
+                value={bpm}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value)) onParamsChange({ bpm: clampBpm(value) });
+                }}
+                className={inputClass}
+                disabled={disabled}
+              />
+              <input
+                type="range"
+                min={MIN_BPM}
+                max={MAX_BPM}
+                value={bpm}
+                onChange={(e) => onParamsChange({ bpm: clampBpm(parseInt(e.target.value, 10)) })}
+                className="w-full h-2 mt-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+                aria-label="BPM"
+                disabled={disabled}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button onClick={master.start} className={buttonClass} disabled={disabled}>Start</button>
+              <button onClick={master.resume} className={buttonClass} disabled={disabled || transport.playing}>Continue</button>
+              <button onClick={master.stop} className={buttonClass} disabled={disabled}>Stop</button>
+            </div>
+            <div className="flex items-end gap-2">
+              <div>
+                <label htmlFor={`clock-bar-${id}`} className="block text-xs text-gray-400">Bar</label>
+                <input
+                  type="number"
+                  id={`clock-bar-${id}`}
+                  min="1"
+                  max="1024"
+                  value={locateBar}
+                  onChange={(e) => setLocateBar(Math.min(1024, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  className={inputClass}
+                  disabled={disabled}
+                />
+              </div>
+              <div>
+                <label htmlFor={`clock-beat-${id}`} className="block text-xs text-gray-400">Beat</label>
+                <input
+                  type="number"
+                  id={`clock-beat-${id}`}
+                  min="1"
+                  max="4"
+                  value={locateBeat}
+                  onChange={(e) => setLocateBeat(Math.min(4, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  className={inputClass}
+                  disabled={disabled}
+                />
+              </div>
+              <button
+                onClick={locate}
+                className={buttonClass}
+                disabled={disabled || transport.playing}
+                title="Send Song Position Pointer (only while stopped)"
+              >
+                Locate
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={clockWhileStopped}
+                onChange={(e) => onParamsChange({ clockWhileStopped: e.target.checked })}
+                disabled={disabled}
+              />
+              Send clock while stopped
+            </label>
+          </>
+        )}
+
+        {!isMaster && (
+          <p className="text-xs text-gray-500">
+            Follows clock, Start/Continue/Stop and Song Position Pointer from {params.targets.length === 0 ? 'any device' : 'the selected devices'}.
+          </p>
+        )}
+      </div>
+    </SenderCard>
+  );
+};
+
+export default ClockSender;
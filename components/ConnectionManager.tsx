@@ -1,23 +1,94 @@
-import React from 'react';
-import type { MidiDeviceState } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { BleLinkSettings, LoopbackMode, TransportKind, TransportSettings } from '../types';
+import { getDeviceName, type DeviceConnection } from '../hooks/useDeviceConnections';
+import { useConnectionHealth } from '../hooks/useConnectionHealth';
 import BluetoothIcon from './icons/BluetoothIcon';
 import PlugZapIcon from './icons/PlugZapIcon';
+import XIcon from './icons/XIcon';
 
 interface ConnectionManagerProps {
-  deviceState: MidiDeviceState;
-  onConnect: () => void;
-  onDisconnect: () => void;
+  connections: DeviceConnection[];
+  onConnect: (id: number) => void;
+  onDisconnect: (id: number) => void;
+  onSettingsChange: (id: number, settings: TransportSettings) => void;
+  onAddDevice: () => void;
+  onRemoveDevice: (id: number) => void;
+  // Shared by every Bluetooth connection
+  linkSettings: BleLinkSettings;
+  onLinkSettingsChange: (settings: BleLinkSettings) => void;
+  webMidiPorts: string[];
+  onRefreshWebMidiPorts: (id: number) => void;
 }
 
-const ConnectionManager: React.FC<ConnectionManagerProps> = ({ deviceState, onConnect, onDisconnect }) => {
-  const { status, device, error } = deviceState;
+interface DeviceConnectionRowProps {
+  connection: DeviceConnection;
+  // Only shown when more than one device is configured
+  showName: boolean;
+  canRemove: boolean;
+  maxReconnectAttempts: number;
+  onConnect: (id: number) => void;
+  onDisconnect: (id: number) => void;
+  onSettingsChange: (id: number, settings: TransportSettings) => void;
+  onRemove: (id: number) => void;
+  webMidiPorts: string[];
+  onRefreshWebMidiPorts: (id: number) => void;
+}
+
+const TRANSPORT_LABELS: Record<TransportKind, string> = {
+  'bluetooth': 'Web Bluetooth (BLE MIDI)',
+  'web-midi': 'Web MIDI (USB / virtual ports)',
+  'loopback': 'Loopback (no hardware)',
+  'peripheral': 'Virtual peripheral (companion)',
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':');
+};
+
+const numberInputClassName = "w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+const selectClassName = "px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+const DeviceConnectionRow: React.FC<DeviceConnectionRowProps> = ({
+  connection,
+  showName,
+  canRemove,
+  maxReconnectAttempts,
+  onConnect,
+  onDisconnect,
+  onSettingsChange,
+  onRemove,
+  webMidiPorts,
+  onRefreshWebMidiPorts,
+}) => {
+  const { id, settings, state } = connection;
+  const { status, device, error, reconnectAttempt } = state;
+  const health = useConnectionHealth(state);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while connected so the uptime stays current.
+  useEffect(() => {
+    if (health.connectedSince === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [health.connectedSince]);
+
+  // A virtual peripheral is 'connecting' for as long as it advertises without a central.
+  const isAdvertising = settings.kind === 'peripheral' && status === 'connecting' && device !== null;
 
   const getStatusText = () => {
     switch (status) {
       case 'connecting':
-        return 'Connecting...';
+        return isAdvertising ? `Advertising as ${device.name}, waiting for a central...` : 'Connecting...';
       case 'connected':
         return `Connected to: ${device?.name || 'Unknown Device'}`;
+      case 'reconnecting':
+        return `Reconnecting to ${device?.name || 'Unknown Device'} (attempt ${reconnectAttempt} of ${maxReconnectAttempts})...`;
       case 'error':
         return `Error: ${error || 'An unknown error occurred'}`;
       case 'disconnected':
@@ -33,38 +104,286 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({ deviceState, onCo
       case 'error':
         return 'text-red-400';
       case 'connecting':
+      case 'reconnecting':
         return 'text-yellow-400';
       default:
         return 'text-gray-400';
     }
   };
 
+  const canChangeTransport = status === 'disconnected' || status === 'error';
+
+  const updateSettings = (changes: Partial<TransportSettings>) => {
+    onSettingsChange(id, { ...settings, ...changes });
+  };
+
+  return (
+    <div className="py-3 first:pt-0 last:pb-0">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-2">
+        <div className="flex items-center space-x-3 self-start sm:self-center">
+          <div className={`w-3 h-3 rounded-full ${status === 'connected' ? 'bg-green-500 animate-pulse' : 'bg-gray-600'}`}></div>
+          {showName && <span className="text-sm font-semibold text-gray-300">{getDeviceName(connection)}</span>}
+          <span className={`font-mono text-sm ${getStatusColor()}`}>{getStatusText()}</span>
+        </div>
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          {status === 'connected' || status === 'reconnecting' || isAdvertising ? (
+            <button
+              onClick={() => onDisconnect(id)}
+              className="flex items-center space-x-2 px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500 transition-colors w-full sm:w-auto justify-center"
+            >
+              <PlugZapIcon className="w-4 h-4" />
+              <span>{status === 'reconnecting' ? 'Stop Reconnecting' : isAdvertising ? 'Stop Advertising' : 'Disconnect'}</span>
+            </button>
+          ) : (
+            <button
+              onClick={() => onConnect(id)}
+              disabled={status === 'connecting'}
+              className="flex items-center shrink-0 space-x-2 px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full sm:w-auto justify-center"
+            >
+              {settings.kind === 'bluetooth' ? <BluetoothIcon className="w-4 h-4" /> : <PlugZapIcon className="w-4 h-4" />}
+              <span>{settings.kind === 'peripheral' ? 'Advertise' : 'Connect'}</span>
+            </button>
+          )}
+          {canRemove && (
+            <button
+              onClick={() => onRemove(id)}
+              className="text-gray-500 hover:text-red-400 transition-colors"
+              aria-label={`Remove ${getDeviceName(connection)}`}
+              title="Remove Device"
+            >
+              <XIcon className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-400">
+        <label className="flex items-center gap-2">
+          Transport
+          <select
+            value={settings.kind}
+            onChange={(e) => updateSettings({ kind: e.target.value as TransportKind })}
+            disabled={!canChangeTransport}
+            className={selectClassName}
+          >
+            {(Object.keys(TRANSPORT_LABELS) as TransportKind[]).map(kind => (
+              <option key={kind} value={kind}>{TRANSPORT_LABELS[kind]}</option>
+            ))}
+          </select>
+        </label>
+        {settings.kind === 'web-midi' && (
+          <label className="flex items-center gap-2">
+            Port
+            <select
+              value={settings.webMidiPortName}
+              onChange={(e) => updateSettings({ webMidiPortName: e.target.value })}
+              disabled={!canChangeTransport}
+              className={selectClassName}
+            >
+              <option value="">First available</option>
+              {webMidiPorts.map(port => (
+                <option key={port} value={port}>{port}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onRefreshWebMidiPorts(id)}
+              className="px-2 py-1 text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Refresh
+            </button>
+          </label>
+        )}
+        {settings.kind === 'loopback' && (
+          <label className="flex items-center gap-2">
+            Responses
+            <select
+              value={settings.loopbackMode}
+              onChange={(e) => updateSettings({ loopbackMode: e.target.value as LoopbackMode })}
+              className={selectClassName}
+            >
+              <option value="echo">Echo every message</option>
+              <option value="silent">Silent</option>
+              <option value="script">Scripted</option>
+            </select>
+          </label>
+        )}
+        {settings.kind === 'peripheral' && (
+          <>
+            <label className="flex items-center gap-2">
+              Companion
+              <input
+                type="text"
+                value={settings.peripheralUrl}
+                onChange={(e) => updateSettings({ peripheralUrl: e.target.value })}
+                disabled={!canChangeTransport}
+                spellCheck={false}
+                className={`${selectClassName} w-48 font-mono`}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Name
+              <input
+                type="text"
+                value={settings.peripheralName}
+                onChange={(e) => updateSettings({ peripheralName: e.target.value })}
+                disabled={!canChangeTransport}
+                className={`${selectClassName} w-40`}
+              />
+            </label>
+          </>
+        )}
+        <span className="font-mono text-gray-500">
+          Uptime: <span className="text-gray-300">{health.connectedSince === null ? '--:--:--' : formatDuration(now - health.connectedSince)}</span>
+        </span>
+        <span className="font-mono text-gray-500">
+          Drops: <span className={health.dropCount > 0 ? 'text-yellow-400' : 'text-gray-300'}>{health.dropCount}</span>
+        </span>
+        <span className="font-mono text-gray-500">
+          Last error: <span className={health.lastError ? 'text-red-400' : 'text-gray-300'}>{health.lastError ?? 'none'}</span>
+        </span>
+      </div>
+      {settings.kind === 'peripheral' && (
+        <textarea
+          rows={3}
+          value={settings.peripheralScript}
+          onChange={(e) => updateSettings({ peripheralScript: e.target.value })}
+          disabled={!canChangeTransport}
+          spellCheck={false}
+          aria-label="Virtual peripheral response script"
+          className="mt-3 block w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-300 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+        />
+      )}
+      {settings.kind === 'loopback' && settings.loopbackMode === 'script' && (
+        <textarea
+          rows={4}
+          value={settings.loopbackScript}
+          onChange={(e) => updateSettings({ loopbackScript: e.target.value })}
+          spellCheck={false}
+          aria-label="Loopback response script"
+          className="mt-3 block w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-300 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      )}
+    </div>
+  );
+};
+
+const ConnectionManager: React.FC<ConnectionManagerProps> = ({
+  connections,
+  onConnect,
+  onDisconnect,
+  onSettingsChange,
+  onAddDevice,
+  onRemoveDevice,
+  linkSettings,
+  onLinkSettingsChange,
+  webMidiPorts,
+  onRefreshWebMidiPorts,
+}) => {
+  const handleSettingChange = (key: 'mtu' | 'connectionIntervalMs' | 'maxReconnectAttempts' | 'reconnectDelayMs') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!Number.isNaN(value)) {
+      onLinkSettingsChange({ ...linkSettings, [key]: value });
+    }
+  };
+
+  const usesBluetooth = connections.some(connection => connection.settings.kind === 'bluetooth');
+
   return (
-    <div className="flex flex-col sm:flex-row items-center justify-between p-4 bg-gray-800 border border-gray-700 rounded-lg">
-      <div className="flex items-center space-x-3 self-start sm:self-center">
-        <div className={`w-3 h-3 rounded-full ${status === 'connected' ? 'bg-green-500 animate-pulse' : 'bg-gray-600'}`}></div>
-        <span className={`font-mono text-sm ${getStatusColor()}`}>{getStatusText()}</span>
+    <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg">
+      <div className="divide-y divide-gray-700">
+        {connections.map(connection => (
+          <DeviceConnectionRow
+            key={connection.id}
+            connection={connection}
+            showName={connections.length > 1}
+            canRemove={connections.length > 1}
+            maxReconnectAttempts={linkSettings.maxReconnectAttempts}
+            onConnect={onConnect}
+            onDisconnect={onDisconnect}
+            onSettingsChange={onSettingsChange}
+            onRemove={onRemoveDevice}
+            webMidiPorts={webMidiPorts}
+            onRefreshWebMidiPorts={onRefreshWebMidiPorts}
+          />
+        ))}
       </div>
-      {status === 'connected' ? (
+      <div className="flex flex-wrap items-center gap-4 mt-3 pt-3 border-t border-gray-700 text-xs text-gray-400">
         <button
-          onClick={onDisconnect}
-          className="flex items-center space-x-2 px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500 transition-colors mt-4 sm:mt-0 w-full sm:w-auto justify-center"
+          onClick={onAddDevice}
+          className="px-2 py-1 text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
         >
-          <PlugZapIcon className="w-4 h-4" />
-          <span>Disconnect</span>
+          + Add Device
         </button>
-      ) : (
-          <button
-            onClick={onConnect}
-            disabled={status === 'connecting'}
-            className="flex items-center shrink-0 space-x-2 px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors mt-4 sm:mt-0 w-full sm:w-auto justify-center"
-          >
-            <BluetoothIcon className="w-4 h-4" />
-            <span>Connect</span>
-          </button>
-      )}
+        {usesBluetooth && (
+          <>
+            <label className="flex items-center gap-2">
+              MTU (bytes)
+              <input
+                type="number"
+                min="23"
+                max="517"
+                value={linkSettings.mtu}
+                onChange={handleSettingChange('mtu')}
+                className={numberInputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Connection interval (ms)
+              <input
+                type="number"
+                min="7"
+                max="4000"
+                value={linkSettings.connectionIntervalMs}
+                onChange={handleSettingChange('connectionIntervalMs')}
+                className={numberInputClassName}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={linkSettings.autoReconnect}
+                onChange={(e) => onLinkSettingsChange({ ...linkSettings, autoReconnect: e.target.checked })}
+              />
+              Auto-reconnect
+            </label>
+            {linkSettings.autoReconnect && (
+              <>
+                <label className="flex items-center gap-2">
+                  Max attempts
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={linkSettings.maxReconnectAttempts}
+                    onChange={handleSettingChange('maxReconnectAttempts')}
+                    className={numberInputClassName}
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  First retry after (ms)
+                  <input
+                    type="number"
+                    min="100"
+                    max="30000"
+                    value={linkSettings.reconnectDelayMs}
+                    onChange={handleSettingChange('reconnectDelayMs')}
+                    className={numberInputClassName}
+                  />
+                </label>
+                <label className="flex items-center gap-2" title="Send messages that were still queued when the link dropped once it is back, instead of discarding them">
+                  <input
+                    type="checkbox"
+                    checked={linkSettings.keepQueueOnDrop}
+                    onChange={(e) => onLinkSettingsChange({ ...linkSettings, keepQueueOnDrop: e.target.checked })}
+                  />
+                  Keep queued messages
+                </label>
+              </>
+            )}
+          </>
+        )}
+      </div>
     </div>
   );
 };
 
-export default ConnectionManager;
\ No newline at end of file
+export default ConnectionManager;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import Card from './Card';
+import { getHighResValue, type ChannelState, type ControllerState } from '../utils/controllerState';
+import { noteName } from '../utils/notes';
+
+interface ControllerMonitorProps {
+  state: ControllerState;
+  onClear: () => void;
+}
+
+const FLASH_MS = 400;
+
+const Meter: React.FC<{ label: string; value: number; max: number; changedAt: number }> = ({ label, value, max, changedAt }) => {
+  const [flash, setFlash] = useState(false);
+
+  // Highlight briefly whenever the value changes.
+  useEffect(() => {
+    setFlash(true);
+    const timer = setTimeout(() => setFlash(false), FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [changedAt]);
+
+  return (
+    <div className={`p-2 rounded-md border transition-colors duration-300 ${flash ? 'border-blue-400 bg-gray-700' : 'border-gray-700 bg-gray-900'}`}>
+      <div className="flex justify-between text-xs font-mono">
+        <span className="text-gray-400">{label}</span>
+        <span className="text-blue-300">{value}</span>
+      </div>
+      <div className="mt-1 h-1.5 bg-gray-700 rounded">
+        <div className="h-full bg-blue-500 rounded" style={{ width: `${(value / max) * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const ChannelControllers: React.FC<{ channel: number; state: ChannelState }> = ({ channel, state }) => {
+  const controllers = Object.keys(state.controllers).map(Number).sort((a, b) => a - b);
+  const heldNotes = Object.keys(state.heldNotes).map(Number).sort((a, b) => a - b);
+
+  const meters = controllers.flatMap(cc => {
+    // LSBs are folded into their MSB's 14-bit meter.
+    if (cc >= 32 && cc < 64 && state.controllers[cc - 32]) return [];
+    const highRes = getHighResValue(state, cc);
+    const { changedAt } = state.controllers[cc];
+    if (highRes !== null) {
+      const lsbChangedAt = state.controllers[cc + 32].changedAt;
+      return [<Meter key={cc} label={`CC ${cc}/${cc + 32}`} value={highRes} max={16383} changedAt={Math.max(changedAt, lsbChangedAt)} />];
+    }
+    return [<Meter key={cc} label={`CC ${cc}`} value={state.controllers[cc].value} max={127} changedAt={changedAt} />];
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline gap-3">
+        <h3 className="text-sm font-semibold text-gray-300">Channel {channel}</h3>
+        <span className="text-xs font-mono text-gray-500">
+          Held notes:{' '}
+          {heldNotes.length === 0 ? 'none' : heldNotes.map(note => (
+            <span key={note} className="mr-2 text-green-400">{noteName(note)} ({note}, vel {state.heldNotes[note]})</span>
+          ))}
+        </span>
+      </div>
+      {meters.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-2">{meters}</div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Mirrors the latest value of every received CC per channel, plus the notes currently held.
+ */
+const ControllerMonitor: React.FC<ControllerMonitorProps> = ({ state, onClear }) => {
+  const channels = Object.keys(state).map(Number).sort((a, b) => a - b);
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
+        <h2 className="text-xl font-bold text-gray-200">Controller Monitor</h2>
+        <button
+          onClick={onClear}
+          className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+          aria-label="Reset controller monitor"
+        >
+          Reset
+        </button>
+      </div>
+      {channels.length === 0 ? (
+        <div className="py-6 text-center text-sm text-gray-500">Waiting for CC or note messages...</div>
+      ) : (
+        <div className="space-y-4">
+          {channels.map(channel => (
+            <ChannelControllers key={channel} channel={channel} state={state[channel]} />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default ControllerMonitor;
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import Card from './Card';
+import type { DeviceProfile, DeviceSummary } from '../types';
+import { findProfileByDeviceName, parseDeviceProfile } from '../utils/deviceProfiles';
+
+interface DeviceProfilePanelProps {
+  profiles: DeviceProfile[];
+  onProfilesChange: (profiles: DeviceProfile[]) => void;
+  devices: DeviceSummary[];
+  // Profile name picked per connection id, or null for none; connections without an entry match by device name
+  choices: Record<number, string | null>;
+  onChoicesChange: (choices: Record<number, string | null>) => void;
+}
+
+const AUTO = 'auto';
+const NONE = 'none';
+const PROFILE_PREFIX = 'profile:';
+
+const buttonClass = 'px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50';
+const selectClass = 'px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * Loads device profiles (JSON or MIDNAM) and picks the profile each device connection uses,
+ * by default the first one listing the connected device's name.
+ */
+const DeviceProfilePanel: React.FC<DeviceProfilePanelProps> = ({ profiles, onProfilesChange, devices, choices, onChoicesChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    let next = profiles;
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const profile = parseDeviceProfile(await file.text());
+        // A profile with the same name is an update of that profile.
+        next = [...next.filter(existing => existing.name !== profile.name), profile];
+      } catch (err) {
+        console.error(`Failed to load device profile ${file.name}:`, err);
+        errors.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    onProfilesChange(next);
+    setError(errors.length > 0 ? `Load failed: ${errors.join('; ')}` : null);
+  };
+
+  const removeProfile = (name: string) => {
+    onProfilesChange(profiles.filter(profile => profile.name !== name));
+  };
+
+  const choiceValue = (id: number) => {
+    const choice = choices[id];
+    if (choice === undefined) return AUTO;
+    return choice === null ? NONE : `${PROFILE_PREFIX}${choice}`;
+  };
+
+  const setChoice = (id: number, value: string) => {
+    const { [id]: _previous, ...others } = choices;
+    if (value === AUTO) onChoicesChange(others);
+    else onChoicesChange({ ...others, [id]: value === NONE ? null : value.slice(PROFILE_PREFIX.length) });
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
+        <h2 className="text-xl font-bold text-gray-200">Device Profiles</h2>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.midnam,.xml,application/json,application/xml"
+            multiple
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Load Profile</button>
+        </div>
+      </div>
+      {error && <div className="text-xs text-red-400 font-mono mb-4">{error}</div>}
+      {profiles.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Load a JSON or MIDNAM profile to name a device's controllers, parameters and programs on the cards and in the log.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+          <ul className="space-y-1">
+            {profiles.map(profile => (
+              <li key={profile.name} className="flex items-center justify-between gap-2 text-gray-300">
+                <span>
+                  <span className="font-semibold">{profile.name}</span>
+                  <span className="ml-2 text-gray-500">
+                    {profile.parameters.length} parameters, {profile.programs.length} programs
+                    {profile.deviceNames.length > 0 && ` · matches ${profile.deviceNames.map(name => `"${name}"`).join(', ')}`}
+                  </span>
+                </span>
+                <button onClick={() => removeProfile(profile.name)} className={buttonClass}>Remove</button>
+              </li>
+            ))}
+          </ul>
+          <div className="space-y-1">
+            {devices.map(device => {
+              const matched = findProfileByDeviceName(profiles, device.name);
+              return (
+                <label key={device.id} className="flex items-center justify-between gap-2 text-gray-400">
+                  {device.name}
+                  <select value={choiceValue(device.id)} onChange={(e) => setChoice(device.id, e.target.value)} className={selectClass}>
+                    <option value={AUTO}>Auto ({matched?.name ?? 'no match'})</option>
+                    <option value={NONE}>None</option>
+                    {profiles.map(profile => (
+                      <option key={profile.name} value={`${PROFILE_PREFIX}${profile.name}`}>{profile.name}</option>
+                    ))}
+                  </select>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default DeviceProfilePanel;
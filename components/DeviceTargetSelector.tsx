@@ -0,0 +1,43 @@
+import React from 'react';
+import type { DeviceSummary } from '../types';
+
+interface DeviceTargetSelectorProps {
+  devices: DeviceSummary[];
+  // Selected connection ids; empty means every connected device.
+  targets: number[];
+  onChange: (targets: number[]) => void;
+}
+
+const DeviceTargetSelector: React.FC<DeviceTargetSelectorProps> = ({ devices, targets, onChange }) => {
+  // Targets may name devices that have since been removed; those are ignored.
+  const selected = targets.filter(id => devices.some(device => device.id === id));
+
+  const toggleDevice = (id: number) => {
+    onChange(selected.includes(id) ? selected.filter(target => target !== id) : [...selected, id].sort((a, b) => a - b));
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-2 py-0.5 text-xs rounded ${active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1" role="group" aria-label="Send to devices">
+      <span className="text-xs text-gray-500 mr-1">Send to</span>
+      <button onClick={() => onChange([])} className={buttonClass(selected.length === 0)} aria-pressed={selected.length === 0}>
+        All
+      </button>
+      {devices.map(device => (
+        <button
+          key={device.id}
+          onClick={() => toggleDevice(device.id)}
+          className={buttonClass(selected.includes(device.id))}
+          aria-pressed={selected.includes(device.id)}
+          title={device.connected ? device.name : `${device.name} (not connected)`}
+        >
+          <span className={device.connected ? '' : 'opacity-50'}>{device.name}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default DeviceTargetSelector;
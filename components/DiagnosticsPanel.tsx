@@ -0,0 +1,362 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Card from './Card';
+import type { DeviceSummary, ParsedMidiMessage, TransportWrite } from '../types';
+import { downloadBlob } from '../utils/download';
+import {
+  buildHistogram,
+  computeLatencyStats,
+  createClockDriftEstimator,
+  createLatencyTest,
+  createThroughputTest,
+  type ClockDriftEstimate,
+  type LatencyResult,
+  type ProbeMode,
+  type ProbeSettings,
+  type ProbeTest,
+  type ThroughputStep,
+} from '../utils/diagnostics';
+
+interface DiagnosticsPanelProps {
+  devices: DeviceSummary[];
+  onSend: (message: Uint8Array, targets: number[]) => void;
+  // Delivers every batch of received messages.
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  // Delivers every completed transport write.
+  subscribeWrites: (listener: (write: TransportWrite) => void) => () => void;
+}
+
+type RunningTest = 'latency' | 'throughput' | null;
+
+const buttonClass = 'px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50';
+const inputClass = 'w-20 px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+const selectClass = 'px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+const labelClass = 'flex items-center gap-1 text-xs text-gray-400';
+
+const formatMs = (ms: number | null | undefined) => (ms === null || ms === undefined ? '—' : `${ms.toFixed(2)} ms`);
+
+/**
+ * Measures the link to a peripheral that echoes probes back: round-trip latency, the highest
+ * message rate without drops, and the drift of the peripheral's BLE-MIDI clock.
+ */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ devices, onSend, subscribe, subscribeWrites }) => {
+  const [deviceId, setDeviceId] = useState<number | null>(null);
+  const [probe, setProbe] = useState<ProbeSettings>({ mode: 'sysex', ccNumber: 119, channel: 16 });
+  const [probeCount, setProbeCount] = useState(100);
+  const [intervalMs, setIntervalMs] = useState(50);
+  const [timeoutMs, setTimeoutMs] = useState(1000);
+  const [startRate, setStartRate] = useState(20);
+  const [maxRate, setMaxRate] = useState(2000);
+  const [stepFactor, setStepFactor] = useState(1.5);
+  const [stepMs, setStepMs] = useState(2000);
+  const [lossThresholdPercent, setLossThresholdPercent] = useState(1);
+  const [running, setRunning] = useState<RunningTest>(null);
+  const [latency, setLatency] = useState<LatencyResult | null>(null);
+  const [throughput, setThroughput] = useState<ThroughputStep[]>([]);
+  const [drift, setDrift] = useState<ClockDriftEstimate | null>(null);
+
+  const testRef = useRef<ProbeTest | null>(null);
+  const onSendRef = useRef(onSend);
+  onSendRef.current = onSend;
+  const driftEstimator = useMemo(() => createClockDriftEstimator(), []);
+
+  // Fall back to the first device when none is chosen or the chosen one was removed.
+  const device = devices.find(candidate => candidate.id === deviceId) ?? devices[0];
+  const targetId = device?.id ?? null;
+  const isConnected = device?.connected ?? false;
+  const targetIdRef = useRef(targetId);
+  targetIdRef.current = targetId;
+
+  useEffect(() => subscribe(messages => {
+    messages
+      .filter(message => message.source === targetIdRef.current)
+      .forEach(message => {
+        testRef.current?.handleMessage(message);
+        if (message.bleTimestamp !== undefined) driftEstimator.add(message.bleTimestamp, message.receivedAt);
+      });
+  }), [subscribe, driftEstimator]);
+
+  useEffect(() => subscribeWrites(write => testRef.current?.handleWrite(write)), [subscribeWrites]);
+
+  // Poll the estimate instead of re-rendering on every received message.
+  useEffect(() => {
+    const timer = setInterval(() => setDrift(driftEstimator.estimate()), 500);
+    return () => clearInterval(timer);
+  }, [driftEstimator]);
+
+  const stopTest = () => {
+    testRef.current?.stop();
+    testRef.current = null;
+    setRunning(null);
+  };
+
+  useEffect(() => () => testRef.current?.stop(), []);
+
+  // A test without a link would only report losses.
+  useEffect(() => {
+    if (!isConnected) stopTest();
+  }, [isConnected]);
+
+  useEffect(() => {
+    driftEstimator.reset();
+    setDrift(driftEstimator.estimate());
+  }, [targetId, driftEstimator]);
+
+  const send = (message: Uint8Array) => {
+    if (targetIdRef.current !== null) onSendRef.current(message, [targetIdRef.current]);
+  };
+
+  const startLatencyTest = () => {
+    stopTest();
+    setLatency(null);
+    setRunning('latency');
+    testRef.current = createLatencyTest({
+      send,
+      probe,
+      count: probeCount,
+      intervalMs,
+      timeoutMs,
+      onUpdate: setLatency,
+      onComplete: (result) => {
+        setLatency(result);
+        testRef.current = null;
+        setRunning(null);
+      },
+    });
+  };
+
+  const startThroughputTest = () => {
+    stopTest();
+    setThroughput([]);
+    setRunning('throughput');
+    testRef.current = createThroughputTest({
+      send,
+      probe,
+      startRate,
+      maxRate,
+      stepFactor,
+      stepMs,
+      timeoutMs,
+      lossThreshold: lossThresholdPercent / 100,
+      onUpdate: setThroughput,
+      onComplete: (steps) => {
+        setThroughput(steps);
+        testRef.current = null;
+        setRunning(null);
+      },
+    });
+  };
+
+  const latencyStats = latency ? computeLatencyStats(latency.rtts) : null;
+  const histogram = latency ? buildHistogram(latency.rtts) : [];
+  const histogramMax = Math.max(1, ...histogram.map(bucket => bucket.count));
+  const lossThreshold = lossThresholdPercent / 100;
+  const sustainedRate = throughput
+    .filter(step => step.sent > 0 && step.loss <= lossThreshold)
+    .reduce<number | null>((best, step) => Math.max(best ?? 0, step.rate), null);
+
+  const downloadReport = () => {
+    const report = {
+      createdAt: new Date().toISOString(),
+      device: device?.name ?? null,
+      probe,
+      latency: latency && {
+        sent: latency.sent,
+        received: latency.rtts.length,
+        lost: latency.lost,
+        intervalMs,
+        stats: latencyStats,
+        histogram,
+        rtts: latency.rtts,
+      },
+      throughput: { lossThreshold, sustainedRate, steps: throughput },
+      clockDrift: drift,
+    };
+    downloadBlob(JSON.stringify(report, null, 2), 'ble-midi-diagnostics.json', 'application/json');
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, min: number, max: number, step = 1) => (
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      disabled={running !== null}
+      onChange={(e) => {
+        const next = parseFloat(e.target.value);
+        if (!isNaN(next)) onChange(Math.min(max, Math.max(min, next)));
+      }}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
+        <h2 className="text-xl font-bold text-gray-200">Link Diagnostics</h2>
+        <button onClick={downloadReport} className={buttonClass}>Download Report</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        {devices.length > 1 && (
+          <label className={labelClass}>
+            Device
+            <select
+              value={targetId ?? ''}
+              onChange={(e) => setDeviceId(parseInt(e.target.value, 10))}
+              disabled={running !== null}
+              className={selectClass}
+            >
+              {devices.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className={labelClass}>
+          Probe
+          <select
+            value={probe.mode}
+            onChange={(e) => setProbe({ ...probe, mode: e.target.value as ProbeMode })}
+            disabled={running !== null}
+            className={selectClass}
+          >
+            <option value="sysex">SysEx echo</option>
+            <option value="cc">Reserved CC</option>
+          </select>
+        </label>
+        {probe.mode === 'cc' && (
+          <>
+            <label className={labelClass}>
+              CC#
+              {numberInput(probe.ccNumber, ccNumber => setProbe({ ...probe, ccNumber }), 0, 127)}
+            </label>
+            <label className={labelClass}>
+              Ch
+              <select
+                value={probe.channel}
+                onChange={(e) => setProbe({ ...probe, channel: parseInt(e.target.value, 10) })}
+                disabled={running !== null}
+                className={selectClass}
+              >
+                {Array.from({ length: 16 }, (_, i) => i + 1).map(channel => (
+                  <option key={channel} value={channel}>{channel}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+        <label className={labelClass}>
+          Timeout (ms)
+          {numberInput(timeoutMs, setTimeoutMs, 50, 10000)}
+        </label>
+      </div>
+      {!isConnected && (
+        <p className="text-xs text-gray-500 mb-4">Connect a device that echoes probes back to run the tests.</p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <section>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">Round-trip Latency</h3>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <label className={labelClass}>Probes {numberInput(probeCount, setProbeCount, 1, 10000)}</label>
+            <label className={labelClass}>Every (ms) {numberInput(intervalMs, setIntervalMs, 1, 5000)}</label>
+            {running === 'latency' ? (
+              <button onClick={stopTest} className={buttonClass}>Stop</button>
+            ) : (
+              <button onClick={startLatencyTest} disabled={!isConnected || running !== null} className={buttonClass}>Run</button>
+            )}
+          </div>
+          {latency && (
+            <div className="text-xs text-gray-300 font-mono space-y-1">
+              <div>Sent {latency.sent} · Echoed {latency.rtts.length} · Lost {latency.lost}</div>
+              <div className="grid grid-cols-2 gap-x-4">
+                <span>min {formatMs(latencyStats?.min)}</span>
+                <span>avg {formatMs(latencyStats?.avg)}</span>
+                <span>p95 {formatMs(latencyStats?.p95)}</span>
+                <span>max {formatMs(latencyStats?.max)}</span>
+                <span>jitter σ {formatMs(latencyStats?.jitter)}</span>
+              </div>
+              <div className="pt-2 space-y-0.5" aria-label="Latency histogram">
+                {histogram.map(bucket => (
+                  <div key={bucket.from} className="flex items-center gap-2">
+                    <span className="w-28 text-gray-500">{bucket.from.toFixed(1)}–{bucket.to.toFixed(1)} ms</span>
+                    <div className="flex-1 h-2 bg-gray-700 rounded">
+                      <div className="h-2 bg-blue-500 rounded" style={{ width: `${(bucket.count / histogramMax) * 100}%` }} />
+                    </div>
+                    <span className="w-8 text-right">{bucket.count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">Throughput Ramp</h3>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <label className={labelClass}>From (msg/s) {numberInput(startRate, setStartRate, 1, 10000)}</label>
+            <label className={labelClass}>To (msg/s) {numberInput(maxRate, setMaxRate, 1, 10000)}</label>
+            <label className={labelClass}>Step × {numberInput(stepFactor, setStepFactor, 1.1, 4, 0.1)}</label>
+            <label className={labelClass}>Step (ms) {numberInput(stepMs, setStepMs, 250, 60000)}</label>
+            <label className={labelClass}>Max loss (%) {numberInput(lossThresholdPercent, setLossThresholdPercent, 0, 100, 0.1)}</label>
+            {running === 'throughput' ? (
+              <button onClick={stopTest} className={buttonClass}>Stop</button>
+            ) : (
+              <button onClick={startThroughputTest} disabled={!isConnected || running !== null} className={buttonClass}>Run</button>
+            )}
+          </div>
+          {throughput.length > 0 && (
+            <div className="text-xs text-gray-300 font-mono">
+              <table className="w-full">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left font-normal">msg/s</th>
+                    <th className="text-right font-normal">sent</th>
+                    <th className="text-right font-normal">echoed</th>
+                    <th className="text-right font-normal">loss</th>
+                    <th className="text-right font-normal">avg RTT</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {throughput.map(step => (
+                    <tr key={step.rate} className={step.loss > lossThreshold ? 'text-red-400' : ''}>
+                      <td>{step.rate}</td>
+                      <td className="text-right">{step.sent}</td>
+                      <td className="text-right">{step.received}</td>
+                      <td className="text-right">{(step.loss * 100).toFixed(1)}%</td>
+                      <td className="text-right">{formatMs(step.avgRtt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {running === null && (
+                <div className="mt-2">Highest rate without drops: {sustainedRate === null ? '—' : `${sustainedRate} msg/s`}</div>
+              )}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-300">Peripheral Clock Drift</h3>
+            <button onClick={() => { driftEstimator.reset(); setDrift(driftEstimator.estimate()); }} className={buttonClass}>Reset</button>
+          </div>
+          <div className="text-xs text-gray-300 font-mono space-y-1">
+            <div>Timestamps {drift?.samples ?? 0} over {((drift?.spanMs ?? 0) / 1000).toFixed(1)} s</div>
+            <div>
+              Drift {drift?.driftPpm === null || drift?.driftPpm === undefined
+                ? '— (needs 10 timestamps over at least 1 s)'
+                : `${drift.driftPpm.toFixed(1)} ppm (${((drift.driftPpm * 60) / 1000).toFixed(2)} ms/min)`}
+            </div>
+            <p className="text-gray-500 font-sans">
+              Fitted from the 13-bit BLE-MIDI timestamps of everything the device sends. Only Bluetooth links carry them.
+            </p>
+          </div>
+        </section>
+      </div>
+    </Card>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -1,10 +1,26 @@
-import React, { useState, useCallback } from 'react';
-import Card from './Card';
-import XIcon from './icons/XIcon';
+import React, { useCallback, useRef } from 'react';
+import SenderCard from './SenderCard';
+import ChannelSelector from './ChannelSelector';
+import SendModeControls from './SendModeControls';
+import AutomationControls from './AutomationControls';
+import MidiLearnControls from './MidiLearnControls';
+import ParameterPicker from './ParameterPicker';
+import { useStreamingSend } from '../hooks/useStreamingSend';
+import { useLiveValue } from '../hooks/useLiveValue';
+import { controlChange14bit } from '../utils/midiBuilder';
+import { getValueName, getValueRange } from '../utils/deviceProfiles';
+import type { DeviceProfile, DeviceSummary, HighResCCParams, ParsedMidiMessage, ProfileParameter } from '../types';
 
 interface HighResCCSenderProps {
   id: number;
+  params: HighResCCParams;
+  onParamsChange: (changes: Partial<HighResCCParams>) => void;
   onSend: (message: Uint8Array) => void;
+  // Received messages, for MIDI Learn
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  // Profiles of the target devices, for the parameter picker
+  profiles: DeviceProfile[];
+  devices: DeviceSummary[];
   disabled: boolean;
   onRemove: (id: number) => void;
   isDragging: boolean;
@@ -15,7 +31,12 @@ interface HighResCCSenderProps {
 
 const HighResCCSender: React.FC<HighResCCSenderProps> = ({ 
   id, 
+  params,
+  onParamsChange,
   onSend, 
+  subscribe,
+  profiles,
+  devices,
   disabled, 
   onRemove,
   isDragging, 
@@ -23,112 +44,153 @@ const HighResCCSender: React.FC<HighResCCSenderProps> = ({
   onDrop, 
   onDragEnd 
 }) => {
-  const [msbCc, setMsbCc] = useState<number>(7); // Volume MSB
-  const [value14bit, setValue14bit] = useState<number>(12874); // ~100 * 128
-  const [description, setDescription] = useState<string>('');
-  const [isDragOver, setIsDragOver] = useState(false);
+  const { channels, msbCc, value14bit: storedValue, sendMode, maxRate, automation, learn, profileParameter, description } = params;
+  const live = useLiveValue(storedValue, value => onParamsChange({ value14bit: value }));
+  const value14bit = live.value;
+  const range = getValueRange(profileParameter, 14);
+  const valueName = getValueName(profileParameter, value14bit, 14);
 
-  const handleSend = useCallback(() => {
+  const sendValue = useCallback((value: number) => {
     if (disabled) return;
-    const lsbCc = msbCc + 32;
-    const msbValue = Math.floor(value14bit / 128);
-    const lsbValue = value14bit % 128;
+    // Each channel gets its MSB and LSB back to back, so the pair stays adjacent in the packet.
+    channels.forEach(channel => controlChange14bit(channel, msbCc, value).forEach(message => onSend(message)));
+  }, [channels, msbCc, onSend, disabled]);
 
-    // MIDI CC on channel 1 is 0xB0
-    const msbMessage = new Uint8Array([0xB0, msbCc, msbValue]);
-    const lsbMessage = new Uint8Array([0xB0, lsbCc, lsbValue]);
-    
-    onSend(msbMessage);
-    onSend(lsbMessage);
-  }, [msbCc, value14bit, onSend, disabled]);
+  const stream = useStreamingSend(sendValue, sendMode, maxRate);
+
+  // Automation moves the slider and sends directly; its tick rate already follows maxRate.
+  const lastAutomatedValueRef = useRef<number | null>(null);
+  const handleAutomationValue = useCallback((normalized: number) => {
+    const value = Math.round(range.min + normalized * (range.max - range.min));
+    live.set(value);
+    if (value !== lastAutomatedValueRef.current) {
+      lastAutomatedValueRef.current = value;
+      sendValue(value);
+    }
+  }, [sendValue, live.set, range.min, range.max]);
+
+  // A learned control moves the slider; its values are sent at most maxRate times per second.
+  const handleLearnValue = (normalized: number) => {
+    const value = Math.round(range.min + normalized * (range.max - range.min));
+    live.set(value);
+    stream.schedule(value);
+  };
+
+  const pickParameter = (parameter: ProfileParameter) => {
+    const { min, max } = getValueRange(parameter, 14);
+    const clamped = Math.min(max, Math.max(min, value14bit));
+    live.cancel();
+    onParamsChange({
+      msbCc: parameter.number,
+      description: parameter.name,
+      profileParameter: parameter,
+      value14bit: clamped,
+    });
+    stream.onSet(clamped);
+  };
 
   const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setValue14bit(parseInt(e.target.value, 10));
+    const value = parseInt(e.target.value, 10);
+    live.cancel();
+    onParamsChange({ value14bit: value });
+    stream.onChange(value);
   };
   
   return (
-    <div
-      draggable={!disabled}
-      onDragStart={(e) => onDragStart(e, id)}
-      onDrop={(e) => {
-        onDrop(e, id);
-        setIsDragOver(false);
-      }}
-      onDragOver={(e) => {
-        e.preventDefault();
-        setIsDragOver(true);
-      }}
-      onDragEnter={(e) => {
-        e.preventDefault();
-        setIsDragOver(true);
-      }}
-      onDragLeave={() => setIsDragOver(false)}
+    <SenderCard
+      id={id}
+      title="High-Res CC (14-bit)"
+      description={description}
+      onDescriptionChange={(description) => onParamsChange({ description })}
+      descriptionPlaceholder="Add a description (e.g., Expression)"
+      devices={devices}
+      targets={params.targets}
+      onTargetsChange={(targets) => onParamsChange({ targets })}
+      disabled={disabled}
+      onRemove={onRemove}
+      isDragging={isDragging}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
       onDragEnd={onDragEnd}
-      className={`h-full transition-all duration-200 cursor-grab ${isDragging ? 'opacity-30' : 'opacity-100'} ${isDragOver ? 'ring-2 ring-blue-500 rounded-lg' : ''}`}
     >
-      <Card className={`h-full ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
-        <div className="flex justify-between items-start mb-4 border-b border-gray-700 pb-2">
-          <div>
-            <h2 className="text-xl font-bold text-gray-200">High-Res CC (14-bit)</h2>
-            <input
-              type="text"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Add a description (e.g., Expression)"
-              className="w-full mt-1 text-xs px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-gray-300 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-              disabled={disabled}
-              aria-label="Sender description"
-            />
-          </div>
-          <button
-            onClick={() => onRemove(id)}
-            className="text-gray-500 hover:text-red-400 transition-colors ml-2"
-            aria-label="Remove High-Res CC Sender"
-            title="Remove Sender"
-          >
-            <XIcon className="w-5 h-5" />
-          </button>
+      <div className="space-y-4">
+        <ChannelSelector id={id} channels={channels} onChange={(channels) => onParamsChange({ channels })} disabled={disabled} />
+        <ParameterPicker
+          id={id}
+          profiles={profiles}
+          kinds={['cc']}
+          // Only controllers 0-31 have an LSB partner
+          accept={(parameter: ProfileParameter) => parameter.number < 32}
+          selected={profileParameter}
+          onPick={pickParameter}
+          disabled={disabled}
+        />
+        <div>
+          <label htmlFor={`msb-cc-${id}`} className="block text-sm font-medium text-gray-300">
+            MSB CC (0-31) / LSB CC ({msbCc+32})
+          </label>
+          <input
+            type="number"
+            id={`msb-cc-${id}`}
+            min="0"
+            max="31"
+            value={msbCc}
+            onChange={(e) => onParamsChange({ msbCc: parseInt(e.target.value, 10), profileParameter: null })}
+            className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor={`14bit-value-${id}`} className="block text-sm font-medium text-gray-300">
+            Value ({range.min}-{range.max}): <span className="font-mono text-blue-400">{value14bit}</span>
+            {valueName && <span className="ml-2 text-gray-400">{valueName}</span>}
+          </label>
+         <input
+            type="range"
+            id={`14bit-value-${id}`}
+            min={range.min}
+            max={range.max}
+            value={value14bit}
+            onChange={handleValueChange}
+            onPointerDown={stream.onPointerDown}
+            onMouseUp={() => stream.commit(value14bit)}
+            onTouchEnd={() => stream.commit(value14bit)}
+            onKeyUp={(e) => stream.onKeyUp(e.key, value14bit)}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            disabled={disabled}
+          />
         </div>
-        <div className="space-y-4">
-          <div>
-            <label htmlFor={`msb-cc-${id}`} className="block text-sm font-medium text-gray-300">
-              MSB CC (0-31) / LSB CC ({msbCc+32})
-            </label>
-            <input
-              type="number"
-              id={`msb-cc-${id}`}
-              min="0"
-              max="31"
-              value={msbCc}
-              onChange={(e) => setMsbCc(parseInt(e.target.value, 10))}
-              className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              disabled={disabled}
-            />
-          </div>
-          <div>
-            <label htmlFor={`14bit-value-${id}`} className="block text-sm font-medium text-gray-300">
-              Value (0-16383): <span className="font-mono text-blue-400">{value14bit}</span>
-            </label>
-           <input
-              type="range"
-              id={`14bit-value-${id}`}
-              min="0"
-              max="16383"
-              value={value14bit}
-              onChange={handleValueChange}
-              onMouseUp={handleSend}
-              onTouchEnd={handleSend}
-              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
-              disabled={disabled}
-            />
-          </div>
-          <div className="text-xs text-gray-400 font-mono p-3 bg-gray-900 rounded-md">
-              <div>MSB Value: {Math.floor(value14bit / 128)}</div>
-              <div>LSB Value: {value14bit % 128}</div>
-          </div>
+        <SendModeControls
+          id={id}
+          mode={sendMode}
+          onModeChange={(sendMode) => onParamsChange({ sendMode })}
+          maxRate={maxRate}
+          onMaxRateChange={(maxRate) => onParamsChange({ maxRate })}
+          disabled={disabled}
+        />
+        <AutomationControls
+          id={id}
+          config={automation}
+          onConfigChange={(automation) => onParamsChange({ automation })}
+          updateRate={maxRate}
+          onValue={handleAutomationValue}
+          disabled={disabled}
+        />
+        <MidiLearnControls
+          id={id}
+          binding={learn}
+          onBindingChange={(learn) => onParamsChange({ learn })}
+          subscribe={subscribe}
+          highRes
+          onValue={handleLearnValue}
+          disabled={disabled}
+        />
+        <div className="text-xs text-gray-400 font-mono p-3 bg-gray-900 rounded-md">
+            <div>MSB Value: {Math.floor(value14bit / 128)}</div>
+            <div>LSB Value: {value14bit % 128}</div>
         </div>
-      </Card>
-    </div>
+      </div>
+    </SenderCard>
   );
 };
 
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { MidiLearnBinding, MidiLearnCurve, MidiLearnUpscaling, ParsedMidiMessage } from '../types';
+import {
+  MIDI_LEARN_CURVE_LABELS,
+  applyLearnTransform,
+  createLearnInputReader,
+  describeLearnSource,
+  getLearnSource,
+} from '../utils/midiLearn';
+
+interface MidiLearnControlsProps {
+  id: number;
+  binding: MidiLearnBinding;
+  onBindingChange: (binding: MidiLearnBinding) => void;
+  // Delivers every batch of received messages.
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  // 14-bit cards offer the 7-bit up-scaling options.
+  highRes: boolean;
+  // Receives the transformed value as a fraction of the card's full range, 0-1.
+  onValue: (normalized: number) => void;
+  disabled: boolean;
+}
+
+const UPSCALING_LABELS: Record<MidiLearnUpscaling, string> = {
+  'stretch': 'Stretch to 14-bit',
+  'msb': 'MSB only',
+  'lsb-pair': 'Pair with LSB (CC +32)',
+};
+
+const inputClassName = "mt-1 block w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+const PercentSlider: React.FC<{ id: string; label: string; value: number; onChange: (value: number) => void; disabled: boolean }> = ({ id, label, value, onChange, disabled }) => (
+  <label htmlFor={id}>
+    {label}: <span className="font-mono text-blue-400">{Math.round(value * 100)}%</span>
+    <input
+      type="range"
+      id={id}
+      min="0"
+      max="100"
+      value={Math.round(value * 100)}
+      onChange={(e) => onChange(parseInt(e.target.value, 10) / 100)}
+      className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+      disabled={disabled}
+    />
+  </label>
+);
+
+/**
+ * Binds a card to an incoming CC, note or pitch bend: arm it, move a hardware control, and
+ * from then on that control drives the card's value through the configured transform.
+ */
+const MidiLearnControls: React.FC<MidiLearnControlsProps> = ({ id, binding, onBindingChange, subscribe, highRes, onValue, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isArmed, setIsArmed] = useState(false);
+
+  // The subscription outlives renders and reads the latest props through refs.
+  const latestRef = useRef({ binding, onBindingChange, highRes, onValue, isArmed });
+  latestRef.current = { binding, onBindingChange, highRes, onValue, isArmed };
+
+  const readInput = useMemo(() => createLearnInputReader(), []);
+
+  useEffect(() => subscribe(messages => {
+    messages.forEach(message => {
+      const { binding, onBindingChange, highRes, onValue, isArmed } = latestRef.current;
+      if (isArmed) {
+        const source = getLearnSource(message);
+        if (!source) return;
+        latestRef.current.isArmed = false;
+        setIsArmed(false);
+        onBindingChange({ ...binding, source });
+        return;
+      }
+      const input = readInput(binding, message, highRes);
+      if (input !== null) onValue(applyLearnTransform(binding, input));
+    });
+  }), [subscribe, readInput]);
+
+  const update = (changes: Partial<MidiLearnBinding>) => onBindingChange({ ...binding, ...changes });
+  const canPairLsb = binding.source?.kind === 'cc' && binding.source.number < 32;
+
+  return (
+    <div className="border-t border-gray-700 pt-2">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-xs font-medium text-gray-400 hover:text-gray-200 text-left"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? '▾' : '▸'} MIDI Learn{' '}
+          {isArmed
+            ? <span className="text-yellow-400">● Move a control…</span>
+            : binding.source && <span className="text-green-400">● {describeLearnSource(binding.source)}</span>}
+        </button>
+        <div className="flex gap-1">
+          {binding.source && !isArmed && (
+            <button
+              onClick={() => update({ source: null })}
+              className="px-2 py-0.5 text-xs font-semibold rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+              disabled={disabled}
+            >
+              Clear
+            </button>
+          )}
+          <button
+            onClick={() => setIsArmed(!isArmed)}
+            className={`px-2 py-0.5 text-xs font-semibold rounded-md transition-colors ${isArmed ? 'bg-yellow-600 hover:bg-yellow-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+            disabled={disabled}
+          >
+            {isArmed ? 'Cancel' : 'Learn'}
+          </button>
+        </div>
+      </div>
+      {isOpen && (
+        <div className="mt-2 grid grid-cols-2 gap-2 text-xs text-gray-400">
+          <PercentSlider id={`learn-input-min-${id}`} label="Input min" value={binding.inputMin} onChange={(inputMin) => update({ inputMin })} disabled={disabled} />
+          <PercentSlider id={`learn-input-max-${id}`} label="Input max" value={binding.inputMax} onChange={(inputMax) => update({ inputMax })} disabled={disabled} />
+          <PercentSlider id={`learn-output-min-${id}`} label="Output min" value={binding.outputMin} onChange={(outputMin) => update({ outputMin })} disabled={disabled} />
+          <PercentSlider id={`learn-output-max-${id}`} label="Output max" value={binding.outputMax} onChange={(outputMax) => update({ outputMax })} disabled={disabled} />
+          <label>
+            Curve
+            <select
+              value={binding.curve}
+              onChange={(e) => update({ curve: e.target.value as MidiLearnCurve })}
+              className={inputClassName}
+              disabled={disabled}
+            >
+              {(Object.keys(MIDI_LEARN_CURVE_LABELS) as MidiLearnCurve[]).map(curve => (
+                <option key={curve} value={curve}>{MIDI_LEARN_CURVE_LABELS[curve]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-end gap-2 pb-1">
+            <input
+              type="checkbox"
+              checked={binding.invert}
+              onChange={(e) => update({ invert: e.target.checked })}
+              disabled={disabled}
+            />
+            Invert
+          </label>
+          {highRes && binding.source?.kind !== 'pitch-bend' && (
+            <label className="col-span-2">
+              7-bit input
+              <select
+                value={binding.upscaling}
+                onChange={(e) => update({ upscaling: e.target.value as MidiLearnUpscaling })}
+                className={inputClassName}
+                disabled={disabled}
+              >
+                {(Object.keys(UPSCALING_LABELS) as MidiLearnUpscaling[])
+                  .filter(upscaling => upscaling !== 'lsb-pair' || canPairLsb || binding.upscaling === 'lsb-pair')
+                  .map(upscaling => (
+                    <option key={upscaling} value={upscaling}>{UPSCALING_LABELS[upscaling]}</option>
+                  ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiLearnControls;
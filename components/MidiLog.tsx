@@ -1,45 +1,365 @@
-import React, { useRef, useEffect } from 'react';
-import type { ParsedMidiMessage } from '../types';
+import React, { useRef, useEffect, useLayoutEffect, useMemo, useState } from 'react';
+import type { DeviceSummary, MidiDirection, MidiMessageType, ParameterNumberMessage, ParsedMidiMessage } from '../types';
 import Card from './Card';
+import { downloadBlob } from '../utils/download';
+import { formatHex } from '../utils/sysex';
+import { findParameterNumberPreset, formatParameterNumber } from '../utils/parameterNumbers';
+import {
+  EMPTY_LOG_FILTER,
+  MESSAGE_TYPES,
+  exportLogCsv,
+  exportLogJson,
+  exportLogSmf,
+  formatLogTime,
+  formatWireBytes,
+  getDirection,
+  matchesLogFilter,
+  type MidiLogFilter,
+} from '../utils/midiLog';
 
 interface MidiLogProps {
   messages: ParsedMidiMessage[];
   onClear: () => void;
+  // Ring buffer size: the oldest messages are dropped beyond this count
+  bufferSize: number;
+  onBufferSizeChange: (size: number) => void;
+  // Used to label each message with its source (or target) when more than one device is configured
+  devices: DeviceSummary[];
 }
 
-const MidiLog: React.FC<MidiLogProps> = ({ messages, onClear }) => {
-  const logEndRef = useRef<HTMLDivElement>(null);
+const Field: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <span className="mr-3">
+    <span className="text-gray-500">{label}: </span>
+    <span className="text-blue-300">{value}</span>
+  </span>
+);
 
+const SysExDetails: React.FC<{ msg: ParsedMidiMessage; manufacturerId: number[] }> = ({ msg, manufacturerId }) => (
+  <>
+    <Field label="Length" value={msg.bytes.length} />
+    <Field label="Mfr" value={formatHex(manufacturerId) || 'none'} />
+    <button
+      onClick={() => downloadBlob(new Uint8Array(msg.bytes), `sysex-${Math.floor(msg.id)}.syx`)}
+      className="px-2 py-0.5 text-xs text-gray-300 bg-gray-700 rounded hover:bg-gray-600 transition-colors"
+    >
+      Download .syx
+    </button>
+    <button
+      onClick={() => navigator.clipboard.writeText(formatHex(msg.bytes))}
+      className="ml-2 px-2 py-0.5 text-xs text-gray-300 bg-gray-700 rounded hover:bg-gray-600 transition-colors"
+    >
+      Copy hex
+    </button>
+  </>
+);
+
+const ParameterNumberFields: React.FC<{ msg: ParameterNumberMessage }> = ({ msg }) => {
+  if (msg.action === 'null') return <><Field label="Ch" value={msg.channel} /><span className="text-blue-300">RPN Null</span></>;
+  const preset = findParameterNumberPreset(msg.kind, msg.parameter);
+  return (
+    <>
+      <Field label="Ch" value={msg.channel} />
+      <Field label={msg.kind} value={`${formatParameterNumber(msg.parameter)}${preset ? ` ${preset.name}` : ''}`} />
+      {msg.action === 'set' ? (
+        <Field label="Val" value={`${msg.value}${preset ? ` (${preset.formatValue(msg.value)})` : ''}${msg.msbOnly ? ' MSB only' : ''}`} />
+      ) : (
+        <span className="text-blue-300">{msg.action === 'increment' ? 'Increment' : 'Decrement'}</span>
+      )}
+    </>
+  );
+};
+
+// Profile-named messages show the name instead of the raw numbers, which stay in the tooltip.
+const LabelFields: React.FC<{ msg: ParsedMidiMessage; label: string }> = ({ msg, label }) => (
+  <>
+    {'channel' in msg && <Field label="Ch" value={msg.channel} />}
+    <span className="text-blue-300" title={msg.description}>{label}</span>
+  </>
+);
+
+const renderFields = (msg: ParsedMidiMessage) => {
+  if (msg.label) return <LabelFields msg={msg} label={msg.label} />;
+  switch (msg.type) {
+    case 'Note On':
+    case 'Note Off':
+      return <><Field label="Ch" value={msg.channel} /><Field label="Note" value={msg.note} /><Field label="Vel" value={msg.velocity} /></>;
+    case 'Poly Aftertouch':
+      return <><Field label="Ch" value={msg.channel} /><Field label="Note" value={msg.note} /><Field label="Pressure" value={msg.pressure} /></>;
+    case 'Control Change':
+      return <><Field label="Ch" value={msg.channel} /><Field label="CC#" value={msg.controller} /><Field label="Val" value={msg.value} /></>;
+    case 'Parameter Number':
+      return <ParameterNumberFields msg={msg} />;
+    case 'Program Change':
+      return <><Field label="Ch" value={msg.channel} /><Field label="Program" value={msg.program} /></>;
+    case 'Channel Aftertouch':
+      return <><Field label="Ch" value={msg.channel} /><Field label="Pressure" value={msg.pressure} /></>;
+    case 'Pitch Bend':
+      return <><Field label="Ch" value={msg.channel} /><Field label="Bend" value={`${msg.value > 0 ? '+' : ''}${msg.value}`} /></>;
+    case 'MTC Quarter Frame':
+      return <><Field label="Piece" value={msg.piece} /><Field label="Value" value={msg.value} /></>;
+    case 'Song Position':
+      return <Field label="Beats" value={msg.position} />;
+    case 'Song Select':
+      return <Field label="Song" value={msg.song} />;
+    case 'System Real-Time':
+      return <span className="text-blue-300">{msg.name}</span>;
+    case 'System Exclusive':
+      return <SysExDetails msg={msg} manufacturerId={msg.manufacturerId} />;
+    case 'Tune Request':
+      return null;
+    default:
+      return <Field label="Bytes" value={formatHex(msg.bytes)} />;
+  }
+};
+
+const DirectionMarker: React.FC<{ msg: ParsedMidiMessage }> = ({ msg }) => (
+  getDirection(msg) === 'out'
+    ? <span className="text-orange-400 mr-2" title="Sent">→ OUT</span>
+    : <span className="text-cyan-400 mr-2" title="Received">← IN&nbsp;</span>
+);
+
+// Who sent the message and whether the transport managed to write it.
+const SentDetails: React.FC<{ msg: ParsedMidiMessage }> = ({ msg }) => (
+  <>
+    {msg.origin && <span className="text-gray-400 mr-2">{msg.origin}</span>}
+    {msg.writeError
+      ? <span className="text-red-400 mr-2">✗ {msg.writeError}</span>
+      : <span className="text-green-500 mr-2" title="Written">✓</span>}
+  </>
+);
+
+const BUFFER_SIZES = [100, 500, 1000, 5000, 10000];
+
+// Every row is one line of this height, so only the rows in view need rendering.
+const ROW_HEIGHT = 20;
+// Rows rendered above and below the visible ones, so fast scrolling shows no gaps.
+const OVERSCAN_ROWS = 10;
+
+const buttonClass = 'px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors';
+const inputClass = 'px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+const MidiLog: React.FC<MidiLogProps> = ({ messages, onClear, bufferSize, onBufferSizeChange, devices }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [filter, setFilter] = useState<MidiLogFilter>(EMPTY_LOG_FILTER);
+  // Snapshot shown while paused; incoming messages keep being buffered in `messages`.
+  const [frozenMessages, setFrozenMessages] = useState<ParsedMidiMessage[] | null>(null);
+  const [showPackets, setShowPackets] = useState(false);
+  // Hex bytes in a column of their own, next to the decoded message
+  const [showHexColumn, setShowHexColumn] = useState(false);
+
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  // New messages are followed only while the list is scrolled to the bottom.
+  const pinnedRef = useRef(true);
+
+  // Batches of messages arriving within one animation frame are rendered together.
+  const [liveMessages, setLiveMessages] = useState(messages);
+  const latestMessagesRef = useRef(messages);
+  latestMessagesRef.current = messages;
+  const frameRef = useRef(0);
   useEffect(() => {
-    logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    if (frameRef.current) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = 0;
+      setLiveMessages(latestMessagesRef.current);
+    });
   }, [messages]);
+  useEffect(() => () => cancelAnimationFrame(frameRef.current), []);
+
+  const isPaused = frozenMessages !== null;
+  const shownMessages = useMemo(
+    () => (frozenMessages ?? liveMessages).filter((message: ParsedMidiMessage) => matchesLogFilter(message, filter)),
+    [frozenMessages, liveMessages, filter],
+  );
+
+  const newSincePause = useMemo(() => {
+    if (!frozenMessages) return 0;
+    const lastFrozen = frozenMessages[frozenMessages.length - 1];
+    if (!lastFrozen) return liveMessages.length;
+    const index = liveMessages.findIndex((message: ParsedMidiMessage) => message.id === lastFrozen.id);
+    // The last frozen message may already have dropped out of the ring buffer.
+    return index === -1 ? liveMessages.length : liveMessages.length - index - 1;
+  }, [frozenMessages, liveMessages]);
+
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    setViewportHeight(list.clientHeight);
+    if (pinnedRef.current) list.scrollTop = list.scrollHeight;
+  }, [shownMessages]);
+
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (!list) return;
+    pinnedRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < ROW_HEIGHT;
+    setScrollTop(list.scrollTop);
+    setViewportHeight(list.clientHeight);
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(shownMessages.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  const showSource = devices.length > 1;
+  const sourceName = (source?: number) => devices.find(device => device.id === source)?.name ?? `Device ${source}`;
+  const wireHex = (msg: ParsedMidiMessage) => (showPackets ? formatWireBytes(msg) : formatHex(msg.bytes));
+
+  const updateFilter = (changes: Partial<MidiLogFilter>) => setFilter((prev: MidiLogFilter) => ({ ...prev, ...changes }));
+
+  const toggleType = (type: MidiMessageType) => {
+    updateFilter({ types: filter.types.includes(type) ? filter.types.filter(t => t !== type) : [...filter.types, type] });
+  };
+
+  const parseOptionalNumber = (value: string) => (value === '' ? null : parseInt(value, 10));
+
+  const handleClear = () => {
+    onClear();
+    if (isPaused) setFrozenMessages([]);
+  };
+
+  const handleExport = (format: 'csv' | 'json' | 'mid') => {
+    const name = `midi-log-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    if (format === 'csv') downloadBlob(exportLogCsv(shownMessages), `${name}.csv`, 'text/csv');
+    if (format === 'json') downloadBlob(exportLogJson(shownMessages), `${name}.json`, 'application/json');
+    // A .mid file holds one stream: the received messages, unless the log shows sent messages only.
+    if (format === 'mid') downloadBlob(exportLogSmf(shownMessages, filter.direction ?? 'in'), `${name}.mid`, 'audio/midi');
+  };
 
   return (
     <Card className="flex flex-col h-full">
-        <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
-            <h2 className="text-xl font-bold text-gray-200">Received MIDI Messages</h2>
-            <button
-                onClick={onClear}
-                className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
-                aria-label="Clear MIDI message log"
-            >
-                Clear Log
-            </button>
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4 border-b border-gray-700 pb-2">
+            <h2 className="text-xl font-bold text-gray-200">MIDI Traffic</h2>
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-xs text-gray-400 flex items-center gap-1">
+                    Keep
+                    <select
+                        value={bufferSize}
+                        onChange={(e) => onBufferSizeChange(parseInt(e.target.value, 10))}
+                        className={inputClass}
+                        aria-label="Log buffer size"
+                    >
+                        {BUFFER_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                    </select>
+                </label>
+                <button
+                    onClick={() => setFrozenMessages(isPaused ? null : liveMessages)}
+                    className={buttonClass}
+                    aria-label={isPaused ? 'Resume MIDI message log' : 'Pause MIDI message log'}
+                >
+                    {isPaused ? `Resume (${newSincePause} new)` : 'Pause'}
+                </button>
+                <button onClick={() => handleExport('csv')} className={buttonClass}>CSV</button>
+                <button onClick={() => handleExport('json')} className={buttonClass}>JSON</button>
+                <button onClick={() => handleExport('mid')} className={buttonClass} title={`${filter.direction === 'out' ? 'Sent' : 'Received'} channel and SysEx messages as a Standard MIDI File`}>
+                    .mid
+                </button>
+                <button
+                    onClick={handleClear}
+                    className={buttonClass}
+                    aria-label="Clear MIDI message log"
+                >
+                    Clear Log
+                </button>
+            </div>
+        </div>
+        <div className="mb-2 space-y-2">
+            <div className="flex flex-wrap gap-1">
+                {MESSAGE_TYPES.map(type => (
+                    <button
+                        key={type}
+                        onClick={() => toggleType(type)}
+                        className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${filter.types.includes(type) ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+                    >
+                        {type}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={filter.direction ?? ''}
+                    onChange={(e) => updateFilter({ direction: (e.target.value || null) as MidiDirection | null })}
+                    className={inputClass}
+                    aria-label="Filter by direction"
+                >
+                    <option value="">Sent and received</option>
+                    <option value="in">Received</option>
+                    <option value="out">Sent</option>
+                </select>
+                <select
+                    value={filter.channel ?? ''}
+                    onChange={(e) => updateFilter({ channel: parseOptionalNumber(e.target.value) })}
+                    className={inputClass}
+                    aria-label="Filter by channel"
+                >
+                    <option value="">All channels</option>
+                    {Array.from({ length: 16 }, (_, i) => i + 1).map(channel => (
+                        <option key={channel} value={channel}>Ch {channel}</option>
+                    ))}
+                </select>
+                <input
+                    type="number"
+                    min="0"
+                    max="127"
+                    value={filter.number ?? ''}
+                    onChange={(e) => updateFilter({ number: parseOptionalNumber(e.target.value) })}
+                    placeholder="CC / Note #"
+                    className={`${inputClass} w-28`}
+                    aria-label="Filter by CC or note number"
+                />
+                <input
+                    type="search"
+                    value={filter.search}
+                    onChange={(e) => updateFilter({ search: e.target.value })}
+                    placeholder="Search descriptions, names and senders"
+                    className={`${inputClass} flex-grow`}
+                    aria-label="Search MIDI log"
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-400">
+                    <input type="checkbox" checked={showPackets} onChange={(e) => setShowPackets(e.target.checked)} />
+                    Raw packets
+                </label>
+                <label className="flex items-center gap-1 text-xs text-gray-400">
+                    <input type="checkbox" checked={showHexColumn} onChange={(e) => setShowHexColumn(e.target.checked)} />
+                    Hex column
+                </label>
+                <button onClick={() => setFilter(EMPTY_LOG_FILTER)} className={buttonClass}>Reset Filters</button>
+            </div>
+            <div className="text-xs text-gray-500">
+                Showing {shownMessages.length} of {(frozenMessages ?? liveMessages).length} buffered messages{isPaused ? ' (paused)' : ''}
+            </div>
         </div>
-        <div className="flex-grow h-96 bg-gray-900 rounded-md p-2 overflow-y-auto font-mono text-xs">
-            {messages.length === 0 ? (
+        <div ref={listRef} onScroll={handleScroll} className="flex-grow h-96 bg-gray-900 rounded-md p-2 overflow-y-auto font-mono text-xs">
+            {shownMessages.length === 0 ? (
                 <div className="flex items-center justify-center h-full text-gray-500">
-                    Waiting for messages...
+                    {liveMessages.length === 0 ? 'Waiting for messages...' : 'No messages match the current filters.'}
                 </div>
             ) : (
-                messages.map((msg) => (
-                    <div key={msg.id} className="text-gray-300 mb-1">
-                        <span className="text-gray-500">{msg.timestamp} | </span>
-                        <span className="text-green-400">{msg.description}</span>
+                <div style={{ height: shownMessages.length * ROW_HEIGHT, paddingTop: firstRow * ROW_HEIGHT }}>
+                {shownMessages.slice(firstRow, lastRow).map((msg) => (
+                    <div
+                        key={msg.id}
+                        style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+                        className={`text-gray-300 whitespace-nowrap overflow-hidden text-ellipsis ${showHexColumn ? 'flex gap-3' : ''}`}
+                    >
+                        {showHexColumn && (
+                            <span className="text-gray-400 w-64 flex-shrink-0 truncate" title={wireHex(msg)}>{wireHex(msg)}</span>
+                        )}
+                        <span className={showHexColumn ? 'flex-1 min-w-0 truncate' : ''}>
+                            <span className="text-gray-500" title={`performance.now(): ${msg.receivedAt.toFixed(3)} ms`}>{formatLogTime(msg.receivedAt)} | </span>
+                            <DirectionMarker msg={msg} />
+                            {showSource && msg.source !== undefined && (
+                                <span className="text-yellow-300 mr-2">[{sourceName(msg.source)}]</span>
+                            )}
+                            {getDirection(msg) === 'out' && <SentDetails msg={msg} />}
+                            <span className="text-green-400 inline-block w-36">{msg.type}</span>
+                            {renderFields(msg)}
+                            {showPackets && !showHexColumn && (
+                                <span className="text-gray-500">[{formatWireBytes(msg)}]</span>
+                            )}
+                        </span>
                     </div>
-                ))
+                ))}
+                </div>
             )}
-            <div ref={logEndRef} />
         </div>
     </Card>
   );
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Card from './Card';
+import { createMpeTracker, type MpeNoteTrace, type MpeTracePoint, type MpeTrackerSnapshot } from '../utils/mpe';
+import { noteName } from '../utils/notes';
+import type { ParsedMidiMessage } from '../types';
+
+interface MpeMonitorProps {
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+}
+
+// Traces are redrawn at this interval rather than on every received message.
+const REFRESH_MS = 100;
+
+const TRACE_WIDTH = 240;
+const TRACE_HEIGHT = 48;
+
+const DIMENSIONS = [
+  { key: 'bend', label: 'Bend', color: '#60a5fa' },
+  { key: 'pressure', label: 'Pressure', color: '#34d399' },
+  { key: 'timbre', label: 'Timbre', color: '#fbbf24' },
+] as const;
+
+// Maps points to SVG coordinates over the note's lifetime; bend (-1 to 1) is drawn around the middle.
+const toPolyline = (points: MpeTracePoint[], start: number, duration: number, centered: boolean) => {
+  const toY = (value: number) => ((1 - (centered ? (value + 1) / 2 : value)) * TRACE_HEIGHT).toFixed(1);
+  // Values hold until the next point, so the line steps rather than ramps between points.
+  const coordinates = points.flatMap((point, i) => {
+    const x = (((point.time - start) / duration) * TRACE_WIDTH).toFixed(1);
+    return i === 0 ? [`${x},${toY(point.value)}`] : [`${x},${toY(points[i - 1].value)}`, `${x},${toY(point.value)}`];
+  });
+  const last = points[points.length - 1];
+  if (last) coordinates.push(`${TRACE_WIDTH},${toY(last.value)}`);
+  return coordinates.join(' ');
+};
+
+const NoteTrace: React.FC<{ trace: MpeNoteTrace; now: number }> = ({ trace, now }) => {
+  const end = trace.endedAt ?? now;
+  const duration = Math.max(end - trace.startedAt, 1);
+
+  return (
+    <div className="flex items-center gap-3 p-2 bg-gray-900 rounded-md">
+      <div className="w-28 text-xs font-mono">
+        <div className={trace.endedAt === null ? 'text-green-400' : 'text-gray-400'}>{noteName(trace.note)} ({trace.note})</div>
+        <div className="text-gray-500">Ch {trace.channel}, vel {trace.velocity}</div>
+        <div className="text-gray-500">{trace.endedAt === null ? 'held' : `${(duration / 1000).toFixed(2)} s`}</div>
+      </div>
+      <svg viewBox={`0 0 ${TRACE_WIDTH} ${TRACE_HEIGHT}`} className="flex-1 h-12 bg-gray-800 rounded" preserveAspectRatio="none">
+        <line x1="0" y1={TRACE_HEIGHT / 2} x2={TRACE_WIDTH} y2={TRACE_HEIGHT / 2} stroke="#374151" strokeDasharray="2 2" />
+        {DIMENSIONS.map(({ key, color }) => (
+          <polyline
+            key={key}
+            points={toPolyline(trace[key], trace.startedAt, duration, key === 'bend')}
+            fill="none"
+            stroke={color}
+            strokeWidth="1.5"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+/**
+ * Groups received MPE by member channel and draws each note's pitch bend, pressure and
+ * timbre as it moved, from Note On to Note Off.
+ */
+const MpeMonitor: React.FC<MpeMonitorProps> = ({ subscribe }) => {
+  const tracker = useMemo(() => createMpeTracker(), []);
+  const [snapshot, setSnapshot] = useState<MpeTrackerSnapshot>(() => tracker.getSnapshot());
+  const [now, setNow] = useState(() => performance.now());
+
+  useEffect(() => subscribe(messages => messages.forEach(message => tracker.handle(message))), [subscribe, tracker]);
+
+  useEffect(() => {
+    let shownVersion = tracker.getVersion();
+    const timer = setInterval(() => {
+      const version = tracker.getVersion();
+      const current = tracker.getSnapshot();
+      // Held notes keep growing even without new messages, so they are redrawn on every tick.
+      if (version !== shownVersion || current.traces.some(trace => trace.endedAt === null)) {
+        shownVersion = version;
+        setSnapshot(current);
+        setNow(performance.now());
+      }
+    }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [tracker]);
+
+  const clear = () => {
+    tracker.clear();
+    setSnapshot(tracker.getSnapshot());
+  };
+
+  const { zones, traces } = snapshot;
+  const zoneSummary = [
+    zones.lower > 0 && `Lower zone: manager Ch 1, members Ch 2-${zones.lower + 1}`,
+    zones.upper > 0 && `Upper zone: manager Ch 16, members Ch ${16 - zones.upper}-15`,
+  ].filter(Boolean).join(' · ') || 'No zone configured';
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
+        <h2 className="text-xl font-bold text-gray-200">MPE Monitor</h2>
+        <button
+          onClick={clear}
+          className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+          aria-label="Clear MPE monitor"
+        >
+          Clear
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3 text-xs">
+        <span className="font-mono text-gray-400">{zoneSummary}</span>
+        <span className="flex gap-3">
+          {DIMENSIONS.map(({ key, label, color }) => (
+            <span key={key} style={{ color }}>{label}</span>
+          ))}
+        </span>
+      </div>
+      {traces.length === 0 ? (
+        <div className="py-6 text-center text-sm text-gray-500">Waiting for notes on MPE member channels...</div>
+      ) : (
+        <div className="space-y-2">
+          {[...traces].reverse().map(trace => (
+            <NoteTrace key={trace.id} trace={trace} now={now} />
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default MpeMonitor;
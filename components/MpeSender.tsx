@@ -0,0 +1,356 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import SenderCard from './SenderCard';
+import PianoKeyboard from './PianoKeyboard';
+import AutomationControls from './AutomationControls';
+import { channelPressure, controlChange, noteOff, noteOn, pitchBend } from '../utils/midiBuilder';
+import { DEFAULT_AUTOMATION_CONFIG } from '../utils/automation';
+import { MPE_TIMBRE_CC, buildZoneConfiguration, createMemberChannelAllocator, getManagerChannel, getMemberChannels, type MpeDimension } from '../utils/mpe';
+import { noteName } from '../utils/notes';
+import type { AutomationConfig, DeviceSummary, MpeParams, MpeZone } from '../types';
+
+interface MpeSenderProps {
+  id: number;
+  params: MpeParams;
+  onParamsChange: (changes: Partial<MpeParams>) => void;
+  onSend: (message: Uint8Array) => void;
+  devices: DeviceSummary[];
+  disabled: boolean;
+  onRemove: (id: number) => void;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent, id: number) => void;
+  onDrop: (e: React.DragEvent, id: number) => void;
+  onDragEnd: (e: React.DragEvent) => void;
+}
+
+// A held note and the current expression of its member channel.
+interface MpeNote {
+  note: number;
+  channel: number;
+  // Signed 14-bit, -8192 to 8191
+  bend: number;
+  pressure: number;
+  timbre: number;
+}
+
+const DIMENSION_LABELS: Record<MpeDimension, string> = {
+  bend: 'Pitch Bend',
+  pressure: 'Pressure',
+  timbre: 'Timbre (CC 74)',
+};
+
+// Expression a note starts with: centered bend and timbre, no pressure.
+const INITIAL_EXPRESSION = { bend: 0, pressure: 0, timbre: 64 };
+
+// Automation of a note's expression runs at this rate.
+const AUTOMATION_RATE = 50;
+
+const inputClass = 'mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+const buttonClass = 'px-3 py-2 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const buildExpression = (channel: number, dimension: MpeDimension, value: number): Uint8Array => {
+  switch (dimension) {
+    case 'bend':
+      return pitchBend(channel, value);
+    case 'pressure':
+      return channelPressure(channel, value);
+    case 'timbre':
+      return controlChange(channel, MPE_TIMBRE_CC, value);
+  }
+};
+
+interface NoteExpressionProps {
+  cardId: number;
+  note: MpeNote;
+  bendRange: number;
+  onExpression: (channel: number, dimension: MpeDimension, value: number) => void;
+  onRelease: (note: number) => void;
+  disabled: boolean;
+}
+
+// Sliders and automation for one held note's member channel.
+const NoteExpression: React.FC<NoteExpressionProps> = ({ cardId, note, bendRange, onExpression, onRelease, disabled }) => {
+  const [automation, setAutomation] = useState<AutomationConfig>(DEFAULT_AUTOMATION_CONFIG);
+  const [automationTarget, setAutomationTarget] = useState<MpeDimension>('pressure');
+  const id = `mpe-${cardId}-${note.channel}`;
+
+  const handleAutomationValue = (normalized: number) => {
+    const value = automationTarget === 'bend' ? Math.round(normalized * 16383) - 8192 : Math.round(normalized * 127);
+    if (value !== note[automationTarget]) onExpression(note.channel, automationTarget, value);
+  };
+
+  const slider = (dimension: MpeDimension, min: number, max: number, display: string) => (
+    <label htmlFor={`${id}-${dimension}`} className="block">
+      {DIMENSION_LABELS[dimension]}: <span className="font-mono text-blue-400">{display}</span>
+      <input
+        type="range"
+        id={`${id}-${dimension}`}
+        min={min}
+        max={max}
+        value={note[dimension]}
+        onChange={(e) => onExpression(note.channel, dimension, parseInt(e.target.value, 10))}
+        className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+        disabled={disabled}
+      />
+    </label>
+  );
+
+  const semitones = (note.bend / (note.bend < 0 ? 8192 : 8191)) * bendRange;
+
+  return (
+    <div className="p-2 bg-gray-900 rounded-md space-y-2 text-xs text-gray-400">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-gray-200">
+          {noteName(note.note)} <span className="text-gray-500 font-normal">Ch {note.channel}</span>
+        </span>
+        <button onClick={() => onRelease(note.note)} className="px-2 py-0.5 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors" disabled={disabled}>
+          Release
+        </button>
+      </div>
+      {slider('bend', -8192, 8191, `${semitones > 0 ? '+' : ''}${semitones.toFixed(2)} st`)}
+      {slider('pressure', 0, 127, String(note.pressure))}
+      {slider('timbre', 0, 127, String(note.timbre))}
+      <label className="flex items-center gap-2">
+        Automate
+        <select
+          value={automationTarget}
+          onChange={(e) => setAutomationTarget(e.target.value as MpeDimension)}
+          className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs"
+          disabled={disabled}
+        >
+          {(Object.keys(DIMENSION_LABELS) as MpeDimension[]).map(dimension => (
+            <option key={dimension} value={dimension}>{DIMENSION_LABELS[dimension]}</option>
+          ))}
+        </select>
+      </label>
+      <AutomationControls
+        // Kept apart from the card ids the other cards' automation uses
+        id={cardId * 100 + note.channel}
+        config={automation}
+        onConfigChange={setAutomation}
+        updateRate={AUTOMATION_RATE}
+        onValue={handleAutomationValue}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
+
+/**
+ * Plays MPE: configures a zone with the MCM, then gives every held note its own member
+ * channel, so its pitch bend, pressure and timbre can be shaped independently.
+ */
+const MpeSender: React.FC<MpeSenderProps> = ({
+  id,
+  params,
+  onParamsChange,
+  onSend,
+  devices,
+  disabled,
+  onRemove,
+  isDragging,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+}) => {
+  const { zone, memberChannels, bendRange, baseOctave, octaves, velocity, description } = params;
+  // Notes are latched, so their expression can be shaped after the key is let go.
+  const [notes, setNotes] = useState<MpeNote[]>([]);
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const allocate = useMemo(() => createMemberChannelAllocator(), []);
+
+  const startNote = (baseOctave + 1) * 12;
+  const members = getMemberChannels(zone, memberChannels);
+
+  const releaseNotes = useCallback((released: MpeNote[]) => {
+    released.forEach(entry => onSend(noteOff(entry.channel, entry.note)));
+    setNotes(prev => prev.filter(entry => !released.includes(entry)));
+  }, [onSend]);
+
+  const handleNoteDown = (note: number) => {
+    if (disabled) return;
+    const held = notesRef.current.find(entry => entry.note === note);
+    if (held) {
+      releaseNotes([held]);
+      return;
+    }
+    const channel = allocate(members, candidate => notesRef.current.some(entry => entry.channel === candidate));
+    if (channel === null) return;
+    // With every member channel busy, the oldest note on the allocated channel makes way.
+    releaseNotes(notesRef.current.filter(entry => entry.channel === channel));
+    // The member channel's expression is reset before the Note On, so it starts from a known state.
+    onSend(pitchBend(channel, INITIAL_EXPRESSION.bend));
+    onSend(channelPressure(channel, INITIAL_EXPRESSION.pressure));
+    onSend(controlChange(channel, MPE_TIMBRE_CC, INITIAL_EXPRESSION.timbre));
+    onSend(noteOn(channel, note, velocity));
+    const entry = { note, channel, ...INITIAL_EXPRESSION };
+    notesRef.current = [...notesRef.current.filter(other => other.channel !== channel), entry];
+    setNotes(notesRef.current);
+  };
+
+  const handleExpression = useCallback((channel: number, dimension: MpeDimension, value: number) => {
+    onSend(buildExpression(channel, dimension, value));
+    setNotes(prev => prev.map(entry => (entry.channel === channel ? { ...entry, [dimension]: value } : entry)));
+  }, [onSend]);
+
+  const handleRelease = (note: number) => releaseNotes(notesRef.current.filter(entry => entry.note === note));
+
+  // Held notes would play on channels outside the new zone, so they are released first.
+  const changeZone = (changes: Partial<MpeParams>) => {
+    releaseNotes(notesRef.current);
+    onParamsChange(changes);
+  };
+
+  const configureZone = () => {
+    buildZoneConfiguration(zone, memberChannels, bendRange).forEach(message => onSend(message));
+  };
+
+  // When the link drops the Note Offs cannot be delivered; forget local state so keys don't stay lit.
+  useEffect(() => {
+    if (disabled) setNotes([]);
+  }, [disabled]);
+
+  const memberRange = members.length === 0 ? 'none' : `Ch ${Math.min(...members)}-${Math.max(...members)}`;
+
+  return (
+    <SenderCard
+      id={id}
+      title="MPE Expression"
+      description={description}
+      onDescriptionChange={(description) => onParamsChange({ description })}
+      descriptionPlaceholder="Add a description (e.g., MPE Lead)"
+      devices={devices}
+      targets={params.targets}
+      onTargetsChange={(targets) => onParamsChange({ targets })}
+      disabled={disabled}
+      onRemove={onRemove}
+      isDragging={isDragging}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label htmlFor={`mpe-zone-${id}`} className="block text-sm font-medium text-gray-300">Zone</label>
+            <select
+              id={`mpe-zone-${id}`}
+              value={zone}
+              onChange={(e) => changeZone({ zone: e.target.value as MpeZone })}
+              className={inputClass}
+              disabled={disabled}
+            >
+              <option value="lower">Lower</option>
+              <option value="upper">Upper</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`mpe-members-${id}`} className="block text-sm font-medium text-gray-300">Members</label>
+            <input
+              type="number"
+              id={`mpe-members-${id}`}
+              min="1"
+              max="15"
+              value={memberChannels}
+              onChange={(e) => changeZone({ memberChannels: Math.min(15, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label htmlFor={`mpe-bend-range-${id}`} className="block text-sm font-medium text-gray-300">Bend (st)</label>
+            <input
+              type="number"
+              id={`mpe-bend-range-${id}`}
+              min="1"
+              max="96"
+              value={bendRange}
+              onChange={(e) => onParamsChange({ bendRange: Math.min(96, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={configureZone} className={`flex-1 ${buttonClass}`} disabled={disabled}>
+            Configure Zone
+          </button>
+          <span className="text-xs text-gray-400 font-mono">Manager Ch {getManagerChannel(zone)}, members {memberRange}</span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label htmlFor={`mpe-octave-${id}`} className="block text-sm font-medium text-gray-300">
+              Octave: <span className="font-mono text-blue-400">{noteName(startNote)}</span>
+            </label>
+            <input
+              type="number"
+              id={`mpe-octave-${id}`}
+              min="-1"
+              max="8"
+              value={baseOctave}
+              onChange={(e) => onParamsChange({ baseOctave: parseInt(e.target.value, 10) })}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label htmlFor={`mpe-octaves-${id}`} className="block text-sm font-medium text-gray-300">Range</label>
+            <input
+              type="number"
+              id={`mpe-octaves-${id}`}
+              min="1"
+              max="4"
+              value={octaves}
+              onChange={(e) => onParamsChange({ octaves: parseInt(e.target.value, 10) })}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label htmlFor={`mpe-velocity-${id}`} className="block text-sm font-medium text-gray-300">Velocity</label>
+            <input
+              type="number"
+              id={`mpe-velocity-${id}`}
+              min="1"
+              max="127"
+              value={velocity}
+              onChange={(e) => onParamsChange({ velocity: Math.min(127, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <PianoKeyboard
+          startNote={startNote}
+          octaves={octaves}
+          activeNotes={new Set(notes.map(entry => entry.note))}
+          onNoteDown={handleNoteDown}
+          onNoteUp={() => {}}
+          disabled={disabled}
+        />
+        {notes.length === 0 ? (
+          <p className="text-xs text-gray-500">Click a key to start a note on the next free member channel; click it again to release it.</p>
+        ) : (
+          <div className="space-y-2">
+            {notes.map(entry => (
+              <NoteExpression
+                key={entry.channel}
+                cardId={id}
+                note={entry}
+                bendRange={bendRange}
+                onExpression={handleExpression}
+                onRelease={handleRelease}
+                disabled={disabled}
+              />
+            ))}
+            <button onClick={() => releaseNotes(notesRef.current)} className={`w-full ${buttonClass}`} disabled={disabled}>
+              Release All
+            </button>
+          </div>
+        )}
+      </div>
+    </SenderCard>
+  );
+};
+
+export default MpeSender;
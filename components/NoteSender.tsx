@@ -0,0 +1,276 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import SenderCard from './SenderCard';
+import ChannelSelector from './ChannelSelector';
+import PianoKeyboard from './PianoKeyboard';
+import { allNotesOff, allSoundOff, noteOff, noteOn } from '../utils/midiBuilder';
+import { CHORD_PRESETS, noteName } from '../utils/notes';
+import type { DeviceSummary, NoteParams } from '../types';
+
+interface NoteSenderProps {
+  id: number;
+  params: NoteParams;
+  onParamsChange: (changes: Partial<NoteParams>) => void;
+  onSend: (message: Uint8Array) => void;
+  devices: DeviceSummary[];
+  disabled: boolean;
+  onRemove: (id: number) => void;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent, id: number) => void;
+  onDrop: (e: React.DragEvent, id: number) => void;
+  onDragEnd: (e: React.DragEvent) => void;
+}
+
+// Computer keyboard layout: the home row plays white keys, the row above plays black keys.
+const QWERTY_OFFSETS: Record<string, number> = {
+  a: 0, w: 1, s: 2, e: 3, d: 4, f: 5, t: 6, g: 7, y: 8, h: 9, u: 10, j: 11,
+  k: 12, o: 13, l: 14, p: 15, ';': 16,
+};
+
+interface ActiveNote {
+  // Exact notes and channels that were switched on, so the Note Offs always match.
+  notes: number[];
+  channels: number[];
+}
+
+const NoteSender: React.FC<NoteSenderProps> = ({
+  id,
+  params,
+  onParamsChange,
+  onSend,
+  devices,
+  disabled,
+  onRemove,
+  isDragging,
+  onDragStart,
+  onDrop,
+  onDragEnd
+}) => {
+  const { channels, baseOctave, octaves, velocity, velocityByPosition, hold, chord, qwertyEnabled, description } = params;
+  const [soundingNotes, setSoundingNotes] = useState<Set<number>>(new Set());
+
+  // Keyed by the pressed (root) key.
+  const activeNotesRef = useRef<Map<number, ActiveNote>>(new Map());
+  // Keys currently held down by pointer or computer keyboard, regardless of hold.
+  const pressedKeysRef = useRef<Set<number>>(new Set());
+
+  const startNote = (baseOctave + 1) * 12;
+
+  const refreshSoundingNotes = () => {
+    setSoundingNotes(new Set(Array.from(activeNotesRef.current.values()).flatMap((entry: ActiveNote) => entry.notes)));
+  };
+
+  const stopNote = useCallback((root: number) => {
+    const entry = activeNotesRef.current.get(root);
+    if (!entry) return;
+    entry.channels.forEach(channel => entry.notes.forEach(note => onSend(noteOff(channel, note))));
+    activeNotesRef.current.delete(root);
+    refreshSoundingNotes();
+  }, [onSend]);
+
+  const handleNoteDown = useCallback((root: number, positionVelocity: number) => {
+    if (disabled || pressedKeysRef.current.has(root)) return;
+    pressedKeysRef.current.add(root);
+    // Re-triggering a latched key sends its Note Off first.
+    stopNote(root);
+
+    const notes = CHORD_PRESETS[chord].map(offset => root + offset).filter(note => note <= 127);
+    const noteVelocity = velocityByPosition ? positionVelocity : velocity;
+    channels.forEach(channel => notes.forEach(note => onSend(noteOn(channel, note, noteVelocity))));
+    activeNotesRef.current.set(root, { notes, channels: [...channels] });
+    refreshSoundingNotes();
+  }, [disabled, chord, velocityByPosition, velocity, channels, onSend, stopNote]);
+
+  const handleNoteUp = useCallback((root: number) => {
+    if (!pressedKeysRef.current.delete(root)) return;
+    if (!hold) stopNote(root);
+  }, [hold, stopNote]);
+
+  const handleHoldToggle = () => {
+    if (hold) {
+      // Releasing hold stops every latched note that is no longer physically pressed.
+      Array.from(activeNotesRef.current.keys())
+        .filter(root => !pressedKeysRef.current.has(root))
+        .forEach(stopNote);
+    }
+    onParamsChange({ hold: !hold });
+  };
+
+  const handlePanic = () => {
+    Array.from(activeNotesRef.current.keys()).forEach(stopNote);
+    pressedKeysRef.current.clear();
+    for (let channel = 1; channel <= 16; channel++) {
+      onSend(allNotesOff(channel));
+      onSend(allSoundOff(channel));
+    }
+  };
+
+  // When the link drops the Note Offs cannot be delivered; forget local state so keys don't stay lit.
+  useEffect(() => {
+    if (disabled) {
+      activeNotesRef.current.clear();
+      pressedKeysRef.current.clear();
+      setSoundingNotes(new Set());
+    }
+  }, [disabled]);
+
+  // The keyboard listeners read the latest handlers without being re-attached on every render.
+  const keyHandlersRef = useRef({ handleNoteDown, handleNoteUp, startNote, baseOctave, onParamsChange });
+  keyHandlersRef.current = { handleNoteDown, handleNoteUp, startNote, baseOctave, onParamsChange };
+
+  useEffect(() => {
+    if (!qwertyEnabled) return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+    // Remembers which note each key started, so an octave shift mid-note still releases it.
+    const rootsByKey = new Map<string, number>();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      const { baseOctave: octave, onParamsChange: update } = keyHandlersRef.current;
+      if (key === 'z') update({ baseOctave: Math.max(octave - 1, -1) });
+      if (key === 'x') update({ baseOctave: Math.min(octave + 1, 8) });
+      const offset = QWERTY_OFFSETS[key];
+      if (offset !== undefined) {
+        const { handleNoteDown: down, startNote: base } = keyHandlersRef.current;
+        rootsByKey.set(key, base + offset);
+        down(base + offset, velocity);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      const root = rootsByKey.get(key);
+      if (root !== undefined) {
+        rootsByKey.delete(key);
+        keyHandlersRef.current.handleNoteUp(root);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [qwertyEnabled, velocity]);
+
+  return (
+    <SenderCard
+      id={id}
+      title="Notes"
+      description={description}
+      onDescriptionChange={(description) => onParamsChange({ description })}
+      descriptionPlaceholder="Add a description (e.g., Lead Synth)"
+      devices={devices}
+      targets={params.targets}
+      onTargetsChange={(targets) => onParamsChange({ targets })}
+      disabled={disabled}
+      onRemove={onRemove}
+      isDragging={isDragging}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+    >
+      <div className="space-y-4">
+        <ChannelSelector id={id} channels={channels} onChange={(channels) => onParamsChange({ channels })} disabled={disabled} />
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor={`octave-${id}`} className="block text-sm font-medium text-gray-300">
+              Octave: <span className="font-mono text-blue-400">{noteName(startNote)}</span>
+            </label>
+            <input
+              type="number"
+              id={`octave-${id}`}
+              min="-1"
+              max="8"
+              value={baseOctave}
+              onChange={(e) => onParamsChange({ baseOctave: parseInt(e.target.value, 10) })}
+              className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label htmlFor={`octaves-${id}`} className="block text-sm font-medium text-gray-300">
+              Range (octaves)
+            </label>
+            <input
+              type="number"
+              id={`octaves-${id}`}
+              min="1"
+              max="4"
+              value={octaves}
+              onChange={(e) => onParamsChange({ octaves: parseInt(e.target.value, 10) })}
+              className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor={`chord-${id}`} className="block text-sm font-medium text-gray-300">
+            Chord
+          </label>
+          <select
+            id={`chord-${id}`}
+            value={chord}
+            onChange={(e) => onParamsChange({ chord: e.target.value })}
+            className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            disabled={disabled}
+          >
+            {Object.keys(CHORD_PRESETS).map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`velocity-${id}`} className="block text-sm font-medium text-gray-300">
+            Velocity: <span className="font-mono text-blue-400">{velocityByPosition ? 'by key position' : velocity}</span>
+          </label>
+          <input
+            type="range"
+            id={`velocity-${id}`}
+            min="1"
+            max="127"
+            value={velocity}
+            onChange={(e) => onParamsChange({ velocity: parseInt(e.target.value, 10) })}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            disabled={disabled || velocityByPosition}
+          />
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={velocityByPosition} onChange={(e) => onParamsChange({ velocityByPosition: e.target.checked })} disabled={disabled} />
+            Velocity by key position
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={hold} onChange={handleHoldToggle} disabled={disabled} />
+            Hold
+          </label>
+          <label className="flex items-center gap-1" title="A-; play notes, W/E/T/Y/U/O/P play sharps, Z/X shift octave">
+            <input type="checkbox" checked={qwertyEnabled} onChange={(e) => onParamsChange({ qwertyEnabled: e.target.checked })} disabled={disabled} />
+            Computer keyboard
+          </label>
+        </div>
+        <PianoKeyboard
+          startNote={startNote}
+          octaves={octaves}
+          activeNotes={soundingNotes}
+          onNoteDown={handleNoteDown}
+          onNoteUp={handleNoteUp}
+          disabled={disabled}
+        />
+        <button
+          onClick={handlePanic}
+          className="w-full px-3 py-2 text-sm font-semibold text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500 transition-colors"
+          disabled={disabled}
+          title="Send Note Off for every sounding note, then All Notes Off and All Sound Off on all 16 channels"
+        >
+          Panic (All Notes Off)
+        </button>
+      </div>
+    </SenderCard>
+  );
+};
+
+export default NoteSender;
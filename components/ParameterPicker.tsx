@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import type { DeviceProfile, ProfileParameter, ProfileParameterKind } from '../types';
+import { searchProfileParameters } from '../utils/deviceProfiles';
+
+interface ParameterPickerProps {
+  id: number;
+  // Profiles of the card's target devices
+  profiles: DeviceProfile[];
+  // The parameter kinds the card can send
+  kinds: ProfileParameterKind[];
+  // Narrows the kinds further, e.g. to the MSB controllers a 14-bit card can use
+  accept?: (parameter: ProfileParameter) => boolean;
+  selected: ProfileParameter | null;
+  onPick: (parameter: ProfileParameter) => void;
+  disabled: boolean;
+}
+
+// Long profiles are searched rather than scrolled.
+const MAX_RESULTS = 50;
+
+const formatNumber = (parameter: ProfileParameter) =>
+  parameter.kind === 'cc' ? `CC ${parameter.number}` : `${parameter.kind.toUpperCase()} ${parameter.number}`;
+
+/**
+ * Searchable list of the parameters the device profiles name; picking one sets up the card for it.
+ */
+const ParameterPicker: React.FC<ParameterPickerProps> = ({ id, profiles, kinds, accept, selected, onPick, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const search = (text: string) => searchProfileParameters(profiles, kinds, text).filter(({ parameter }) => !accept || accept(parameter));
+  if (search('').length === 0) return null;
+  const results = search(query);
+  const showProfile = profiles.length > 1;
+
+  const pick = (parameter: ProfileParameter) => {
+    onPick(parameter);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-3 py-1 text-xs text-left text-gray-300 bg-gray-700 border border-gray-600 rounded-md hover:bg-gray-600 transition-colors"
+        aria-expanded={isOpen}
+        aria-controls={`parameter-picker-${id}`}
+        disabled={disabled}
+      >
+        {selected ? <>{selected.name} <span className="text-gray-500">({formatNumber(selected)})</span></> : 'Pick parameter…'}
+      </button>
+      {isOpen && (
+        <div id={`parameter-picker-${id}`} className="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-600 rounded-md shadow-lg">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setIsOpen(false);
+              if (e.key === 'Enter' && results.length > 0) pick(results[0].parameter);
+            }}
+            placeholder="Search by name or number"
+            className="w-full px-2 py-1 text-xs bg-gray-700 border-b border-gray-600 rounded-t-md text-white focus:outline-none"
+            autoFocus
+            aria-label="Search parameters"
+          />
+          <ul className="max-h-48 overflow-y-auto text-xs">
+            {results.length === 0 && <li className="px-2 py-1 text-gray-500">No matching parameter</li>}
+            {results.slice(0, MAX_RESULTS).map(({ profile, parameter }) => (
+              <li key={`${profile.name}-${parameter.kind}-${parameter.number}`}>
+                <button
+                  onClick={() => pick(parameter)}
+                  className="w-full px-2 py-1 text-left text-gray-300 hover:bg-gray-700 flex justify-between gap-2"
+                >
+                  <span>{parameter.name}</span>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {formatNumber(parameter)}{showProfile && ` · ${profile.name}`}
+                  </span>
+                </button>
+              </li>
+            ))}
+            {results.length > MAX_RESULTS && (
+              <li className="px-2 py-1 text-gray-500">{results.length - MAX_RESULTS} more; refine the search</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterPicker;
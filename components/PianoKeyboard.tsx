@@ -0,0 +1,76 @@
+import React from 'react';
+import { isBlackKey, noteName } from '../utils/notes';
+
+interface PianoKeyboardProps {
+  // First note shown; should be a C
+  startNote: number;
+  octaves: number;
+  activeNotes: Set<number>;
+  // positionVelocity is 1-127 from where the key was hit: the lower on the key, the louder.
+  onNoteDown: (note: number, positionVelocity: number) => void;
+  onNoteUp: (note: number) => void;
+  disabled: boolean;
+}
+
+const PianoKeyboard: React.FC<PianoKeyboardProps> = ({
+  startNote,
+  octaves,
+  activeNotes,
+  onNoteDown,
+  onNoteUp,
+  disabled,
+}) => {
+  const notes = Array.from({ length: octaves * 12 + 1 }, (_, i) => startNote + i).filter(note => note <= 127);
+  const whiteNotes = notes.filter(note => !isBlackKey(note));
+  const whiteKeyWidth = 100 / whiteNotes.length;
+
+  const handlePointerDown = (note: number) => (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1);
+    onNoteDown(note, Math.round(1 + fraction * 126));
+  };
+
+  const keyHandlers = (note: number) => ({
+    onPointerDown: handlePointerDown(note),
+    onPointerUp: () => onNoteUp(note),
+    onPointerLeave: (e: React.PointerEvent) => {
+      // Sliding off a key while the button is held releases it.
+      if (e.buttons !== 0) onNoteUp(note);
+    },
+    'aria-label': noteName(note),
+    'aria-pressed': activeNotes.has(note),
+    title: noteName(note),
+  });
+
+  return (
+    <div className="relative h-28 select-none touch-none" role="group" aria-label="Piano keyboard">
+      {whiteNotes.map((note, index) => (
+        <button
+          key={note}
+          {...keyHandlers(note)}
+          className={`absolute top-0 h-full border border-gray-900 rounded-b-md ${activeNotes.has(note) ? 'bg-blue-400' : 'bg-gray-100 hover:bg-gray-300'}`}
+          style={{ left: `${index * whiteKeyWidth}%`, width: `${whiteKeyWidth}%` }}
+        >
+          {note % 12 === 0 && (
+            <span className="absolute bottom-1 left-0 right-0 text-center text-[9px] text-gray-600">{noteName(note)}</span>
+          )}
+        </button>
+      ))}
+      {notes.filter(isBlackKey).map(note => {
+        // A black key sits on the boundary after the white key just below it.
+        const whiteIndex = whiteNotes.indexOf(note - 1);
+        return (
+          <button
+            key={note}
+            {...keyHandlers(note)}
+            className={`absolute top-0 h-3/5 z-10 rounded-b-md ${activeNotes.has(note) ? 'bg-blue-500' : 'bg-gray-900 hover:bg-gray-700'}`}
+            style={{ left: `${(whiteIndex + 0.65) * whiteKeyWidth}%`, width: `${whiteKeyWidth * 0.7}%` }}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+export default PianoKeyboard;
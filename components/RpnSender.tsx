@@ -0,0 +1,307 @@
+import React, { useCallback } from 'react';
+import SenderCard from './SenderCard';
+import ChannelSelector from './ChannelSelector';
+import SendModeControls from './SendModeControls';
+import MidiLearnControls from './MidiLearnControls';
+import ParameterPicker from './ParameterPicker';
+import { useStreamingSend } from '../hooks/useStreamingSend';
+import { useLiveValue } from '../hooks/useLiveValue';
+import { parameterNumber, parameterStep, rpnNull } from '../utils/midiBuilder';
+import { RPN_PRESETS, findParameterNumberPreset, formatParameterNumber } from '../utils/parameterNumbers';
+import { getValueName, getValueRange } from '../utils/deviceProfiles';
+import type { DeviceProfile, DeviceSummary, ParameterNumberKind, ParsedMidiMessage, ProfileParameter, RpnParams } from '../types';
+
+interface RpnSenderProps {
+  id: number;
+  params: RpnParams;
+  onParamsChange: (changes: Partial<RpnParams>) => void;
+  onSend: (message: Uint8Array) => void;
+  // Received messages, for MIDI Learn
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  // Profiles of the target devices, for the parameter picker
+  profiles: DeviceProfile[];
+  devices: DeviceSummary[];
+  disabled: boolean;
+  onRemove: (id: number) => void;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent, id: number) => void;
+  onDrop: (e: React.DragEvent, id: number) => void;
+  onDragEnd: (e: React.DragEvent) => void;
+}
+
+const CUSTOM_PRESET = 'custom';
+
+const inputClass = 'mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+const buttonClass = 'px-3 py-2 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const clamp7bit = (value: number) => Math.min(127, Math.max(0, isNaN(value) ? 0 : value));
+
+const RpnSender: React.FC<RpnSenderProps> = ({
+  id,
+  params,
+  onParamsChange,
+  onSend,
+  subscribe,
+  profiles,
+  devices,
+  disabled,
+  onRemove,
+  isDragging,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+}) => {
+  const { channels, kind, parameter, value14bit: storedValue, sendDataLsb, sendNull, sendMode, maxRate, learn, profileParameter, description } = params;
+  const live = useLiveValue(storedValue, value => onParamsChange({ value14bit: value }));
+  const value14bit = live.value;
+  const preset = findParameterNumberPreset(kind, parameter);
+  const range = getValueRange(profileParameter, 14);
+  const valueName = getValueName(profileParameter, value14bit, 14);
+
+  // Each channel gets its whole sequence back to back, so a receiver never sees them interleaved.
+  const sendSequence = useCallback((build: (channel: number) => Uint8Array[]) => {
+    if (disabled) return;
+    channels.forEach(channel => {
+      [...build(channel), ...(sendNull ? rpnNull(channel) : [])].forEach(message => onSend(message));
+    });
+  }, [channels, sendNull, onSend, disabled]);
+
+  const sendValue = useCallback((value: number) => {
+    sendSequence(channel => parameterNumber(channel, kind, parameter, value, sendDataLsb));
+  }, [sendSequence, kind, parameter, sendDataLsb]);
+
+  const stream = useStreamingSend(sendValue, sendMode, maxRate);
+
+  // A learned control moves the slider; its values are sent at most maxRate times per second.
+  const handleLearnValue = (normalized: number) => {
+    // Without CC 38 only the MSB reaches the device, as with the slider.
+    const scaled = Math.round(range.min + normalized * (range.max - range.min));
+    const value = sendDataLsb ? scaled : scaled & 0x3f80;
+    live.set(value);
+    stream.schedule(value);
+  };
+
+  const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    live.cancel();
+    onParamsChange({ value14bit: value });
+    stream.onChange(value);
+  };
+
+  const selectPreset = (name: string) => {
+    const next = RPN_PRESETS.find(candidate => candidate.name === name);
+    if (!next) return;
+    live.cancel();
+    onParamsChange({
+      kind: next.kind,
+      parameter: next.parameter,
+      value14bit: next.defaultValue,
+      sendDataLsb: next.sendDataLsb,
+      profileParameter: null,
+    });
+    stream.onSet(next.defaultValue);
+  };
+
+  const pickParameter = (picked: ProfileParameter) => {
+    const clamped = Math.min(picked.max, Math.max(picked.min, value14bit));
+    live.cancel();
+    onParamsChange({
+      kind: picked.kind === 'rpn' ? 'RPN' : 'NRPN',
+      parameter: picked.number,
+      description: picked.name,
+      profileParameter: picked,
+      value14bit: clamped,
+    });
+    stream.onSet(clamped);
+  };
+
+  return (
+    <SenderCard
+      id={id}
+      title="RPN / NRPN"
+      description={description}
+      onDescriptionChange={(description) => onParamsChange({ description })}
+      descriptionPlaceholder="Add a description (e.g., Bend Range)"
+      devices={devices}
+      targets={params.targets}
+      onTargetsChange={(targets) => onParamsChange({ targets })}
+      disabled={disabled}
+      onRemove={onRemove}
+      isDragging={isDragging}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+    >
+      <div className="space-y-4">
+        <ChannelSelector id={id} channels={channels} onChange={(channels) => onParamsChange({ channels })} disabled={disabled} />
+        <ParameterPicker
+          id={id}
+          profiles={profiles}
+          kinds={['rpn', 'nrpn']}
+          selected={profileParameter}
+          onPick={pickParameter}
+          disabled={disabled}
+        />
+        <div>
+          <label htmlFor={`rpn-preset-${id}`} className="block text-sm font-medium text-gray-300">
+            Preset
+          </label>
+          <select
+            id={`rpn-preset-${id}`}
+            value={preset?.name ?? CUSTOM_PRESET}
+            onChange={(e) => selectPreset(e.target.value)}
+            className={inputClass}
+            disabled={disabled}
+          >
+            <option value={CUSTOM_PRESET}>Custom</option>
+            {RPN_PRESETS.map(candidate => (
+              <option key={candidate.name} value={candidate.name}>
+                {candidate.kind} {formatParameterNumber(candidate.parameter)} {candidate.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label htmlFor={`rpn-kind-${id}`} className="block text-sm font-medium text-gray-300">
+              Type
+            </label>
+            <select
+              id={`rpn-kind-${id}`}
+              value={kind}
+              onChange={(e) => onParamsChange({ kind: e.target.value as ParameterNumberKind, profileParameter: null })}
+              className={inputClass}
+              disabled={disabled}
+            >
+              <option value="RPN">RPN</option>
+              <option value="NRPN">NRPN</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor={`rpn-msb-${id}`} className="block text-sm font-medium text-gray-300">
+              MSB
+            </label>
+            <input
+              type="number"
+              id={`rpn-msb-${id}`}
+              min="0"
+              max="127"
+              value={parameter >> 7}
+              onChange={(e) => onParamsChange({ parameter: (clamp7bit(parseInt(e.target.value, 10)) << 7) | (parameter & 0x7f), profileParameter: null })}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label htmlFor={`rpn-lsb-${id}`} className="block text-sm font-medium text-gray-300">
+              LSB
+            </label>
+            <input
+              type="number"
+              id={`rpn-lsb-${id}`}
+              min="0"
+              max="127"
+              value={parameter & 0x7f}
+              onChange={(e) => onParamsChange({ parameter: (parameter & 0x3f80) | clamp7bit(parseInt(e.target.value, 10)), profileParameter: null })}
+              className={inputClass}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor={`rpn-value-${id}`} className="block text-sm font-medium text-gray-300">
+            Value ({range.min}-{range.max}): <span className="font-mono text-blue-400">{value14bit}</span>
+            {valueName && <span className="ml-2 text-gray-400">{valueName}</span>}
+          </label>
+          <input
+            type="range"
+            id={`rpn-value-${id}`}
+            min={range.min}
+            max={range.max}
+            // Without CC 38 only the MSB reaches the device, so move in whole MSB steps.
+            step={sendDataLsb ? 1 : 128}
+            value={value14bit}
+            onChange={handleValueChange}
+            onPointerDown={stream.onPointerDown}
+            onMouseUp={() => stream.commit(value14bit)}
+            onTouchEnd={() => stream.commit(value14bit)}
+            onKeyUp={(e) => stream.onKeyUp(e.key, value14bit)}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={sendDataLsb}
+              onChange={(e) => onParamsChange({ sendDataLsb: e.target.checked })}
+              disabled={disabled}
+            />
+            Send data LSB (CC 38)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={sendNull}
+              onChange={(e) => onParamsChange({ sendNull: e.target.checked })}
+              disabled={disabled}
+            />
+            Send RPN Null afterwards
+          </label>
+        </div>
+        <SendModeControls
+          id={id}
+          mode={sendMode}
+          onModeChange={(sendMode) => onParamsChange({ sendMode })}
+          maxRate={maxRate}
+          onMaxRateChange={(maxRate) => onParamsChange({ maxRate })}
+          disabled={disabled}
+        />
+        <MidiLearnControls
+          id={id}
+          binding={learn}
+          onBindingChange={(learn) => onParamsChange({ learn })}
+          subscribe={subscribe}
+          highRes
+          onValue={handleLearnValue}
+          disabled={disabled}
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => sendSequence(channel => parameterStep(channel, kind, parameter, -1))}
+            className={buttonClass}
+            disabled={disabled}
+            aria-label="Data Decrement"
+            title="Data Decrement (CC 97)"
+          >
+            −
+          </button>
+          <button
+            onClick={() => sendValue(value14bit)}
+            className={`flex-1 ${buttonClass}`}
+            disabled={disabled}
+          >
+            Send
+          </button>
+          <button
+            onClick={() => sendSequence(channel => parameterStep(channel, kind, parameter, 1))}
+            className={buttonClass}
+            disabled={disabled}
+            aria-label="Data Increment"
+            title="Data Increment (CC 96)"
+          >
+            +
+          </button>
+        </div>
+        <div className="text-xs text-gray-400 font-mono p-3 bg-gray-900 rounded-md">
+          <div>{kind} {formatParameterNumber(parameter)}: CC {kind === 'RPN' ? '101/100' : '99/98'} = {parameter >> 7}/{parameter & 0x7f}</div>
+          <div>Data: CC 6 = {value14bit >> 7}{sendDataLsb && `, CC 38 = ${value14bit & 0x7f}`}</div>
+          {preset && <div>{preset.formatValue(value14bit)}</div>}
+        </div>
+      </div>
+    </SenderCard>
+  );
+};
+
+export default RpnSender;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Card from './Card';
+import type { ParsedMidiMessage, Scene, SenderConfig, SenderParams } from '../types';
+import { captureScene, createSceneRecaller } from '../utils/scenes';
+
+interface SceneBarProps {
+  scenes: Scene[];
+  onScenesChange: (scenes: Scene[]) => void;
+  senders: SenderConfig[];
+  onParamsChange: (sender: SenderConfig, changes: Partial<SenderParams>) => void;
+  onSend: (message: Uint8Array, sender: SenderConfig, scene: Scene) => void;
+  // Delivers every batch of received messages, for Program Change triggers.
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+}
+
+const buttonClass = 'px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50';
+const inputClass = 'px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+const labelClass = 'flex items-center gap-1 text-xs text-gray-400';
+
+/**
+ * Captures the values of every sender card as named scenes, and recalls them at once or
+ * morphs to them, from a click or an incoming Program Change.
+ */
+const SceneBar: React.FC<SceneBarProps> = ({ scenes, onScenesChange, senders, onParamsChange, onSend, subscribe }) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [morphMs, setMorphMs] = useState(0);
+  const [morphProgress, setMorphProgress] = useState<number | null>(null);
+
+  // The recaller and the Program Change listener outlive renders, so they read props through refs.
+  const latestRef = useRef({ scenes, senders, onParamsChange, onSend, morphMs });
+  latestRef.current = { scenes, senders, onParamsChange, onSend, morphMs };
+
+  const recaller = useMemo(() => createSceneRecaller({
+    getSenders: () => latestRef.current.senders,
+    onParamsChange: (sender, changes) => latestRef.current.onParamsChange(sender, changes),
+    send: (message, sender, scene) => latestRef.current.onSend(message, sender, scene),
+    onProgress: setMorphProgress,
+  }), []);
+
+  useEffect(() => () => recaller.stop(), [recaller]);
+
+  const recall = (scene: Scene) => {
+    setSelectedId(scene.id);
+    recaller.recall(scene, latestRef.current.morphMs);
+  };
+  const recallRef = useRef(recall);
+  recallRef.current = recall;
+
+  useEffect(() => subscribe(messages => {
+    messages.forEach(message => {
+      if (message.type !== 'Program Change') return;
+      const scene = latestRef.current.scenes.find(candidate => candidate.programChange === message.program);
+      if (scene) recallRef.current(scene);
+    });
+  }), [subscribe]);
+
+  const selected = scenes.find(scene => scene.id === selectedId) ?? null;
+
+  const updateScene = (id: number, changes: Partial<Scene>) => {
+    onScenesChange(scenes.map(scene => (scene.id === id ? { ...scene, ...changes } : scene)));
+  };
+
+  const addScene = () => {
+    const scene = captureScene(`Scene ${scenes.length + 1}`, senders);
+    onScenesChange([...scenes, scene]);
+    setSelectedId(scene.id);
+  };
+
+  // Re-captures the current card values, keeping the scene's name and trigger.
+  const updateFromCards = (scene: Scene) => {
+    updateScene(scene.id, { values: captureScene(scene.name, senders).values });
+  };
+
+  const removeScene = (id: number) => {
+    onScenesChange(scenes.filter(scene => scene.id !== id));
+    setSelectedId(null);
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-sm font-semibold text-gray-300 mr-2">Scenes</h2>
+        {scenes.length === 0 && <span className="text-xs text-gray-500">Capture the current card values to create a scene.</span>}
+        {scenes.map(scene => (
+          <button
+            key={scene.id}
+            onClick={() => recall(scene)}
+            className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${scene.id === selectedId ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            title={scene.programChange === null ? 'Recall' : `Recall (or send Program Change ${scene.programChange})`}
+          >
+            {scene.name}
+            {scene.programChange !== null && <span className="ml-1 text-gray-400 font-mono">PC{scene.programChange}</span>}
+          </button>
+        ))}
+        <button onClick={addScene} className={buttonClass}>+ Capture</button>
+        <div className="flex items-center gap-2 ml-auto">
+          <label className={labelClass}>
+            Morph (ms)
+            <input
+              type="number"
+              value={morphMs}
+              min={0}
+              max={60000}
+              step={100}
+              onChange={(e) => setMorphMs(Math.min(60000, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+              className={`w-20 ${inputClass}`}
+            />
+          </label>
+          {morphProgress !== null && (
+            <>
+              <div className="w-24 h-2 bg-gray-700 rounded" aria-label="Morph progress">
+                <div className="h-2 bg-blue-500 rounded" style={{ width: `${morphProgress * 100}%` }} />
+              </div>
+              <button onClick={() => recaller.stop()} className={buttonClass}>Stop</button>
+            </>
+          )}
+        </div>
+      </div>
+      {selected && (
+        <div className="flex flex-wrap items-center gap-3 mt-3 pt-3 border-t border-gray-700">
+          <label className={labelClass}>
+            Name
+            <input
+              type="text"
+              value={selected.name}
+              onChange={(e) => updateScene(selected.id, { name: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className={labelClass}>
+            Program Change
+            <select
+              value={selected.programChange ?? ''}
+              onChange={(e) => updateScene(selected.id, { programChange: e.target.value === '' ? null : parseInt(e.target.value, 10) })}
+              className={inputClass}
+            >
+              <option value="">None</option>
+              {Array.from({ length: 128 }, (_, program) => (
+                <option key={program} value={program}>{program}</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-xs text-gray-500">{Object.keys(selected.values).length} cards</span>
+          <div className="flex gap-2 ml-auto">
+            <button onClick={() => updateFromCards(selected)} className={buttonClass}>Update from Cards</button>
+            <button onClick={() => removeScene(selected.id)} className={buttonClass}>Delete</button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SceneBar;
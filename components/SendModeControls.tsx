@@ -0,0 +1,49 @@
+import React from 'react';
+import type { SendMode } from '../types';
+
+interface SendModeControlsProps {
+  id: number;
+  mode: SendMode;
+  onModeChange: (mode: SendMode) => void;
+  maxRate: number;
+  onMaxRateChange: (maxRate: number) => void;
+  disabled: boolean;
+}
+
+const SendModeControls: React.FC<SendModeControlsProps> = ({ id, mode, onModeChange, maxRate, onMaxRateChange, disabled }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <div>
+      <label htmlFor={`send-mode-${id}`} className="block text-xs font-medium text-gray-400">
+        Send
+      </label>
+      <select
+        id={`send-mode-${id}`}
+        value={mode}
+        onChange={(e) => onModeChange(e.target.value as SendMode)}
+        className="mt-1 block w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        disabled={disabled}
+      >
+        <option value="release">On release</option>
+        <option value="drag">While dragging</option>
+        <option value="change">On any change</option>
+      </select>
+    </div>
+    <div>
+      <label htmlFor={`max-rate-${id}`} className="block text-xs font-medium text-gray-400">
+        Max updates/s
+      </label>
+      <input
+        type="number"
+        id={`max-rate-${id}`}
+        min="1"
+        max="1000"
+        value={maxRate}
+        onChange={(e) => onMaxRateChange(parseInt(e.target.value, 10) || 1)}
+        className="mt-1 block w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        disabled={disabled || mode === 'release'}
+      />
+    </div>
+  </div>
+);
+
+export default SendModeControls;
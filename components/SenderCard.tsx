@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import Card from './Card';
+import XIcon from './icons/XIcon';
+import DeviceTargetSelector from './DeviceTargetSelector';
+import type { DeviceSummary } from '../types';
+
+interface SenderCardProps {
+  id: number;
+  title: string;
+  description: string;
+  onDescriptionChange: (description: string) => void;
+  descriptionPlaceholder: string;
+  // Device routing is only shown when more than one device is configured.
+  devices: DeviceSummary[];
+  targets: number[];
+  onTargetsChange: (targets: number[]) => void;
+  disabled: boolean;
+  onRemove: (id: number) => void;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent, id: number) => void;
+  onDrop: (e: React.DragEvent, id: number) => void;
+  onDragEnd: (e: React.DragEvent) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Draggable frame shared by all sender cards: title, editable description, device routing and remove button.
+ */
+const SenderCard: React.FC<SenderCardProps> = ({
+  id,
+  title,
+  description,
+  onDescriptionChange,
+  descriptionPlaceholder,
+  devices,
+  targets,
+  onTargetsChange,
+  disabled,
+  onRemove,
+  isDragging,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+  children,
+}) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  return (
+    <div
+      draggable={!disabled}
+      onDragStart={(e) => onDragStart(e, id)}
+      onDrop={(e) => {
+        onDrop(e, id);
+        setIsDragOver(false);
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragEnter={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDragEnd={onDragEnd}
+      className={`h-full transition-all duration-200 cursor-grab ${isDragging ? 'opacity-30' : 'opacity-100'} ${isDragOver ? 'ring-2 ring-blue-500 rounded-lg' : ''}`}
+    >
+      <Card className="h-full">
+        <div className="flex justify-between items-start mb-4 border-b border-gray-700 pb-2">
+          <div>
+            <h2 className={`text-xl font-bold text-gray-200 ${disabled ? 'opacity-50' : ''}`}>{title}</h2>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => onDescriptionChange(e.target.value)}
+              placeholder={descriptionPlaceholder}
+              className="w-full mt-1 text-xs px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-gray-300 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+              disabled={disabled}
+              aria-label="Sender description"
+            />
+            {/* Routing and removal stay usable on a disabled card, so it can be pointed at a connected device or deleted. */}
+            {devices.length > 1 && (
+              <DeviceTargetSelector devices={devices} targets={targets} onChange={onTargetsChange} />
+            )}
+          </div>
+          <button
+            onClick={() => onRemove(id)}
+            className="text-gray-500 hover:text-red-400 transition-colors ml-2"
+            aria-label={`Remove ${title} Sender`}
+            title="Remove Sender"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className={disabled ? 'opacity-50 pointer-events-none' : ''}>
+          {children}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default SenderCard;
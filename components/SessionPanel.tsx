@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Card from './Card';
+import type { Session } from '../types';
+import { downloadBlob } from '../utils/download';
+import {
+  createSessionPlayer,
+  getSessionDuration,
+  parseSession,
+  serializeSession,
+  type SessionRecorder,
+} from '../utils/session';
+
+interface SessionPanelProps {
+  // Fed by App with every message sent and received.
+  recorder: SessionRecorder;
+  onSend: (message: Uint8Array) => void;
+  disabled: boolean;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const buttonClass = 'px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50';
+const inputClass = 'px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500';
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(3)} s`;
+
+/**
+ * Records traffic in both directions and replays the outbound side with its original timing.
+ */
+const SessionPanel: React.FC<SessionPanelProps> = ({ recorder, onSend, disabled }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(false);
+  const [rangeStart, setRangeStart] = useState(0);
+  const [rangeEnd, setRangeEnd] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const onSendRef = useRef(onSend);
+  onSendRef.current = onSend;
+
+  const player = useMemo(() => createSessionPlayer({
+    send: (message) => onSendRef.current(message),
+    onPosition: setPosition,
+    onComplete: () => setIsPlaying(false),
+  }), []);
+
+  useEffect(() => () => player.stop(), [player]);
+
+  // Playback needs a link; stop rather than silently dropping messages.
+  useEffect(() => {
+    if (disabled) {
+      player.stop();
+      setIsPlaying(false);
+    }
+  }, [disabled, player]);
+
+  // Poll the count instead of re-rendering on every recorded message.
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => setRecordedCount(recorder.getEventCount()), 250);
+    return () => clearInterval(timer);
+  }, [isRecording, recorder]);
+
+  const loadSession = (next: Session) => {
+    setSession(next);
+    setRangeStart(0);
+    setRangeEnd(getSessionDuration(next));
+    setPosition(0);
+  };
+
+  const toggleRecording = () => {
+    if (isRecording) {
+      loadSession(recorder.stop());
+      setIsRecording(false);
+    } else {
+      player.stop();
+      setIsPlaying(false);
+      recorder.start();
+      setRecordedCount(0);
+      setIsRecording(true);
+      setError(null);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      player.stop();
+      setIsPlaying(false);
+    } else if (session) {
+      setIsPlaying(true);
+      player.play(session, { speed, loop, startMs: rangeStart, endMs: rangeEnd });
+    }
+  };
+
+  const saveSession = () => {
+    if (!session) return;
+    downloadBlob(serializeSession(session), `midi-session-${new Date().toISOString().replace(/[:.]/g, '-')}.json`, 'application/json');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    try {
+      player.stop();
+      setIsPlaying(false);
+      loadSession(parseSession(await file.text()));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load session:', err);
+      setError(`Load failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const duration = session ? getSessionDuration(session) : 0;
+  const inCount = session?.events.filter(event => event.direction === 'in').length ?? 0;
+  const outCount = session ? session.events.length - inCount : 0;
+  const parseMs = (value: string) => Math.min(Math.max(Math.round(parseFloat(value) * 1000) || 0, 0), duration);
+
+  return (
+    <Card>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4 border-b border-gray-700 pb-2">
+        <h2 className="text-xl font-bold text-gray-200">Session Recorder</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={toggleRecording}
+            className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${isRecording ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+          >
+            {isRecording ? `■ Stop (${recordedCount} events)` : '● Record'}
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass} disabled={isRecording}>
+            Load
+          </button>
+          <button onClick={saveSession} className={buttonClass} disabled={!session || isRecording}>
+            Save
+          </button>
+        </div>
+      </div>
+      {error && <div className="mb-2 text-sm text-red-400 font-mono">{error}</div>}
+      {!session ? (
+        <div className="text-sm text-gray-500">
+          Record sent and received messages, or load a saved session, to replay the sent side.
+        </div>
+      ) : (
+        <div className="space-y-3 text-xs text-gray-300">
+          <div className="font-mono text-gray-400">
+            {session.events.length} events ({outCount} sent, {inCount} received), {formatSeconds(duration)}
+            {session.startedAt && `, recorded ${new Date(session.startedAt).toLocaleString()}`}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1">
+              From (s)
+              <input type="number" min="0" step="0.001" value={rangeStart / 1000} onChange={(e) => setRangeStart(parseMs(e.target.value))} className={`${inputClass} w-24`} disabled={isPlaying} />
+            </label>
+            <label className="flex items-center gap-1">
+              To (s)
+              <input type="number" min="0" step="0.001" value={rangeEnd / 1000} onChange={(e) => setRangeEnd(parseMs(e.target.value))} className={`${inputClass} w-24`} disabled={isPlaying} />
+            </label>
+            <label className="flex items-center gap-1">
+              Speed
+              <select value={speed} onChange={(e) => setSpeed(parseFloat(e.target.value))} className={inputClass} disabled={isPlaying}>
+                {SPEEDS.map(value => <option key={value} value={value}>{value}×</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} disabled={isPlaying} />
+              Loop
+            </label>
+            <button
+              onClick={togglePlayback}
+              className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors disabled:opacity-50 ${isPlaying ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-blue-600 hover:bg-blue-700 text-white'}`}
+              disabled={disabled || isRecording || outCount === 0 || rangeEnd < rangeStart}
+            >
+              {isPlaying ? '■ Stop' : '▶ Play sent messages'}
+            </button>
+          </div>
+          <div className="h-1.5 bg-gray-700 rounded">
+            <div className="h-full bg-blue-500 rounded" style={{ width: `${duration > 0 ? (position / duration) * 100 : 0}%` }} />
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SessionPanel;
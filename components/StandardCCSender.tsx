@@ -1,10 +1,26 @@
-import React, { useState, useCallback } from 'react';
-import Card from './Card';
-import XIcon from './icons/XIcon';
+import React, { useCallback, useRef } from 'react';
+import SenderCard from './SenderCard';
+import ChannelSelector from './ChannelSelector';
+import SendModeControls from './SendModeControls';
+import AutomationControls from './AutomationControls';
+import MidiLearnControls from './MidiLearnControls';
+import ParameterPicker from './ParameterPicker';
+import { useStreamingSend } from '../hooks/useStreamingSend';
+import { useLiveValue } from '../hooks/useLiveValue';
+import { controlChange } from '../utils/midiBuilder';
+import { getValueName, getValueRange } from '../utils/deviceProfiles';
+import type { DeviceProfile, DeviceSummary, ParsedMidiMessage, ProfileParameter, StandardCCParams } from '../types';
 
 interface StandardCCSenderProps {
   id: number;
+  params: StandardCCParams;
+  onParamsChange: (changes: Partial<StandardCCParams>) => void;
   onSend: (message: Uint8Array) => void;
+  // Received messages, for MIDI Learn
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  // Profiles of the target devices, for the parameter picker
+  profiles: DeviceProfile[];
+  devices: DeviceSummary[];
   disabled: boolean;
   onRemove: (id: number) => void;
   isDragging: boolean;
@@ -15,7 +31,12 @@ interface StandardCCSenderProps {
 
 const StandardCCSender: React.FC<StandardCCSenderProps> = ({ 
   id, 
+  params,
+  onParamsChange,
   onSend, 
+  subscribe,
+  profiles,
+  devices,
   disabled, 
   onRemove, 
   isDragging, 
@@ -23,106 +44,151 @@ const StandardCCSender: React.FC<StandardCCSenderProps> = ({
   onDrop, 
   onDragEnd 
 }) => {
-  const [ccNumber, setCcNumber] = useState<number>(7); // Default to Volume
-  const [ccValue, setCcValue] = useState<number>(100);
-  const [description, setDescription] = useState<string>('');
-  const [isDragOver, setIsDragOver] = useState(false);
+  const { channels, ccNumber, ccValue: storedValue, sendMode, maxRate, automation, learn, profileParameter, description } = params;
+  const live = useLiveValue(storedValue, value => onParamsChange({ ccValue: value }));
+  const ccValue = live.value;
+  const range = getValueRange(profileParameter, 7);
+  const valueName = getValueName(profileParameter, ccValue, 7);
 
-  const handleSend = useCallback(() => {
+  const sendValue = useCallback((value: number) => {
     if (disabled) return;
-    // MIDI CC on channel 1 is 0xB0
-    const message = new Uint8Array([0xB0, ccNumber, ccValue]);
-    onSend(message);
-  }, [ccNumber, ccValue, onSend, disabled]);
-  
-  const handleDebouncedValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCcValue(parseInt(e.target.value, 10));
+    channels.forEach(channel => onSend(controlChange(channel, ccNumber, value)));
+  }, [channels, ccNumber, onSend, disabled]);
+
+  const stream = useStreamingSend(sendValue, sendMode, maxRate);
+
+  // Automation moves the slider and sends directly; its tick rate already follows maxRate.
+  const lastAutomatedValueRef = useRef<number | null>(null);
+  const handleAutomationValue = useCallback((normalized: number) => {
+    const value = Math.round(range.min + normalized * (range.max - range.min));
+    live.set(value);
+    if (value !== lastAutomatedValueRef.current) {
+      lastAutomatedValueRef.current = value;
+      sendValue(value);
+    }
+  }, [sendValue, live.set, range.min, range.max]);
+
+  // A learned control moves the slider; its values are sent at most maxRate times per second.
+  const handleLearnValue = (normalized: number) => {
+    const value = Math.round(range.min + normalized * (range.max - range.min));
+    live.set(value);
+    stream.schedule(value);
+  };
+
+  const pickParameter = (parameter: ProfileParameter) => {
+    const { min, max } = getValueRange(parameter, 7);
+    const clamped = Math.min(max, Math.max(min, ccValue));
+    live.cancel();
+    onParamsChange({
+      ccNumber: parameter.number,
+      description: parameter.name,
+      profileParameter: parameter,
+      ccValue: clamped,
+    });
+    stream.onSet(clamped);
+  };
+
+  const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    live.cancel();
+    onParamsChange({ ccValue: value });
+    stream.onChange(value);
   };
 
   return (
-    <div
-      draggable={!disabled}
-      onDragStart={(e) => onDragStart(e, id)}
-      onDrop={(e) => {
-        onDrop(e, id);
-        setIsDragOver(false);
-      }}
-      onDragOver={(e) => {
-        e.preventDefault();
-        setIsDragOver(true);
-      }}
-      onDragEnter={(e) => {
-        e.preventDefault();
-        setIsDragOver(true);
-      }}
-      onDragLeave={() => setIsDragOver(false)}
+    <SenderCard
+      id={id}
+      title="Standard CC (7-bit)"
+      description={description}
+      onDescriptionChange={(description) => onParamsChange({ description })}
+      descriptionPlaceholder="Add a description (e.g., Volume)"
+      devices={devices}
+      targets={params.targets}
+      onTargetsChange={(targets) => onParamsChange({ targets })}
+      disabled={disabled}
+      onRemove={onRemove}
+      isDragging={isDragging}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
       onDragEnd={onDragEnd}
-      className={`h-full transition-all duration-200 cursor-grab ${isDragging ? 'opacity-30' : 'opacity-100'} ${isDragOver ? 'ring-2 ring-blue-500 rounded-lg' : ''}`}
     >
-      <Card className={`h-full ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
-        <div className="flex justify-between items-start mb-4 border-b border-gray-700 pb-2">
-          <div>
-            <h2 className="text-xl font-bold text-gray-200">Standard CC (7-bit)</h2>
-            <input
-              type="text"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Add a description (e.g., Volume)"
-              className="w-full mt-1 text-xs px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-gray-300 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-              disabled={disabled}
-              aria-label="Sender description"
-            />
-          </div>
-          <button
-            onClick={() => onRemove(id)}
-            className="text-gray-500 hover:text-red-400 transition-colors ml-2"
-            aria-label="Remove Standard CC Sender"
-            title="Remove Sender"
-          >
-            <XIcon className="w-5 h-5" />
-          </button>
+      <div className="space-y-4">
+        <ChannelSelector id={id} channels={channels} onChange={(channels) => onParamsChange({ channels })} disabled={disabled} />
+        <ParameterPicker
+          id={id}
+          profiles={profiles}
+          kinds={['cc']}
+          selected={profileParameter}
+          onPick={pickParameter}
+          disabled={disabled}
+        />
+        <div>
+          <label htmlFor={`cc-number-${id}`} className="block text-sm font-medium text-gray-300">
+            CC Number
+          </label>
+          <input
+            type="number"
+            id={`cc-number-${id}`}
+            min="0"
+            max="127"
+            value={ccNumber}
+            onChange={(e) => onParamsChange({ ccNumber: parseInt(e.target.value, 10), profileParameter: null })}
+            className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor={`cc-value-${id}`} className="block text-sm font-medium text-gray-300">
+            Value: <span className="font-mono text-blue-400">{ccValue}</span>
+            {valueName && <span className="ml-2 text-gray-400">{valueName}</span>}
+          </label>
+          <input
+            type="range"
+            id={`cc-value-${id}`}
+            min={range.min}
+            max={range.max}
+            value={ccValue}
+            onChange={handleValueChange}
+            onPointerDown={stream.onPointerDown}
+            onMouseUp={() => stream.commit(ccValue)}
+            onTouchEnd={() => stream.commit(ccValue)}
+            onKeyUp={(e) => stream.onKeyUp(e.key, ccValue)}
+            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
+            disabled={disabled}
+          />
         </div>
-        <div className="space-y-4">
-          <div>
-            <label htmlFor={`cc-number-${id}`} className="block text-sm font-medium text-gray-300">
-              CC Number
-            </label>
-            <input
-              type="number"
-              id={`cc-number-${id}`}
-              min="0"
-              max="127"
-              value={ccNumber}
-              onChange={(e) => setCcNumber(parseInt(e.target.value, 10))}
-              className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-              disabled={disabled}
-            />
-          </div>
-          <div>
-            <label htmlFor={`cc-value-${id}`} className="block text-sm font-medium text-gray-300">
-              Value: <span className="font-mono text-blue-400">{ccValue}</span>
-            </label>
-            <input
-              type="range"
-              id={`cc-value-${id}`}
-              min="0"
-              max="127"
-              value={ccValue}
-              onChange={handleDebouncedValueChange}
-              onMouseUp={handleSend}
-              onTouchEnd={handleSend}
-              className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer"
-              disabled={disabled}
-            />
-          </div>
-          {/* Placeholder to match height with HighResCCSender */}
-          <div className="text-xs font-mono p-3 rounded-md invisible" aria-hidden="true">
-            <div>&nbsp;</div>
-            <div>&nbsp;</div>
-          </div>
+        <SendModeControls
+          id={id}
+          mode={sendMode}
+          onModeChange={(sendMode) => onParamsChange({ sendMode })}
+          maxRate={maxRate}
+          onMaxRateChange={(maxRate) => onParamsChange({ maxRate })}
+          disabled={disabled}
+        />
+        <AutomationControls
+          id={id}
+          config={automation}
+          onConfigChange={(automation) => onParamsChange({ automation })}
+          updateRate={maxRate}
+          onValue={handleAutomationValue}
+          disabled={disabled}
+        />
+        <MidiLearnControls
+          id={id}
+          binding={learn}
+          onBindingChange={(learn) => onParamsChange({ learn })}
+          subscribe={subscribe}
+          highRes={false}
+          onValue={handleLearnValue}
+          disabled={disabled}
+        />
+        {/* Placeholder to match height with HighResCCSender */}
+        <div className="text-xs font-mono p-3 rounded-md invisible" aria-hidden="true">
+          <div>&nbsp;</div>
+          <div>&nbsp;</div>
         </div>
-      </Card>
-    </div>
+      </div>
+    </SenderCard>
   );
 };
 
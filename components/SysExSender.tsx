@@ -0,0 +1,135 @@
+import React, { useState, useMemo, useRef } from 'react';
+import SenderCard from './SenderCard';
+import { formatHex, parseHexBytes, splitSysExMessages } from '../utils/sysex';
+import type { DeviceSummary, SysExParams } from '../types';
+
+interface SysExSenderProps {
+  id: number;
+  params: SysExParams;
+  onParamsChange: (changes: Partial<SysExParams>) => void;
+  onSend: (message: Uint8Array) => void;
+  devices: DeviceSummary[];
+  disabled: boolean;
+  onRemove: (id: number) => void;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent, id: number) => void;
+  onDrop: (e: React.DragEvent, id: number) => void;
+  onDragEnd: (e: React.DragEvent) => void;
+}
+
+const SysExSender: React.FC<SysExSenderProps> = ({
+  id,
+  params,
+  onParamsChange,
+  onSend,
+  devices,
+  disabled,
+  onRemove,
+  isDragging,
+  onDragStart,
+  onDrop,
+  onDragEnd
+}) => {
+  const { hexInput, description } = params;
+  const [loadedFileName, setLoadedFileName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => {
+    try {
+      return { messages: splitSysExMessages(parseHexBytes(hexInput)), error: null };
+    } catch (error) {
+      return { messages: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [hexInput]);
+
+  const totalBytes = parsed.messages.reduce((sum, message) => sum + message.length, 0);
+
+  const handleSend = () => {
+    if (disabled || parsed.error) return;
+    parsed.messages.forEach(message => onSend(message));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    onParamsChange({ hexInput: formatHex(bytes) });
+    setLoadedFileName(file.name);
+    // Allow re-selecting the same file after editing the hex.
+    e.target.value = '';
+  };
+
+  return (
+    <SenderCard
+      id={id}
+      title="SysEx"
+      description={description}
+      onDescriptionChange={(description) => onParamsChange({ description })}
+      descriptionPlaceholder="Add a description (e.g., Patch Dump)"
+      devices={devices}
+      targets={params.targets}
+      onTargetsChange={(targets) => onParamsChange({ targets })}
+      disabled={disabled}
+      onRemove={onRemove}
+      isDragging={isDragging}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+    >
+      <div className="space-y-4">
+        <div>
+          <label htmlFor={`sysex-hex-${id}`} className="block text-sm font-medium text-gray-300">
+            Hex Bytes {loadedFileName && <span className="text-xs text-gray-500">({loadedFileName})</span>}
+          </label>
+          <textarea
+            id={`sysex-hex-${id}`}
+            rows={3}
+            value={hexInput}
+            onChange={(e) => {
+              onParamsChange({ hexInput: e.target.value });
+              setLoadedFileName(null);
+            }}
+            spellCheck={false}
+            className="mt-1 block w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white font-mono text-xs placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            disabled={disabled}
+          />
+        </div>
+        <div className="text-xs text-gray-400 font-mono p-3 bg-gray-900 rounded-md">
+          {parsed.error ? (
+            <div className="text-red-400">{parsed.error}</div>
+          ) : (
+            <>
+              <div>Messages: {parsed.messages.length}</div>
+              <div>Total Bytes: {totalBytes}</div>
+            </>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".syx,application/octet-stream"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 px-3 py-2 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors"
+            disabled={disabled}
+          >
+            Load .syx
+          </button>
+          <button
+            onClick={handleSend}
+            className="flex-1 px-3 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            disabled={disabled || !!parsed.error || parsed.messages.length === 0}
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    </SenderCard>
+  );
+};
+
+export default SysExSender;
@@ -0,0 +1,381 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Card from './Card';
+import type { DeviceSummary, ParsedMidiMessage, TestSequence, TestStep, TestStepResult, TestStepType, TransportWrite } from '../types';
+import { downloadBlob } from '../utils/download';
+import {
+  createDefaultTestSequence,
+  createPendingResults,
+  createTestSequenceRun,
+  createTestStep,
+  describeTestStep,
+  loadStoredTestSequence,
+  parseTestSequence,
+  serializeTestSequence,
+  storeTestSequence,
+  validateTestStep,
+  type TestSequenceRun,
+} from '../utils/testSequence';
+
+interface TestSequencePanelProps {
+  devices: DeviceSummary[];
+  // Returns false when the message reached no connected device.
+  onSend: (message: Uint8Array, targets: number[]) => boolean;
+  // Delivers every batch of received messages.
+  subscribe: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  // Delivers every completed transport write.
+  subscribeWrites: (listener: (write: TransportWrite) => void) => () => void;
+}
+
+const STEP_TYPES: { type: TestStepType; label: string }[] = [
+  { type: 'send', label: 'Send' },
+  { type: 'wait', label: 'Wait' },
+  { type: 'expect', label: 'Expect' },
+];
+
+const STATUS_CLASSES: Record<TestStepResult['status'], string> = {
+  pending: 'text-gray-500',
+  running: 'text-blue-400',
+  pass: 'text-green-400',
+  fail: 'text-red-400',
+  skipped: 'text-gray-500',
+};
+
+const buttonClass = 'px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors disabled:opacity-50';
+const inputClass = 'px-2 py-1 text-xs bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+const labelClass = 'flex items-center gap-1 text-xs text-gray-400';
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : `${ms.toFixed(1)} ms`);
+
+/**
+ * Edits and runs an ordered list of send / wait / expect steps against one device, turning
+ * the simulator into a conformance tester with a pass/fail report per step.
+ */
+const TestSequencePanel: React.FC<TestSequencePanelProps> = ({ devices, onSend, subscribe, subscribeWrites }) => {
+  const [sequence, setSequence] = useState<TestSequence>(() => loadStoredTestSequence() ?? createDefaultTestSequence());
+  const [deviceId, setDeviceId] = useState<number | null>(null);
+  const [results, setResults] = useState<TestStepResult[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runAt, setRunAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runRef = useRef<TestSequenceRun | null>(null);
+  const onSendRef = useRef(onSend);
+  onSendRef.current = onSend;
+
+  // Fall back to the first device when none is chosen or the chosen one was removed.
+  const device = devices.find(candidate => candidate.id === deviceId) ?? devices[0];
+  const targetId = device?.id ?? null;
+  const isConnected = device?.connected ?? false;
+  const targetIdRef = useRef(targetId);
+  targetIdRef.current = targetId;
+
+  useEffect(() => {
+    storeTestSequence(sequence);
+  }, [sequence]);
+
+  useEffect(() => subscribe(messages => {
+    messages
+      .filter(message => message.source === targetIdRef.current)
+      .forEach(message => runRef.current?.handleMessage(message));
+  }), [subscribe]);
+
+  useEffect(() => subscribeWrites(write => runRef.current?.handleWrite(write)), [subscribeWrites]);
+
+  const stopRun = () => {
+    runRef.current?.stop();
+    runRef.current = null;
+    setIsRunning(false);
+  };
+
+  useEffect(() => () => runRef.current?.stop(), []);
+
+  // Without a link every expectation would just time out.
+  useEffect(() => {
+    if (!isConnected) stopRun();
+  }, [isConnected]);
+
+  const startRun = () => {
+    stopRun();
+    setIsRunning(true);
+    setRunAt(new Date().toISOString());
+    runRef.current = createTestSequenceRun({
+      sequence,
+      send: (message) => targetIdRef.current !== null && onSendRef.current(message, [targetIdRef.current]),
+      onUpdate: setResults,
+      onComplete: (final) => {
+        setResults(final);
+        runRef.current = null;
+        setIsRunning(false);
+      },
+    });
+  };
+
+  // Results belong to the steps they were produced for, so editing discards them.
+  const updateSequence = (changes: Partial<TestSequence>) => {
+    setSequence((prev: TestSequence) => ({ ...prev, ...changes }));
+    if (changes.steps) setResults(null);
+  };
+
+  const updateStep = (id: number, changes: Partial<TestStep>) => {
+    updateSequence({ steps: sequence.steps.map(step => (step.id === id ? { ...step, ...changes } as TestStep : step)) });
+  };
+
+  const changeStepType = (id: number, type: TestStepType) => {
+    updateSequence({ steps: sequence.steps.map(step => (step.id === id ? createTestStep(type, id) : step)) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= sequence.steps.length) return;
+    const steps = [...sequence.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    updateSequence({ steps });
+  };
+
+  const saveSequence = () => {
+    const fileName = (sequence.name.trim() || 'test-sequence').replace(/[^\w-]+/g, '-');
+    downloadBlob(serializeTestSequence(sequence), `${fileName}.json`, 'application/json');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    try {
+      stopRun();
+      setSequence(parseTestSequence(await file.text()));
+      setResults(null);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load test sequence:', err);
+      setError(`Load failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const shownResults = results ?? createPendingResults(sequence.steps);
+  const passed = shownResults.filter(result => result.status === 'pass').length;
+  const failed = shownResults.filter(result => result.status === 'fail').length;
+  const totalMs = shownResults.reduce<number | null>(
+    (end, result) => (result.startedAt === null || result.durationMs === null ? end : Math.max(end ?? 0, result.startedAt + result.durationMs)),
+    null,
+  );
+
+  const downloadReport = () => {
+    const report = {
+      sequence: sequence.name,
+      runAt,
+      device: device?.name ?? null,
+      passed,
+      failed,
+      totalMs,
+      steps: sequence.steps.map((step, index) => ({ step: describeTestStep(step), ...shownResults[index] })),
+    };
+    downloadBlob(JSON.stringify(report, null, 2), 'ble-midi-test-report.json', 'application/json');
+  };
+
+  const renderStepFields = (step: TestStep) => {
+    switch (step.type) {
+      case 'send':
+        return (
+          <input
+            type="text"
+            value={step.hex}
+            onChange={(e) => updateStep(step.id, { hex: e.target.value })}
+            placeholder="B0 07 64"
+            disabled={isRunning}
+            className={`flex-1 min-w-0 font-mono ${inputClass}`}
+            aria-label="Message bytes"
+          />
+        );
+      case 'wait':
+        return (
+          <label className={labelClass}>
+            <input
+              type="number"
+              value={step.ms}
+              min={0}
+              onChange={(e) => updateStep(step.id, { ms: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              disabled={isRunning}
+              className={`w-20 ${inputClass}`}
+            />
+            ms
+          </label>
+        );
+      case 'expect':
+        return (
+          <>
+            <label className={labelClass}>
+              <input
+                type="checkbox"
+                checked={step.echo}
+                onChange={(e) => updateStep(step.id, { echo: e.target.checked })}
+                disabled={isRunning}
+              />
+              Echo
+            </label>
+            {!step.echo && (
+              <input
+                type="text"
+                value={step.pattern}
+                onChange={(e) => updateStep(step.id, { pattern: e.target.value })}
+                placeholder="F0 7D ?? F7"
+                disabled={isRunning}
+                className={`flex-1 min-w-0 font-mono ${inputClass}`}
+                aria-label="Expected pattern"
+              />
+            )}
+            <label className={labelClass}>
+              within
+              <input
+                type="number"
+                value={step.timeoutMs}
+                min={1}
+                onChange={(e) => updateStep(step.id, { timeoutMs: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                disabled={isRunning}
+                className={`w-20 ${inputClass}`}
+              />
+              ms
+            </label>
+          </>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
+        <h2 className="text-xl font-bold text-gray-200">Test Sequence</h2>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button onClick={() => fileInputRef.current?.click()} disabled={isRunning} className={buttonClass}>Load</button>
+          <button onClick={saveSequence} className={buttonClass}>Save</button>
+          <button onClick={downloadReport} disabled={results === null} className={buttonClass}>Download Report</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <label className={labelClass}>
+          Name
+          <input
+            type="text"
+            value={sequence.name}
+            onChange={(e) => updateSequence({ name: e.target.value })}
+            disabled={isRunning}
+            className={inputClass}
+          />
+        </label>
+        {devices.length > 1 && (
+          <label className={labelClass}>
+            Device
+            <select
+              value={targetId ?? ''}
+              onChange={(e) => setDeviceId(parseInt(e.target.value, 10))}
+              disabled={isRunning}
+              className={inputClass}
+            >
+              {devices.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className={labelClass}>
+          <input
+            type="checkbox"
+            checked={sequence.stopOnFailure}
+            onChange={(e) => updateSequence({ stopOnFailure: e.target.checked })}
+            disabled={isRunning}
+          />
+          Stop on first failure
+        </label>
+        {isRunning ? (
+          <button onClick={stopRun} className={buttonClass}>Stop</button>
+        ) : (
+          <button onClick={startRun} disabled={!isConnected || sequence.steps.length === 0} className={buttonClass}>Run</button>
+        )}
+        {results && (
+          <span className={`text-xs font-mono ${failed > 0 ? 'text-red-400' : 'text-gray-300'}`}>
+            {passed}/{sequence.steps.length} passed{failed > 0 && `, ${failed} failed`} · {formatMs(totalMs)}
+          </span>
+        )}
+      </div>
+      {!isConnected && (
+        <p className="text-xs text-gray-500 mb-4">Connect the device under test to run the sequence.</p>
+      )}
+      {error && <div className="text-xs text-red-400 font-mono mb-4">{error}</div>}
+
+      <ol className="space-y-2">
+        {sequence.steps.map((step, index) => {
+          const result = shownResults[index];
+          const invalid = validateTestStep(step);
+          return (
+            <li key={step.id} className="p-2 bg-gray-900 rounded-md">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="w-6 text-xs text-gray-500 font-mono">{index + 1}</span>
+                <select
+                  value={step.type}
+                  onChange={(e) => changeStepType(step.id, e.target.value as TestStepType)}
+                  disabled={isRunning}
+                  className={inputClass}
+                  aria-label="Step type"
+                >
+                  {STEP_TYPES.map(({ type, label }) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                {renderStepFields(step)}
+                <div className="flex items-center gap-1 ml-auto">
+                  <button onClick={() => moveStep(index, -1)} disabled={isRunning || index === 0} className={buttonClass} aria-label="Move step up">↑</button>
+                  <button onClick={() => moveStep(index, 1)} disabled={isRunning || index === sequence.steps.length - 1} className={buttonClass} aria-label="Move step down">↓</button>
+                  <button
+                    onClick={() => updateSequence({ steps: sequence.steps.filter(candidate => candidate.id !== step.id) })}
+                    disabled={isRunning}
+                    className={buttonClass}
+                    aria-label="Remove step"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-x-4 mt-1 pl-8 text-xs font-mono">
+                <span className="text-gray-400">{describeTestStep(step)}</span>
+                {invalid ? (
+                  <span className="text-red-400">{invalid}</span>
+                ) : (
+                  <>
+                    <span className={STATUS_CLASSES[result.status]}>{result.status.toUpperCase()}</span>
+                    {result.startedAt !== null && <span className="text-gray-500">@ {formatMs(result.startedAt)}</span>}
+                    {result.durationMs !== null && <span className="text-gray-500">took {formatMs(result.durationMs)}</span>}
+                    {result.detail && <span className="text-gray-300">{result.detail}</span>}
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex gap-2 mt-3">
+        {STEP_TYPES.map(({ type, label }) => (
+          <button
+            key={type}
+            onClick={() => updateSequence({ steps: [...sequence.steps, createTestStep(type)] })}
+            disabled={isRunning}
+            className={buttonClass}
+          >
+            + {label}
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default TestSequencePanel;
@@ -0,0 +1,86 @@
+import React from 'react';
+import Card from './Card';
+import type { DeviceSummary, ThruRoute } from '../types';
+
+interface ThruMatrixProps {
+  devices: DeviceSummary[];
+  routes: ThruRoute[];
+  onRoutesChange: (routes: ThruRoute[]) => void;
+}
+
+const OFF = 'off';
+const KEEP = 'keep';
+
+const cellSelectClassName = "w-full px-1 py-1 bg-gray-700 border border-gray-600 rounded-md text-white text-xs focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+/**
+ * Source x destination grid for MIDI thru. Each cell forwards everything the source device
+ * sends to the destination, optionally moving channel messages to a single channel.
+ */
+const ThruMatrix: React.FC<ThruMatrixProps> = ({ devices, routes, onRoutesChange }) => {
+  const findRoute = (from: number, to: number) => routes.find(route => route.from === from && route.to === to);
+
+  const setCell = (from: number, to: number, value: string) => {
+    const others = routes.filter(route => !(route.from === from && route.to === to));
+    if (value === OFF) {
+      onRoutesChange(others);
+    } else {
+      onRoutesChange([...others, { from, to, channel: value === KEEP ? null : parseInt(value, 10) }]);
+    }
+  };
+
+  const cellValue = (route: ThruRoute | undefined) => {
+    if (!route) return OFF;
+    return route.channel === null ? KEEP : String(route.channel);
+  };
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
+        <h2 className="text-xl font-bold text-gray-200">MIDI Thru</h2>
+        <span className="text-xs text-gray-500">Rows forward to columns</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="text-xs text-gray-300">
+          <thead>
+            <tr>
+              <th className="p-1 text-left text-gray-500 font-normal">From \ To</th>
+              {devices.map(device => (
+                <th key={device.id} className="p-1 text-left font-semibold">{device.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {devices.map(from => (
+              <tr key={from.id}>
+                <th className="p-1 text-left font-semibold">{from.name}</th>
+                {devices.map(to => (
+                  <td key={to.id} className="p-1">
+                    {from.id === to.id ? (
+                      <span className="text-gray-600">—</span>
+                    ) : (
+                      <select
+                        value={cellValue(findRoute(from.id, to.id))}
+                        onChange={(e) => setCell(from.id, to.id, e.target.value)}
+                        className={cellSelectClassName}
+                        aria-label={`Thru from ${from.name} to ${to.name}`}
+                      >
+                        <option value={OFF}>Off</option>
+                        <option value={KEEP}>Thru (same channel)</option>
+                        {Array.from({ length: 16 }, (_, i) => i + 1).map(channel => (
+                          <option key={channel} value={channel}>Thru → Ch {channel}</option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+export default ThruMatrix;
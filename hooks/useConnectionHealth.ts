@@ -0,0 +1,34 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ConnectionHealth, MidiDeviceState } from '../types';
+
+/**
+ * Tracks uptime, drop count and the last error from the stream of device states.
+ * Leaving 'connected' for 'reconnecting' or 'error' counts as a drop; a user disconnect does not.
+ */
+export const useConnectionHealth = (deviceState: MidiDeviceState): ConnectionHealth => {
+  const [health, setHealth] = useState<ConnectionHealth>({ connectedSince: null, dropCount: 0, lastError: null });
+  const previousStatusRef = useRef(deviceState.status);
+
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current;
+    const { status, error } = deviceState;
+    previousStatusRef.current = status;
+
+    setHealth((prev: ConnectionHealth) => {
+      const isDrop = previousStatus === 'connected' && (status === 'reconnecting' || status === 'error');
+      let connectedSince = prev.connectedSince;
+      if (status === 'connected') {
+        connectedSince = previousStatus === 'connected' ? connectedSince : Date.now();
+      } else {
+        connectedSince = null;
+      }
+      return {
+        connectedSince,
+        dropCount: prev.dropCount + (isDrop ? 1 : 0),
+        lastError: error ?? prev.lastError,
+      };
+    });
+  }, [deviceState]);
+
+  return health;
+};
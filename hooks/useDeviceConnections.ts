@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createWebBluetoothTransport } from '../transports/webBluetoothTransport';
+import { createWebMidiTransport } from '../transports/webMidiTransport';
+import { createPeripheralTransport } from '../transports/peripheralTransport';
+import {
+  createLoopbackTransport,
+  createScriptedResponder,
+  echoResponder,
+  parseLoopbackScript,
+  silentResponder,
+  type LoopbackResponder,
+} from '../transports/loopbackTransport';
+import type {
+  BleLinkSettings,
+  DeviceSlot,
+  DeviceSummary,
+  MidiDeviceState,
+  MidiTransport,
+  ParsedMidiMessage,
+  TransportSettings,
+  TransportWrite,
+} from '../types';
+
+export const DEFAULT_TRANSPORT_SETTINGS: TransportSettings = {
+  kind: 'bluetooth',
+  webMidiPortName: '',
+  loopbackMode: 'echo',
+  loopbackScript: '# <pattern> => <reply>, "??" matches any byte\nB0 07 ?? => B0 07 00',
+  peripheralUrl: 'ws://localhost:8765',
+  peripheralName: 'BLE MIDI Simulator',
+  peripheralScript: '# <pattern> => <reply>, answered by the companion without a round trip\n',
+};
+
+const DISCONNECTED: MidiDeviceState = { device: null, status: 'disconnected' };
+
+export interface DeviceConnection extends DeviceSlot {
+  state: MidiDeviceState;
+}
+
+interface DeviceConnectionsOptions {
+  getLinkSettings: () => BleLinkSettings;
+  // Receives every incoming batch, each message tagged with its source connection id.
+  onMessages: (messages: ParsedMidiMessage[], source: number) => void;
+  // Receives every write (or failed send) to a connection.
+  onWrite: (write: TransportWrite, target: number) => void;
+}
+
+interface OpenTransport {
+  kind: TransportSettings['kind'];
+  transport: MidiTransport;
+  close: () => void;
+}
+
+const getLoopbackResponder = (settings: TransportSettings): LoopbackResponder => {
+  switch (settings.loopbackMode) {
+    case 'silent':
+      return silentResponder;
+    case 'script':
+      try {
+        return createScriptedResponder(parseLoopbackScript(settings.loopbackScript));
+      } catch (error) {
+        console.warn('Invalid loopback script:', error);
+        return silentResponder;
+      }
+    case 'echo':
+    default:
+      return echoResponder;
+  }
+};
+
+export const getDeviceName = (connection: DeviceConnection): string =>
+  connection.state.device?.name || `Device ${connection.id}`;
+
+/**
+ * Owns one transport per configured device, so several devices can be connected at once.
+ * A connection's transport is recreated when its kind changes; other settings are read live.
+ */
+export const useDeviceConnections = ({ getLinkSettings, onMessages, onWrite }: DeviceConnectionsOptions) => {
+  const [slots, setSlots] = useState<DeviceSlot[]>([{ id: 1, settings: DEFAULT_TRANSPORT_SETTINGS }]);
+  const [states, setStates] = useState<Record<number, MidiDeviceState>>({});
+
+  // Transports read the latest settings and callbacks through refs.
+  const slotsRef = useRef(slots);
+  slotsRef.current = slots;
+  const statesRef = useRef(states);
+  statesRef.current = states;
+  const optionsRef = useRef({ getLinkSettings, onMessages, onWrite });
+  optionsRef.current = { getLinkSettings, onMessages, onWrite };
+  const transportsRef = useRef<Map<number, OpenTransport>>(new Map());
+
+  const setState = useCallback((id: number, state: MidiDeviceState) => {
+    setStates((prev: Record<number, MidiDeviceState>) => ({ ...prev, [id]: state }));
+  }, []);
+
+  const openTransport = useCallback((id: number, kind: TransportSettings['kind']): OpenTransport => {
+    const getSettings = () => slotsRef.current.find(slot => slot.id === id)?.settings ?? DEFAULT_TRANSPORT_SETTINGS;
+    let transport: MidiTransport;
+    switch (kind) {
+      case 'web-midi':
+        transport = createWebMidiTransport({ getPortName: () => getSettings().webMidiPortName });
+        break;
+      case 'loopback':
+        transport = createLoopbackTransport({ getResponder: () => getLoopbackResponder(getSettings()) });
+        break;
+      case 'peripheral':
+        transport = createPeripheralTransport({ getSettings });
+        break;
+      case 'bluetooth':
+      default:
+        transport = createWebBluetoothTransport({ getLinkSettings: () => optionsRef.current.getLinkSettings() });
+    }
+
+    const unsubscribeMessages = transport.onMessage(messages => {
+      optionsRef.current.onMessages(messages.map(message => ({ ...message, source: id })), id);
+    });
+    const unsubscribeStatus = transport.onStatusChange(state => setState(id, state));
+    const unsubscribeWrites = transport.onWrite(write => optionsRef.current.onWrite(write, id));
+    const close = () => {
+      unsubscribeMessages();
+      unsubscribeStatus();
+      unsubscribeWrites();
+      transport.disconnect();
+    };
+    return { kind, transport, close };
+  }, [setState]);
+
+  // Keep exactly one open transport per slot, of the slot's kind.
+  useEffect(() => {
+    const transports: Map<number, OpenTransport> = transportsRef.current;
+    for (const slot of slots) {
+      const existing = transports.get(slot.id);
+      if (existing?.kind === slot.settings.kind) continue;
+      if (existing) {
+        existing.close();
+        setState(slot.id, DISCONNECTED);
+      }
+      transports.set(slot.id, openTransport(slot.id, slot.settings.kind));
+    }
+    for (const [id, open] of Array.from(transports.entries())) {
+      if (!slots.some(slot => slot.id === id)) {
+        open.close();
+        transports.delete(id);
+      }
+    }
+  }, [slots, openTransport, setState]);
+
+  useEffect(() => () => {
+    transportsRef.current.forEach((open: OpenTransport) => open.close());
+    transportsRef.current.clear();
+  }, []);
+
+  const addDevice = useCallback(() => {
+    setSlots((prev: DeviceSlot[]) => [
+      ...prev,
+      { id: Math.max(0, ...prev.map(slot => slot.id)) + 1, settings: DEFAULT_TRANSPORT_SETTINGS },
+    ]);
+  }, []);
+
+  const removeDevice = useCallback((id: number) => {
+    setSlots((prev: DeviceSlot[]) => (prev.length > 1 ? prev.filter(slot => slot.id !== id) : prev));
+    setStates((prev: Record<number, MidiDeviceState>) => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const updateSettings = useCallback((id: number, settings: TransportSettings) => {
+    setSlots((prev: DeviceSlot[]) => prev.map(slot => (slot.id === id ? { ...slot, settings } : slot)));
+  }, []);
+
+  const connect = useCallback((id: number) => {
+    transportsRef.current.get(id)?.transport.connect();
+  }, []);
+
+  const disconnect = useCallback((id: number) => {
+    transportsRef.current.get(id)?.transport.disconnect();
+  }, []);
+
+  const isConnected = useCallback((id: number) => statesRef.current[id]?.status === 'connected', []);
+
+  /**
+   * Sends to the given connections, or to every connected device when `targets` is empty or
+   * names only removed connections. Returns the ids the message was actually sent to.
+   */
+  const send = useCallback((message: Uint8Array, targets: number[] = []): number[] => {
+    const all = slotsRef.current.map(slot => slot.id);
+    const known = targets.filter(id => all.includes(id));
+    const ids = known.length > 0 ? known : all;
+    const sentTo = ids.filter(isConnected);
+    sentTo.forEach(id => transportsRef.current.get(id)?.transport.send(message));
+    return sentTo;
+  }, [isConnected]);
+
+  const reportError = useCallback((id: number, error: string) => {
+    setState(id, { device: null, status: 'error', error });
+  }, [setState]);
+
+  const connections: DeviceConnection[] = slots.map(slot => ({ ...slot, state: states[slot.id] ?? DISCONNECTED }));
+  const devices: DeviceSummary[] = connections.map(connection => ({
+    id: connection.id,
+    name: getDeviceName(connection),
+    connected: connection.state.status === 'connected',
+  }));
+
+  return { connections, devices, addDevice, removeDevice, updateSettings, connect, disconnect, send, reportError };
+};
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// A value that keeps changing is written to the card's params at most this often.
+const COMMIT_INTERVAL_MS = 500;
+
+/**
+ * A card value that automation or MIDI Learn can change hundreds of times per second. The
+ * slider follows every animation frame, while the card's params (and with them the App and
+ * the saved workspace) only receive the latest value every COMMIT_INTERVAL_MS.
+ */
+export const useLiveValue = (stored: number, commit: (value: number) => void) => {
+  const [live, setLive] = useState<number | null>(null);
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
+  const latestRef = useRef<number | null>(null);
+  const frameRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const cancel = useCallback(() => {
+    cancelAnimationFrame(frameRef.current);
+    frameRef.current = 0;
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    latestRef.current = null;
+    setLive(null);
+  }, []);
+
+  const set = useCallback((value: number) => {
+    latestRef.current = value;
+    if (!frameRef.current) {
+      frameRef.current = requestAnimationFrame(() => {
+        frameRef.current = 0;
+        setLive(latestRef.current);
+      });
+    }
+    if (timerRef.current === null) {
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        if (latestRef.current !== null) commitRef.current(latestRef.current);
+      }, COMMIT_INTERVAL_MS);
+    }
+  }, []);
+
+  // Once the params have caught up, they are shown again, so e.g. a recalled scene is not hidden.
+  useEffect(() => {
+    if (timerRef.current === null) setLive(null);
+  }, [stored]);
+
+  // A value still waiting when the card goes away is not lost.
+  useEffect(() => () => {
+    cancelAnimationFrame(frameRef.current);
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      if (latestRef.current !== null) commitRef.current(latestRef.current);
+    }
+  }, []);
+
+  return {
+    value: live ?? stored,
+    // Sets a value from automation or MIDI Learn.
+    set,
+    // Drops the live value, for changes the card makes to its params directly.
+    cancel,
+  };
+};
@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { createRateLimiter } from '../utils/rateLimiter';
+import type { SendMode } from '../types';
+
+// Keys that adjust a range input.
+const ADJUST_KEYS = new Set(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'PageUp', 'PageDown', 'Home', 'End']);
+
+/**
+ * Decides when a slider value is sent, according to the card's send mode, and limits the
+ * message rate so streaming values cannot flood the link.
+ *
+ * - 'release': only the final value, when the pointer is released or a key adjustment ends
+ * - 'drag':    continuously while the pointer is held, plus the final value
+ * - 'change':  on every change, whatever caused it
+ */
+export const useStreamingSend = <T>(send: (value: T) => void, mode: SendMode, maxRatePerSecond: number) => {
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  const intervalRef = useRef(0);
+  intervalRef.current = 1000 / Math.max(maxRatePerSecond, 1);
+  const isPointerDownRef = useRef(false);
+  const lastSentRef = useRef<{ value: T } | null>(null);
+
+  const limiter = useMemo(
+    () => createRateLimiter<T>(value => {
+      lastSentRef.current = { value };
+      sendRef.current(value);
+    }, () => intervalRef.current),
+    [],
+  );
+
+  useEffect(() => () => limiter.cancel(), [limiter]);
+
+  // A value set in code goes out after the render that applies it, so that `send` already
+  // addresses e.g. a newly picked parameter.
+  const pendingSetRef = useRef<{ value: T } | null>(null);
+  useEffect(() => {
+    const pending = pendingSetRef.current;
+    pendingSetRef.current = null;
+    if (pending) limiter.schedule(pending.value);
+  });
+
+  // Ends an interaction or applies a programmatic change: the value is sent immediately.
+  const commit = (value: T) => {
+    isPointerDownRef.current = false;
+    // While streaming, the final value has usually gone out already.
+    if (mode !== 'release' && lastSentRef.current?.value === value) {
+      limiter.cancel();
+      return;
+    }
+    limiter.schedule(value);
+    limiter.flush();
+  };
+
+  return {
+    // Call for every value change coming from the control itself.
+    onChange: (value: T) => {
+      if (mode === 'change' || (mode === 'drag' && isPointerDownRef.current)) {
+        limiter.schedule(value);
+      }
+    },
+    // Call for a value the card sets itself, e.g. from a preset or a picked parameter.
+    onSet: (value: T) => {
+      if (mode === 'change') pendingSetRef.current = { value };
+    },
+    onPointerDown: () => {
+      isPointerDownRef.current = true;
+    },
+    onKeyUp: (key: string, value: T) => {
+      if (ADJUST_KEYS.has(key)) commit(value);
+    },
+    commit,
+    // Streams a value from an external control (MIDI Learn), whatever the send mode.
+    schedule: (value: T) => limiter.schedule(value),
+  };
+};
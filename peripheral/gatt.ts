@@ -0,0 +1,229 @@
+import type { PeripheralStatus } from '../types';
+import { MIDI_CHARACTERISTIC_UUID, MIDI_SERVICE_UUID } from '../transports/webBluetoothTransport';
+import { DEFAULT_BLE_MTU } from '../utils/bleMidiEncoder';
+import { createEmitter } from '../utils/emitter';
+import { isByteArray, isRecord } from '../utils/guards';
+import type { WebSocketConnection } from './webSocket';
+
+/**
+ * The GATT server side of a BLE MIDI peripheral: one MIDI service with its characteristic,
+ * serving a single central at a time.
+ */
+export interface GattPeripheral {
+  readonly backend: PeripheralStatus['backend'];
+  startAdvertising: (name: string) => Promise<void>;
+  // Also disconnects the central, so the virtual device disappears completely.
+  stopAdvertising: () => Promise<void>;
+  // Sends a BLE-MIDI packet to the subscribed central, if any.
+  notify: (packet: Uint8Array) => void;
+  // The ATT MTU negotiated with the current central
+  getMtu: () => number;
+  onWrite: (listener: (packet: Uint8Array) => void) => () => void;
+  // Reports the subscribed central's address, or null when it leaves.
+  onCentralChange: (listener: (central: string | null) => void) => () => void;
+}
+
+// Messages exchanged with a mock central, as JSON over WebSocket.
+type MockCentralMessage =
+  | { type: 'write'; packet: number[] }
+  | { type: 'notify'; packet: number[] };
+
+// Returns the message if its type is known and its packet holds bytes 0-255, or null.
+const parseMockCentralMessage = (text: string): MockCentralMessage | null => {
+  const value: unknown = JSON.parse(text);
+  if (!isRecord(value) || (value.type !== 'write' && value.type !== 'notify')) return null;
+  return isByteArray(value.packet) && value.packet.length > 0 ? { type: value.type, packet: value.packet } : null;
+};
+
+export interface MockGattPeripheral extends GattPeripheral {
+  // Connects a mock central, refused unless advertising and no other central is connected.
+  attachCentral: (connection: WebSocketConnection, mtu: number) => boolean;
+}
+
+/**
+ * Headless GATT server for machines without a radio. Mock centrals connect over WebSocket,
+ * write packets with { type: 'write', packet } and receive { type: 'notify', packet }.
+ */
+export const createMockGattPeripheral = (): MockGattPeripheral => {
+  const writeEmitter = createEmitter<Uint8Array>();
+  const centralEmitter = createEmitter<string | null>();
+  let advertising = false;
+  let central: { id: string; connection: WebSocketConnection; mtu: number } | null = null;
+  let nextCentralId = 1;
+
+  const detachCentral = () => {
+    if (!central) return;
+    const { connection } = central;
+    central = null;
+    connection.close();
+    centralEmitter.emit(null);
+  };
+
+  const attachCentral = (connection: WebSocketConnection, mtu: number) => {
+    if (!advertising || central) return false;
+    const id = `mock-central-${nextCentralId++}`;
+    central = { id, connection, mtu };
+    connection.onMessage(text => {
+      let message: MockCentralMessage | null;
+      try {
+        message = parseMockCentralMessage(text);
+      } catch (error) {
+        console.warn(`Ignoring malformed message from ${id}:`, error);
+        return;
+      }
+      if (!message) {
+        console.warn(`Ignoring invalid message from ${id}: ${text.slice(0, 200)}`);
+        return;
+      }
+      if (message.type === 'write') writeEmitter.emit(Uint8Array.from(message.packet));
+    });
+    connection.onClose(() => {
+      if (central?.connection === connection) {
+        central = null;
+        centralEmitter.emit(null);
+      }
+    });
+    centralEmitter.emit(id);
+    return true;
+  };
+
+  return {
+    backend: 'mock',
+    startAdvertising: async () => {
+      advertising = true;
+    },
+    stopAdvertising: async () => {
+      advertising = false;
+      detachCentral();
+    },
+    notify: (packet) => {
+      central?.connection.send(JSON.stringify({ type: 'notify', packet: Array.from(packet) } satisfies MockCentralMessage));
+    },
+    getMtu: () => central?.mtu ?? DEFAULT_BLE_MTU,
+    onWrite: writeEmitter.subscribe,
+    onCentralChange: centralEmitter.subscribe,
+    attachCentral,
+  };
+};
+
+// Loaded at runtime so the mock mode works without it; install it for radio mode.
+const BLENO_MODULE = '@abandonware/bleno';
+
+const toBlenoUuid = (uuid: string) => uuid.replace(/-/g, '');
+
+// The part of bleno's API used here; the package ships without types.
+interface BlenoCharacteristicOptions {
+  uuid: string;
+  properties: string[];
+  onReadRequest: (offset: number, callback: (result: number, data: Buffer) => void) => void;
+  onWriteRequest: (data: Buffer, offset: number, withoutResponse: boolean, callback: (result: number) => void) => void;
+  onSubscribe: (maxValueSize: number, updateValueCallback: (data: Buffer) => void) => void;
+  onUnsubscribe: () => void;
+}
+
+interface Bleno {
+  state: string;
+  Characteristic: { new (options: BlenoCharacteristicOptions): object; RESULT_SUCCESS: number };
+  PrimaryService: new (options: { uuid: string; characteristics: object[] }) => object;
+  on(event: 'stateChange', listener: (state: string) => void): void;
+  on(event: 'accept', listener: (address: string) => void): void;
+  on(event: 'disconnect', listener: () => void): void;
+  on(event: 'mtuChange', listener: (mtu: number) => void): void;
+  startAdvertising: (name: string, serviceUuids: string[], callback: (error?: Error) => void) => void;
+  stopAdvertising: (callback: () => void) => void;
+  setServices: (services: object[]) => void;
+  disconnect: () => void;
+}
+
+/**
+ * GATT server on the local Bluetooth adapter through bleno. Rejects when bleno is not
+ * installed or the adapter does not power on.
+ */
+export const createBlenoGattPeripheral = async (): Promise<GattPeripheral> => {
+  let bleno: Bleno;
+  try {
+    bleno = (await import(/* @vite-ignore */ BLENO_MODULE)).default as Bleno;
+  } catch (error) {
+    throw new Error(`Radio mode needs ${BLENO_MODULE} (npm install ${BLENO_MODULE}), or run with --mock.`);
+  }
+
+  const writeEmitter = createEmitter<Uint8Array>();
+  const centralEmitter = createEmitter<string | null>();
+  let centralAddress: string | null = null;
+  let updateValue: ((data: Buffer) => void) | null = null;
+  let mtu = DEFAULT_BLE_MTU;
+
+  await new Promise<void>((resolve, reject) => {
+    if (bleno.state === 'poweredOn') {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => reject(new Error(`Bluetooth adapter is ${bleno.state}.`)), 5000);
+    bleno.on('stateChange', (state) => {
+      if (state === 'poweredOn') {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  });
+
+  const characteristic = new bleno.Characteristic({
+    uuid: toBlenoUuid(MIDI_CHARACTERISTIC_UUID),
+    properties: ['read', 'writeWithoutResponse', 'notify'],
+    // The BLE-MIDI spec requires reads to return an empty payload.
+    onReadRequest: (_offset, callback) => {
+      callback(bleno.Characteristic.RESULT_SUCCESS, Buffer.alloc(0));
+    },
+    onWriteRequest: (data, _offset, _withoutResponse, callback) => {
+      writeEmitter.emit(new Uint8Array(data));
+      callback(bleno.Characteristic.RESULT_SUCCESS);
+    },
+    onSubscribe: (maxValueSize, callback) => {
+      updateValue = callback;
+      mtu = maxValueSize + 3;
+      centralEmitter.emit(centralAddress ?? 'unknown central');
+    },
+    onUnsubscribe: () => {
+      updateValue = null;
+      centralEmitter.emit(null);
+    },
+  });
+
+  bleno.on('accept', (address) => {
+    centralAddress = address;
+  });
+  bleno.on('disconnect', () => {
+    centralAddress = null;
+    if (updateValue) {
+      updateValue = null;
+      centralEmitter.emit(null);
+    }
+  });
+  bleno.on('mtuChange', (negotiated) => {
+    mtu = negotiated;
+  });
+
+  return {
+    backend: 'bluetooth',
+    startAdvertising: (name) => new Promise<void>((resolve, reject) => {
+      bleno.startAdvertising(name, [toBlenoUuid(MIDI_SERVICE_UUID)], (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        bleno.setServices([
+          new bleno.PrimaryService({ uuid: toBlenoUuid(MIDI_SERVICE_UUID), characteristics: [characteristic] }),
+        ]);
+        resolve();
+      });
+    }),
+    stopAdvertising: () => new Promise<void>((resolve) => {
+      if (centralAddress) bleno.disconnect();
+      bleno.stopAdvertising(() => resolve());
+    }),
+    notify: (packet) => updateValue?.(Buffer.from(packet)),
+    getMtu: () => mtu,
+    onWrite: writeEmitter.subscribe,
+    onCentralChange: centralEmitter.subscribe,
+  };
+};
@@ -0,0 +1,219 @@
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import type { PeripheralCommand, PeripheralEvent, PeripheralStatus } from '../types';
+import {
+  createScriptedResponder,
+  parseLoopbackScript,
+  silentResponder,
+  type LoopbackResponder,
+} from '../transports/loopbackTransport';
+import { createBleMidiDecoder } from '../utils/bleMidiDecoder';
+import { DEFAULT_BLE_MTU } from '../utils/bleMidiEncoder';
+import { isByteArray, isRecord } from '../utils/guards';
+import { createMidiSendQueue } from '../utils/midiSendQueue';
+import { createBlenoGattPeripheral, createMockGattPeripheral, type GattPeripheral } from './gatt';
+import { acceptWebSocket, type WebSocketConnection } from './webSocket';
+
+/*
+ * Companion process for the "Virtual peripheral" transport. Browsers can only act as a
+ * BLE central, so this process advertises the MIDI service on their behalf:
+ *
+ *   browser UI  <-- ws://host:port/ -->         companion  <-- GATT -->  central (DAW, phone...)
+ *   mock central <-- ws://host:port/central -->  (with --mock instead of the radio)
+ *
+ * Usage: npm run peripheral -- [--port 8765] [--host 127.0.0.1] [--mock] [--allow-origin https://example.com]
+ */
+
+// Notifications are batched like the web transport batches writes.
+const NOTIFY_INTERVAL_MS = 10;
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8765' },
+    host: { type: 'string', default: '127.0.0.1' },
+    mock: { type: 'boolean', default: false },
+    // Web pages from other origins than localhost that may connect, e.g. a deployed copy of the UI
+    'allow-origin': { type: 'string', multiple: true, default: [] },
+  },
+});
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Browsers send the page's origin with every WebSocket handshake, and any page may open a
+ * connection to localhost, so only the UI's own origins get to drive the peripheral.
+ * Clients without an Origin header are not browsers (e.g. mock centrals in a test script).
+ */
+const isAllowedOrigin = (origin: string | undefined): boolean => {
+  if (origin === undefined) return true;
+  if (args['allow-origin'].includes(origin)) return true;
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Returns the command if it has every field its type needs, or null.
+const parseCommand = (value: unknown): PeripheralCommand | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'advertise':
+      return typeof value.name === 'string' && value.name && typeof value.script === 'string'
+        ? { type: 'advertise', name: value.name, script: value.script }
+        : null;
+    case 'stop':
+      return { type: 'stop' };
+    case 'send':
+      return isByteArray(value.bytes) && value.bytes.length > 0
+        ? { type: 'send', bytes: value.bytes }
+        : null;
+    default:
+      return null;
+  }
+};
+
+const start = async () => {
+  const mock = args.mock ? createMockGattPeripheral() : null;
+  const gatt: GattPeripheral = mock ?? await createBlenoGattPeripheral();
+  const decoder = createBleMidiDecoder();
+  let controller: WebSocketConnection | null = null;
+  let responder: LoopbackResponder = silentResponder;
+  let status: PeripheralStatus = { backend: gatt.backend, advertising: false, central: null };
+
+  const sendEvent = (event: PeripheralEvent) => controller?.send(JSON.stringify(event));
+
+  const setStatus = (changes: Partial<PeripheralStatus>) => {
+    status = { ...status, ...changes };
+    sendEvent({ type: 'status', status });
+  };
+
+  const notifyQueue = createMidiSendQueue({
+    write: async (packet) => gatt.notify(packet),
+    getMtu: () => gatt.getMtu() || DEFAULT_BLE_MTU,
+    getIntervalMs: () => NOTIFY_INTERVAL_MS,
+    onError: (error) => console.warn('Notification failed:', error),
+  });
+
+  gatt.onCentralChange(central => {
+    decoder.reset();
+    notifyQueue.clear();
+    console.log(central ? `Central connected: ${central}` : 'Central disconnected');
+    setStatus({ central });
+  });
+
+  gatt.onWrite(packet => {
+    sendEvent({ type: 'received', packet: Array.from(packet) });
+    // Scripted replies are answered here, so they keep the timing of a real device.
+    decoder.decode(packet).forEach(message => {
+      responder(Uint8Array.from(message.bytes)).forEach(reply => notifyQueue.enqueue(reply));
+    });
+  });
+
+  const stopAdvertising = async () => {
+    notifyQueue.clear();
+    await gatt.stopAdvertising();
+    setStatus({ advertising: false, central: null, error: undefined });
+  };
+
+  const handleCommand = async (command: PeripheralCommand) => {
+    switch (command.type) {
+      case 'advertise':
+        try {
+          responder = createScriptedResponder(parseLoopbackScript(command.script));
+        } catch (error) {
+          responder = silentResponder;
+          setStatus({ error: `Invalid reply script: ${error instanceof Error ? error.message : String(error)}` });
+          return;
+        }
+        try {
+          await gatt.startAdvertising(command.name);
+          console.log(`Advertising as "${command.name}"`);
+          setStatus({ advertising: true, error: undefined });
+        } catch (error) {
+          setStatus({ advertising: false, error: `Cannot advertise: ${error instanceof Error ? error.message : String(error)}` });
+        }
+        break;
+      case 'stop':
+        await stopAdvertising();
+        console.log('Stopped advertising');
+        break;
+      case 'send':
+        if (status.central) notifyQueue.enqueue(Uint8Array.from(command.bytes));
+        // The last error no longer describes the peripheral once a command succeeds.
+        if (status.error !== undefined) setStatus({ error: undefined });
+        break;
+    }
+  };
+
+  const server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('BLE MIDI peripheral companion: connect over WebSocket.\n');
+  });
+
+  server.on('upgrade', (request, socket) => {
+    if (!isAllowedOrigin(request.headers.origin)) {
+      console.warn(`Refusing connection from origin ${request.headers.origin} (see --allow-origin)`);
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname === '/central' && mock) {
+      const connection = acceptWebSocket(request, socket);
+      const mtu = parseInt(url.searchParams.get('mtu') ?? '', 10);
+      if (connection && !mock.attachCentral(connection, mtu || DEFAULT_BLE_MTU)) {
+        // Not advertising, or another central already holds the connection.
+        connection.close();
+      }
+      return;
+    }
+    if (url.pathname !== '/') {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+    if (controller) {
+      socket.end('HTTP/1.1 409 Conflict\r\n\r\n');
+      return;
+    }
+    const connection = acceptWebSocket(request, socket);
+    if (!connection) return;
+    controller = connection;
+    console.log('UI connected');
+    connection.onMessage(text => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch (error) {
+        console.warn('Ignoring malformed command:', error);
+        return;
+      }
+      const command = parseCommand(parsed);
+      if (!command) {
+        console.warn('Ignoring invalid command:', text);
+        return;
+      }
+      handleCommand(command).catch(error => {
+        console.error(`Command "${command.type}" failed:`, error);
+        setStatus({ error: `${command.type} failed: ${error instanceof Error ? error.message : String(error)}` });
+      });
+    });
+    connection.onClose(() => {
+      if (controller !== connection) return;
+      controller = null;
+      console.log('UI disconnected');
+      // Nobody is left to drive the virtual device.
+      if (status.advertising) stopAdvertising().catch(error => console.error('Failed to stop advertising:', error));
+    });
+    sendEvent({ type: 'status', status });
+  });
+
+  server.listen(parseInt(args.port, 10), args.host, () => {
+    console.log(`BLE MIDI peripheral companion (${gatt.backend}) listening on ws://${args.host}:${args.port}`);
+    if (mock) console.log(`Mock centrals connect to ws://${args.host}:${args.port}/central`);
+  });
+};
+
+start().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { createEmitter } from '../utils/emitter';
+
+// RFC 6455, section 1.3
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Control messages only; MIDI traffic stays far below this.
+const MAX_MESSAGE_SIZE = 16 * 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketConnection {
+  send: (text: string) => void;
+  close: () => void;
+  // Text and binary messages alike, decoded as UTF-8
+  onMessage: (listener: (text: string) => void) => () => void;
+  onClose: (listener: () => void) => () => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.from([0, 126, 0, 0]);
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.from([0, 127, 0, 0, 0, 0, 0, 0, 0, 0]);
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  // FIN: messages are never fragmented when sending
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Completes the WebSocket handshake for an HTTP upgrade request and returns the connection,
+ * or rejects the request and returns null. Just enough of RFC 6455 for a local control
+ * channel: no extensions, and frames from the client must be masked.
+ */
+export const acceptWebSocket = (request: IncomingMessage, socket: Duplex): WebSocketConnection | null => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  const messageEmitter = createEmitter<string>();
+  const closeEmitter = createEmitter<void>();
+  let buffered = Buffer.alloc(0);
+  // Payload of a fragmented message until its final frame arrives
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (socket.writable) socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    closeEmitter.emit();
+  };
+
+  // Returns the number of bytes consumed, or 0 when the frame is not complete yet.
+  const readFrame = (data: Buffer): number => {
+    if (data.length < 2) return 0;
+    const final = (data[0] & 0x80) !== 0;
+    const opcode = data[0] & 0x0f;
+    const masked = (data[1] & 0x80) !== 0;
+    let length = data[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (data.length < 4) return 0;
+      length = data.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (data.length < 10) return 0;
+      length = Number(data.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (!masked || length > MAX_MESSAGE_SIZE) {
+      close();
+      return data.length;
+    }
+    if (data.length < offset + 4 + length) return 0;
+
+    const mask = data.subarray(offset, offset + 4);
+    const payload = Buffer.from(data.subarray(offset + 4, offset + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+
+    switch (opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_BINARY:
+      case OPCODE_CONTINUATION:
+        fragments.push(payload);
+        if (final) {
+          messageEmitter.emit(Buffer.concat(fragments).toString('utf8'));
+          fragments = [];
+        }
+        break;
+      case OPCODE_PING:
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+        break;
+      case OPCODE_CLOSE:
+        close();
+        break;
+      case OPCODE_PONG:
+      default:
+        break;
+    }
+    return offset + 4 + length;
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    let consumed: number;
+    while (!closed && (consumed = readFrame(buffered)) > 0) {
+      buffered = buffered.subarray(consumed);
+    }
+  });
+  socket.on('close', () => {
+    if (closed) return;
+    closed = true;
+    closeEmitter.emit();
+  });
+  socket.on('error', (error) => {
+    console.warn('WebSocket connection failed:', error.message);
+    socket.destroy();
+  });
+
+  return {
+    send: (text) => {
+      if (!closed && socket.writable) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+    },
+    close,
+    onMessage: messageEmitter.subscribe,
+    onClose: closeEmitter.subscribe,
+  };
+};
@@ -0,0 +1,121 @@
+import type { MidiDeviceState, MidiTransport, ParsedMidiMessage, TransportWrite } from '../types';
+import { createEmitter } from '../utils/emitter';
+import { matchesHexPattern, parseHexPattern, type HexPattern } from '../utils/hexPattern';
+import { parseMidiMessage } from '../utils/midiParser';
+import { parseHexBytes } from '../utils/sysex';
+
+/**
+ * Decides what the simulated peer answers to a message. Return the messages to send back
+ * (possibly none).
+ */
+export type LoopbackResponder = (message: Uint8Array) => Uint8Array[];
+
+export const echoResponder: LoopbackResponder = (message) => [message];
+export const silentResponder: LoopbackResponder = () => [];
+
+interface LoopbackTransportOptions {
+  getResponder: () => LoopbackResponder;
+  // Simulated one-way delay before responses arrive.
+  latencyMs?: number;
+}
+
+export interface LoopbackTransport extends MidiTransport {
+  // Delivers a message as if the simulated peer had sent it unprompted.
+  inject: (message: Uint8Array) => void;
+}
+
+/**
+ * In-memory transport with no hardware behind it, for developing and testing the UI.
+ */
+export const createLoopbackTransport = ({ getResponder, latencyMs = 5 }: LoopbackTransportOptions): LoopbackTransport => {
+  const messageEmitter = createEmitter<ParsedMidiMessage[]>();
+  const statusEmitter = createEmitter<MidiDeviceState>();
+  const writeEmitter = createEmitter<TransportWrite>();
+  const device = { name: 'Loopback' };
+  const pendingTimers = new Set<ReturnType<typeof setTimeout>>();
+  let connected = false;
+
+  const deliver = (messages: Uint8Array[]) => {
+    const parsed = messages
+      .map(message => parseMidiMessage(message))
+      .filter((message): message is ParsedMidiMessage => message !== null);
+    if (parsed.length === 0) return;
+
+    const timer = setTimeout(() => {
+      pendingTimers.delete(timer);
+      if (connected) messageEmitter.emit(parsed);
+    }, latencyMs);
+    pendingTimers.add(timer);
+  };
+
+  const connect = async () => {
+    connected = true;
+    statusEmitter.emit({ device, status: 'connected' });
+  };
+
+  const disconnect = () => {
+    connected = false;
+    pendingTimers.forEach(timer => clearTimeout(timer));
+    pendingTimers.clear();
+    statusEmitter.emit({ device: null, status: 'disconnected' });
+  };
+
+  const send = (message: Uint8Array) => {
+    if (!connected) {
+      console.warn('Cannot send MIDI message, not connected.');
+      writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now(), error: 'Not connected' });
+      return;
+    }
+    writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now() });
+    deliver(getResponder()(message));
+  };
+
+  const inject = (message: Uint8Array) => {
+    if (connected) deliver([message]);
+  };
+
+  return {
+    kind: 'loopback',
+    connect,
+    disconnect,
+    send,
+    inject,
+    onMessage: messageEmitter.subscribe,
+    onStatusChange: statusEmitter.subscribe,
+    onWrite: writeEmitter.subscribe,
+  };
+};
+
+export interface LoopbackScriptRule {
+  pattern: HexPattern;
+  reply: Uint8Array[];
+}
+
+/**
+ * Parses a loopback script: one rule per line in the form "<pattern> => <reply>", where the
+ * pattern may use "??" wildcards and several replies are separated by "|". Lines starting
+ * with "#" are comments. Throws on the first invalid line.
+ */
+export const parseLoopbackScript = (script: string): LoopbackScriptRule[] =>
+  script.split('\n').flatMap((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) return [];
+    const [pattern, reply] = line.split('=>');
+    if (reply === undefined) {
+      throw new Error(`Line ${index + 1}: expected "<pattern> => <reply>"`);
+    }
+    try {
+      return [{
+        pattern: parseHexPattern(pattern),
+        reply: reply.split('|').map(part => parseHexBytes(part)).filter(bytes => bytes.length > 0),
+      }];
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+/**
+ * Answers with the reply of the first matching rule; unmatched messages get no answer.
+ */
+export const createScriptedResponder = (rules: LoopbackScriptRule[]): LoopbackResponder => (message) =>
+  rules.find(rule => matchesHexPattern(message, rule.pattern))?.reply ?? [];
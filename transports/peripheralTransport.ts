@@ -0,0 +1,127 @@
+import type {
+  MidiDeviceState,
+  MidiTransport,
+  ParsedMidiMessage,
+  PeripheralCommand,
+  PeripheralEvent,
+  PeripheralStatus,
+  TransportSettings,
+  TransportWrite,
+} from '../types';
+import { createBleMidiDecoder } from '../utils/bleMidiDecoder';
+import { createEmitter } from '../utils/emitter';
+
+interface PeripheralTransportOptions {
+  getSettings: () => TransportSettings;
+}
+
+/**
+ * Acts as a BLE MIDI peripheral through the companion process (peripheral/server.ts), since
+ * browsers cannot advertise. Status is 'connecting' while advertising and 'connected' once a
+ * central has subscribed; sent messages are notified to that central.
+ */
+export const createPeripheralTransport = ({ getSettings }: PeripheralTransportOptions): MidiTransport => {
+  const messageEmitter = createEmitter<ParsedMidiMessage[]>();
+  const statusEmitter = createEmitter<MidiDeviceState>();
+  const writeEmitter = createEmitter<TransportWrite>();
+  // Centrals write BLE-MIDI packets; the companion forwards them untouched.
+  const decoder = createBleMidiDecoder();
+  let socket: WebSocket | null = null;
+
+  const sendCommand = (command: PeripheralCommand) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(command));
+  };
+
+  const handleStatus = (status: PeripheralStatus) => {
+    const name = getSettings().peripheralName;
+    if (status.error) {
+      statusEmitter.emit({ device: null, status: 'error', error: status.error });
+    } else if (status.central) {
+      statusEmitter.emit({ device: { name: `${name} ← ${status.central}` }, status: 'connected' });
+    } else if (status.advertising) {
+      decoder.reset();
+      statusEmitter.emit({ device: { name }, status: 'connecting' });
+    } else {
+      statusEmitter.emit({ device: null, status: 'disconnected' });
+    }
+  };
+
+  const handleEvent = (event: MessageEvent) => {
+    let data: PeripheralEvent;
+    try {
+      data = JSON.parse(String(event.data));
+    } catch (error) {
+      console.warn('Ignoring malformed message from the peripheral companion:', error);
+      return;
+    }
+    if (data.type === 'status') {
+      handleStatus(data.status);
+    } else if (data.type === 'received') {
+      const messages = decoder.decode(Uint8Array.from(data.packet));
+      if (messages.length > 0) messageEmitter.emit(messages);
+    }
+  };
+
+  // Failures are reported through the status, like the other transports.
+  const connect = () => new Promise<void>((resolve) => {
+    const { peripheralUrl, peripheralName, peripheralScript } = getSettings();
+    statusEmitter.emit({ device: null, status: 'connecting' });
+
+    let openSocket: WebSocket;
+    try {
+      openSocket = new WebSocket(peripheralUrl);
+    } catch (error) {
+      statusEmitter.emit({ device: null, status: 'error', error: `Invalid companion address: ${peripheralUrl}` });
+      resolve();
+      return;
+    }
+    socket = openSocket;
+    openSocket.onopen = () => {
+      sendCommand({ type: 'advertise', name: peripheralName, script: peripheralScript });
+      resolve();
+    };
+    openSocket.onmessage = handleEvent;
+    openSocket.onclose = () => {
+      // Closed by disconnect() when socket was already cleared.
+      if (socket !== openSocket) return;
+      socket = null;
+      statusEmitter.emit({
+        device: null,
+        status: 'error',
+        error: `Lost the peripheral companion at ${peripheralUrl}. Is it running?`,
+      });
+      resolve();
+    };
+  });
+
+  const disconnect = () => {
+    const openSocket = socket;
+    socket = null;
+    if (openSocket) {
+      if (openSocket.readyState === WebSocket.OPEN) openSocket.send(JSON.stringify({ type: 'stop' } satisfies PeripheralCommand));
+      openSocket.close();
+    }
+    statusEmitter.emit({ device: null, status: 'disconnected' });
+  };
+
+  const send = (message: Uint8Array) => {
+    if (socket?.readyState !== WebSocket.OPEN) {
+      console.warn('Cannot send MIDI message, not connected.');
+      writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now(), error: 'Not connected' });
+      return;
+    }
+    // The companion packs and notifies it; its BLE-MIDI packets are not reported back.
+    sendCommand({ type: 'send', bytes: Array.from(message) });
+    writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now() });
+  };
+
+  return {
+    kind: 'peripheral',
+    connect,
+    disconnect,
+    send,
+    onMessage: messageEmitter.subscribe,
+    onStatusChange: statusEmitter.subscribe,
+    onWrite: writeEmitter.subscribe,
+  };
+};
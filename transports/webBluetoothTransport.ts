@@ -0,0 +1,226 @@
+import type { BleLinkSettings, MidiDeviceState, MidiTransport, ParsedMidiMessage, TransportWrite } from '../types';
+import { createBleMidiDecoder } from '../utils/bleMidiDecoder';
+import { createEmitter } from '../utils/emitter';
+import { createMidiSendQueue } from '../utils/midiSendQueue';
+
+// BLE MIDI Service and Characteristic UUIDs
+export const MIDI_SERVICE_UUID = '03b80e5a-ede8-4b33-a751-6ce34ec4c700';
+export const MIDI_CHARACTERISTIC_UUID = '7772e5db-3868-4112-a1a9-f2669d106bf3';
+
+// Upper bound for the backoff between reconnect attempts.
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+interface WebBluetoothTransportOptions {
+  getLinkSettings: () => BleLinkSettings;
+}
+
+/**
+ * BLE-MIDI over Web Bluetooth. Outgoing messages are batched into BLE-MIDI packets once per
+ * connection interval; incoming notifications are decoded, including multi-packet SysEx.
+ * An unexpected disconnect is retried on the same device with exponential backoff when
+ * auto-reconnect is enabled in the link settings.
+ */
+export const createWebBluetoothTransport = ({ getLinkSettings }: WebBluetoothTransportOptions): MidiTransport => {
+  const messageEmitter = createEmitter<ParsedMidiMessage[]>();
+  const statusEmitter = createEmitter<MidiDeviceState>();
+  const writeEmitter = createEmitter<TransportWrite>();
+  // Keeps partially received SysEx between notifications.
+  const decoder = createBleMidiDecoder();
+
+  // Fix: Replaced 'BluetoothDevice' and 'BluetoothGATTCharacteristic' with 'any' because Web Bluetooth API types are not available in this context.
+  let device: any | null = null;
+  let characteristic: any | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectAttempt = 0;
+
+  const sendQueue = createMidiSendQueue({
+    write: async (packet) => {
+      // A packet flushed after the link dropped is reported as failed, not as delivered.
+      if (!characteristic) throw new Error('Not connected');
+      await characteristic.writeValueWithoutResponse(packet);
+    },
+    getMtu: () => getLinkSettings().mtu,
+    getIntervalMs: () => getLinkSettings().connectionIntervalMs,
+    onError: (error) => {
+      // Writes that were in flight when the link dropped fail as well; the drop is reported separately.
+      if (!characteristic) return;
+      console.error('Failed to send MIDI message:', error);
+      statusEmitter.emit({ device, status: 'error', error: `Send failed: ${error instanceof Error ? error.message : String(error)}` });
+    },
+    onFlushed: (messages, packets, error) => {
+      writeEmitter.emit({
+        messages,
+        packets: packets.map(packet => Array.from(packet)),
+        writtenAt: performance.now(),
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      });
+    },
+  });
+
+  // Reports messages that were queued but will never be written.
+  const discardQueue = (reason: string) => {
+    const discarded = sendQueue.clear();
+    if (discarded.length > 0) writeEmitter.emit({ messages: discarded, packets: [], writtenAt: performance.now(), error: reason });
+  };
+
+  const handleCharacteristicValueChanged = (event: Event) => {
+    const target = event.target as any;
+    if (target.value) {
+      const parsedMessages = decoder.decode(target.value);
+      if (parsedMessages.length > 0) {
+        messageEmitter.emit(parsedMessages);
+      }
+    }
+  };
+
+  const cancelReconnect = () => {
+    if (reconnectTimer !== null) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    reconnectAttempt = 0;
+  };
+
+  // Connects to the MIDI characteristic of an already chosen device and starts notifications.
+  const openMidiCharacteristic = async (targetDevice: any) => {
+    const server = await targetDevice.gatt?.connect();
+    if (!server) throw new Error('Could not connect to GATT server.');
+
+    const service = await server.getPrimaryService(MIDI_SERVICE_UUID);
+    const midiCharacteristic = await service.getCharacteristic(MIDI_CHARACTERISTIC_UUID);
+
+    decoder.reset();
+    await midiCharacteristic.startNotifications();
+    midiCharacteristic.addEventListener('characteristicvaluechanged', handleCharacteristicValueChanged);
+    characteristic = midiCharacteristic;
+  };
+
+  const scheduleReconnect = (lastError?: string) => {
+    const { maxReconnectAttempts, reconnectDelayMs } = getLinkSettings();
+    if (reconnectAttempt >= maxReconnectAttempts) {
+      const attempts = reconnectAttempt;
+      cancelReconnect();
+      giveUp(`Reconnect failed after ${attempts} attempt${attempts === 1 ? '' : 's'}${lastError ? `: ${lastError}` : ''}`);
+      return;
+    }
+    reconnectAttempt++;
+    statusEmitter.emit({ device, status: 'reconnecting', reconnectAttempt, error: lastError });
+    // Exponential backoff, capped so a long outage is still retried at a reasonable pace.
+    const delay = Math.min(reconnectDelayMs * 2 ** (reconnectAttempt - 1), MAX_RECONNECT_DELAY_MS);
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      const targetDevice = device;
+      if (!targetDevice) return;
+      try {
+        await openMidiCharacteristic(targetDevice);
+        // disconnect() may have been called while the attempt was in progress.
+        if (device !== targetDevice) {
+          targetDevice.gatt?.disconnect();
+          return;
+        }
+        reconnectAttempt = 0;
+        sendQueue.resume();
+        statusEmitter.emit({ device, status: 'connected' });
+      } catch (error) {
+        if (device !== targetDevice) return;
+        console.warn(`Reconnect attempt ${reconnectAttempt} failed:`, error);
+        scheduleReconnect(error instanceof Error ? error.message : String(error));
+      }
+    }, delay);
+  };
+
+  // Ends the connection after an unrecoverable drop, leaving the error visible.
+  const giveUp = (error: string) => {
+    device?.removeEventListener('gattserverdisconnected', handleGattServerDisconnected);
+    characteristic = null;
+    device = null;
+    discardQueue(`Discarded: ${error}`);
+    sendQueue.resume();
+    statusEmitter.emit({ device: null, status: 'error', error });
+  };
+
+  const handleGattServerDisconnected = () => {
+    characteristic?.removeEventListener('characteristicvaluechanged', handleCharacteristicValueChanged);
+    characteristic = null;
+    // Also fires when a reconnect attempt drops again before completing; that attempt retries on its own.
+    if (reconnectAttempt > 0) return;
+
+    const { autoReconnect, keepQueueOnDrop } = getLinkSettings();
+    if (!autoReconnect) {
+      giveUp('Connection lost');
+      return;
+    }
+    if (keepQueueOnDrop) {
+      sendQueue.pause();
+    } else {
+      discardQueue('Discarded: connection lost');
+    }
+    scheduleReconnect();
+  };
+
+  const connect = async () => {
+    cancelReconnect();
+    statusEmitter.emit({ device: null, status: 'connecting' });
+    try {
+      // Fix: Cast 'navigator' to 'any' to access the 'bluetooth' property, which is part of the experimental Web Bluetooth API.
+      const requestedDevice = await (navigator as any).bluetooth.requestDevice({
+        filters: [{ services: [MIDI_SERVICE_UUID] }],
+      });
+
+      await openMidiCharacteristic(requestedDevice);
+      requestedDevice.addEventListener('gattserverdisconnected', handleGattServerDisconnected);
+
+      device = requestedDevice;
+      sendQueue.resume();
+      statusEmitter.emit({ device, status: 'connected' });
+    } catch (error) {
+      // Check if the user cancelled the device picker. This is not a real error.
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        console.log('User cancelled the device selection dialog.');
+        statusEmitter.emit({ device: null, status: 'disconnected' });
+      } else {
+        // Handle other genuine errors
+        console.error('BLE Connection Error:', error);
+        statusEmitter.emit({
+          device: null,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  const disconnect = () => {
+    cancelReconnect();
+    characteristic?.removeEventListener('characteristicvaluechanged', handleCharacteristicValueChanged);
+    device?.removeEventListener('gattserverdisconnected', handleGattServerDisconnected);
+    if (device?.gatt?.connected) {
+      device.gatt.disconnect();
+    }
+    characteristic = null;
+    device = null;
+    discardQueue('Discarded: disconnected');
+    sendQueue.resume();
+    statusEmitter.emit({ device: null, status: 'disconnected' });
+  };
+
+  const send = (message: Uint8Array) => {
+    if (!characteristic) {
+      console.warn('Cannot send MIDI message, not connected.');
+      writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now(), error: 'Not connected' });
+      return;
+    }
+    // Messages are batched and written once per connection interval by the send queue.
+    sendQueue.enqueue(message);
+  };
+
+  return {
+    kind: 'bluetooth',
+    connect,
+    disconnect,
+    send,
+    onMessage: messageEmitter.subscribe,
+    onStatusChange: statusEmitter.subscribe,
+    onWrite: writeEmitter.subscribe,
+  };
+};
@@ -0,0 +1,128 @@
+import type { MidiDeviceState, MidiTransport, ParsedMidiMessage, TransportWrite } from '../types';
+import { createEmitter } from '../utils/emitter';
+import { parseMidiMessage } from '../utils/midiParser';
+
+interface WebMidiTransportOptions {
+  // Name of the port to open; the first available output is used when empty.
+  getPortName: () => string;
+}
+
+const requestAccess = (): Promise<MIDIAccess> => {
+  if (!navigator.requestMIDIAccess) {
+    return Promise.reject(new Error('Web MIDI API is not supported in this browser.'));
+  }
+  return navigator.requestMIDIAccess({ sysex: true });
+};
+
+/**
+ * Lists the names of available MIDI output ports (USB, virtual or OS-level BLE ports).
+ */
+export const listWebMidiPorts = async (): Promise<string[]> => {
+  const access = await requestAccess();
+  return Array.from(access.outputs.values()).map(getPortLabel);
+};
+
+const getPortLabel = (port: MIDIPort) => port.name ?? port.id;
+
+const findPort = <T extends MIDIPort>(ports: Iterable<T>, name: string): T | undefined =>
+  Array.from(ports).find(port => getPortLabel(port) === name);
+
+/**
+ * MIDI over the Web MIDI API. Each MIDI event already carries exactly one complete
+ * message, so no packet framing or batching is involved.
+ */
+export const createWebMidiTransport = ({ getPortName }: WebMidiTransportOptions): MidiTransport => {
+  const messageEmitter = createEmitter<ParsedMidiMessage[]>();
+  const statusEmitter = createEmitter<MidiDeviceState>();
+  const writeEmitter = createEmitter<TransportWrite>();
+
+  let access: MIDIAccess | null = null;
+  let input: MIDIInput | null = null;
+  let output: MIDIOutput | null = null;
+
+  const handleMidiMessage = (event: MIDIMessageEvent) => {
+    if (!event.data) return;
+    const parsed = parseMidiMessage(event.data);
+    if (parsed) {
+      messageEmitter.emit([parsed]);
+    }
+  };
+
+  const handleStateChange = (event: MIDIConnectionEvent) => {
+    if (event.port && event.port === output && event.port.state === 'disconnected') {
+      disconnect();
+    }
+  };
+
+  const connect = async () => {
+    statusEmitter.emit({ device: null, status: 'connecting' });
+    try {
+      access = await requestAccess();
+      const outputs = Array.from(access.outputs.values());
+      if (outputs.length === 0) throw new Error('No MIDI output ports available.');
+      const name = getPortName() || getPortLabel(outputs[0]);
+      output = findPort(outputs, name) ?? null;
+      if (!output) throw new Error(`No MIDI output port named "${name}".`);
+      // Replies must come from the same device, so the input is matched by name only.
+      input = findPort(access.inputs.values(), getPortLabel(output)) ?? null;
+      if (!input) throw new Error(`No MIDI input port named "${getPortLabel(output)}".`);
+
+      await output.open();
+      await input.open();
+      input.addEventListener('midimessage', handleMidiMessage);
+      access.addEventListener('statechange', handleStateChange);
+
+      statusEmitter.emit({ device: { name: output.name }, status: 'connected' });
+    } catch (error) {
+      console.error('Web MIDI Connection Error:', error);
+      // Ports opened before the failure would stay open otherwise.
+      input?.removeEventListener('midimessage', handleMidiMessage);
+      input?.close();
+      output?.close();
+      output = null;
+      input = null;
+      statusEmitter.emit({
+        device: null,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const disconnect = () => {
+    input?.removeEventListener('midimessage', handleMidiMessage);
+    access?.removeEventListener('statechange', handleStateChange);
+    input?.close();
+    output?.close();
+    input = null;
+    output = null;
+    statusEmitter.emit({ device: null, status: 'disconnected' });
+  };
+
+  const send = (message: Uint8Array) => {
+    if (!output) {
+      console.warn('Cannot send MIDI message, not connected.');
+      writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now(), error: 'Not connected' });
+      return;
+    }
+    try {
+      output.send(message);
+      writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now() });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error('Failed to send MIDI message:', error);
+      writeEmitter.emit({ messages: [message], packets: [], writtenAt: performance.now(), error: reason });
+      statusEmitter.emit({ device: { name: output.name }, status: 'error', error: `Send failed: ${reason}` });
+    }
+  };
+
+  return {
+    kind: 'web-midi',
+    connect,
+    disconnect,
+    send,
+    onMessage: messageEmitter.subscribe,
+    onStatusChange: statusEmitter.subscribe,
+    onWrite: writeEmitter.subscribe,
+  };
+};
@@ -1,18 +1,446 @@
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
 
 export interface MidiDeviceState {
   // Fix: Replaced 'BluetoothDevice' with 'any' because Web Bluetooth API types are not available in this context.
   device: any | null;
   status: ConnectionStatus;
   error?: string;
+  // 1-based attempt number while status is 'reconnecting'
+  reconnectAttempt?: number;
 }
 
-export interface ParsedMidiMessage {
+export interface ConnectionHealth {
+  // Date.now() when the current connection was established, null while not connected
+  connectedSince: number | null;
+  // Times an established connection was lost unexpectedly
+  dropCount: number;
+  lastError: string | null;
+}
+
+export interface BleLinkSettings {
+  // ATT MTU in bytes. Web Bluetooth does not expose the negotiated value, so it is configured here.
+  mtu: number;
+  // Outgoing messages are batched and flushed once per interval.
+  connectionIntervalMs: number;
+  // Reconnect to the same device after an unexpected disconnect, without the device picker
+  autoReconnect: boolean;
+  maxReconnectAttempts: number;
+  // Delay before the first attempt; doubles with every further attempt
+  reconnectDelayMs: number;
+  // Keep messages still queued when the link drops and send them after reconnecting, instead of discarding them
+  keepQueueOnDrop: boolean;
+}
+
+// When a sender card transmits its value: on release, continuously while dragging, or on any change
+export type SendMode = 'release' | 'drag' | 'change';
+
+export type Waveform = 'sine' | 'triangle' | 'saw' | 'square' | 'random' | 'ramp';
+
+export interface AutomationConfig {
+  waveform: Waveform;
+  rateHz: number;
+  // Peak-to-peak swing as a fraction of the card's full range, 0-1
+  depth: number;
+  // Center of the swing as a fraction of the card's full range, 0-1
+  offset: number;
+  // Starting phase in degrees, 0-360
+  phase: number;
+}
+
+export type MidiLearnSourceKind = 'cc' | 'note' | 'pitch-bend';
+
+// The incoming control a card is bound to.
+export interface MidiLearnSource {
+  kind: MidiLearnSourceKind;
+  channel: number;
+  // Controller or note number; 0 for pitch bend
+  number: number;
+}
+
+export type MidiLearnCurve = 'linear' | 'exponential' | 'logarithmic' | 's-curve';
+
+// How a 7-bit source drives a 14-bit card: stretched over the full range, as MSB only
+// (LSB 0), or combined with the controller's own LSB on CC number + 32 (CC 0-31 only)
+export type MidiLearnUpscaling = 'stretch' | 'msb' | 'lsb-pair';
+
+export interface MidiLearnBinding {
+  // null until a control has been learned
+  source: MidiLearnSource | null;
+  // Part of the source's range that is used, as fractions 0-1; values outside are clamped
+  inputMin: number;
+  inputMax: number;
+  // Part of the card's range the input is scaled to, as fractions 0-1
+  outputMin: number;
+  outputMax: number;
+  invert: boolean;
+  curve: MidiLearnCurve;
+  upscaling: MidiLearnUpscaling;
+}
+
+export type ProfileParameterKind = 'cc' | 'rpn' | 'nrpn';
+
+// A controller or parameter number named by a device profile.
+export interface ProfileParameter {
+  kind: ProfileParameterKind;
+  // CC number, or 14-bit parameter number (MSB << 7 | LSB)
+  number: number;
+  name: string;
+  // Valid values: 0-127 for CCs, 0-16383 for RPN/NRPN
+  min: number;
+  max: number;
+  // Names of individual values, e.g. the choices of a waveform switch
+  values: Record<number, string>;
+}
+
+export interface ProfileProgram {
+  number: number;
+  name: string;
+  // Bank select value (CC 0 × 128 + CC 32) of the program's bank; unset when the profile has no banks
+  bank?: number;
+}
+
+// Names the controllers, parameters and programs of a particular device.
+export interface DeviceProfile {
+  // Identifies the profile; loading a profile with the same name replaces it
+  name: string;
+  // Selected automatically for devices whose name contains one of these, ignoring case
+  deviceNames: string[];
+  parameters: ProfileParameter[];
+  programs: ProfileProgram[];
+}
+
+export interface StandardCCParams {
+  description: string;
+  // Connection ids the card sends to; empty sends to every connected device
+  targets: number[];
+  channels: number[];
+  ccNumber: number;
+  ccValue: number;
+  sendMode: SendMode;
+  maxRate: number;
+  automation: AutomationConfig;
+  learn: MidiLearnBinding;
+  // Picked from a device profile; limits the slider to its range and names its values
+  profileParameter: ProfileParameter | null;
+}
+
+export interface HighResCCParams {
+  description: string;
+  targets: number[];
+  channels: number[];
+  // LSB is always msbCc + 32
+  msbCc: number;
+  value14bit: number;
+  sendMode: SendMode;
+  maxRate: number;
+  automation: AutomationConfig;
+  learn: MidiLearnBinding;
+  // Picked from a device profile; limits the slider to its range and names its values
+  profileParameter: ProfileParameter | null;
+}
+
+export interface SysExParams {
+  description: string;
+  targets: number[];
+  hexInput: string;
+}
+
+export interface NoteParams {
+  description: string;
+  targets: number[];
+  channels: number[];
+  baseOctave: number;
+  octaves: number;
+  velocity: number;
+  velocityByPosition: boolean;
+  hold: boolean;
+  chord: string;
+  qwertyEnabled: boolean;
+}
+
+export interface RpnParams {
+  description: string;
+  targets: number[];
+  channels: number[];
+  kind: ParameterNumberKind;
+  // 14-bit parameter number, MSB << 7 | LSB
+  parameter: number;
+  value14bit: number;
+  // Send the data entry LSB (CC 38) after the MSB (CC 6)
+  sendDataLsb: boolean;
+  // Deselect the parameter with RPN Null (CC 101/100 = 127) after every send
+  sendNull: boolean;
+  sendMode: SendMode;
+  maxRate: number;
+  learn: MidiLearnBinding;
+  // Picked from a device profile; limits the slider to its range and names its values
+  profileParameter: ProfileParameter | null;
+}
+
+// A master generates clock and transport; a slave follows what the target devices send.
+export type ClockMode = 'master' | 'slave';
+
+export interface ClockParams {
+  description: string;
+  targets: number[];
+  mode: ClockMode;
+  bpm: number;
+  // Keep sending 0xF8 while stopped so slaves can lock to the tempo before Start
+  clockWhileStopped: boolean;
+}
+
+// An MPE zone: the lower zone is managed on channel 1, the upper zone on channel 16.
+export type MpeZone = 'lower' | 'upper';
+
+export interface MpeParams {
+  description: string;
+  targets: number[];
+  zone: MpeZone;
+  // Member channels of the zone, 1-15; the lower zone counts up from channel 2, the upper zone down from 15
+  memberChannels: number;
+  // Pitch bend sensitivity of the member channels in semitones, sent with the zone configuration
+  bendRange: number;
+  baseOctave: number;
+  octaves: number;
+  velocity: number;
+}
+
+// One card in the sender grid: its type, position (array order) and parameters.
+export type SenderConfig =
+  | { id: number; type: 'standard'; params: StandardCCParams }
+  | { id: number; type: 'high-res'; params: HighResCCParams }
+  | { id: number; type: 'sysex'; params: SysExParams }
+  | { id: number; type: 'note'; params: NoteParams }
+  | { id: number; type: 'rpn'; params: RpnParams }
+  | { id: number; type: 'clock'; params: ClockParams }
+  | { id: number; type: 'mpe'; params: MpeParams };
+
+export type SenderType = SenderConfig['type'];
+
+export type SenderParams = SenderConfig['params'];
+
+// A named snapshot of the card values, recalled at once or morphed to.
+export interface Scene {
+  id: number;
+  name: string;
+  // Captured value fields per card id; cards added later are left alone on recall
+  values: Record<number, Partial<SenderParams>>;
+  // An incoming Program Change with this number (on any channel) recalls the scene; null for none
+  programChange: number | null;
+}
+
+export interface Workspace {
+  version: number;
+  senders: SenderConfig[];
+  scenes: Scene[];
+}
+
+export type MidiDirection = 'in' | 'out';
+
+export interface SessionEvent {
+  // Milliseconds since the recording started
+  time: number;
+  direction: MidiDirection;
+  // One complete MIDI message, status byte first
+  bytes: number[];
+}
+
+export interface Session {
+  version: number;
+  // ISO wall-clock time the recording started
+  startedAt: string;
+  events: SessionEvent[];
+}
+
+export type TestStep =
+  // One MIDI message as hex bytes, e.g. "B0 07 64"
+  | { id: number; type: 'send'; hex: string }
+  | { id: number; type: 'wait'; ms: number }
+  // Passes when a received message matches `pattern` ("??" matches any byte) within `timeoutMs`
+  // of the previous send. With `echo`, the pattern is the previously sent message instead.
+  | { id: number; type: 'expect'; pattern: string; echo: boolean; timeoutMs: number };
+
+export type TestStepType = TestStep['type'];
+
+export interface TestSequence {
+  version: number;
+  name: string;
+  // Skip the remaining steps after the first failure
+  stopOnFailure: boolean;
+  steps: TestStep[];
+}
+
+export type TestStepStatus = 'pending' | 'running' | 'pass' | 'fail' | 'skipped';
+
+export interface TestStepResult {
+  status: TestStepStatus;
+  // Milliseconds since the run started
+  startedAt: number | null;
+  durationMs: number | null;
+  detail: string;
+}
+
+interface ParsedMidiMessageBase {
   id: number;
   timestamp: string;
-  type: 'Note On' | 'Note Off' | 'Control Change' | 'Unknown';
-  channel: number;
-  data1: number;
-  data2: number;
   description: string;
-}
\ No newline at end of file
+  // Raw MIDI bytes of the message, status byte first
+  bytes: number[];
+  // 13-bit BLE-MIDI timestamp (milliseconds) decoded from the packet, if any
+  bleTimestamp?: number;
+  // High-resolution receive (or, for sent messages, write) time: performance.now() milliseconds
+  receivedAt: number;
+  // The whole BLE-MIDI notification the message arrived in; absent for transports without packet framing
+  packet?: number[];
+  // Id of the device connection the message came from, or was sent to
+  source?: number;
+  // 'out' for messages the simulator sent; unset for received messages
+  direction?: MidiDirection;
+  // Sent messages only: the card or panel that sent the message
+  origin?: string;
+  // Sent messages only: the BLE-MIDI packets of the write that carried the message
+  packets?: number[][];
+  // Sent messages only: why the write failed; unset when it succeeded
+  writeError?: string;
+  // Name from the device's profile, e.g. "Filter Cutoff = 87"
+  label?: string;
+}
+
+export type ChannelVoiceMessage =
+  | { type: 'Note Off'; channel: number; note: number; velocity: number }
+  | { type: 'Note On'; channel: number; note: number; velocity: number }
+  | { type: 'Poly Aftertouch'; channel: number; note: number; pressure: number }
+  | { type: 'Control Change'; channel: number; controller: number; value: number }
+  | { type: 'Program Change'; channel: number; program: number }
+  | { type: 'Channel Aftertouch'; channel: number; pressure: number }
+  // Signed 14-bit value, -8192 to 8191 (0 = center)
+  | { type: 'Pitch Bend'; channel: number; value: number };
+
+export type ParameterNumberKind = 'RPN' | 'NRPN';
+
+// A complete RPN/NRPN sequence (parameter select plus data entry), combined from its CCs for display
+export type ParameterNumberMessage = {
+  type: 'Parameter Number';
+  channel: number;
+  kind: ParameterNumberKind;
+  // 14-bit parameter number, MSB << 7 | LSB; 0x3FFF for RPN Null
+  parameter: number;
+  action: 'set' | 'increment' | 'decrement' | 'null';
+  // 14-bit data entry value for 'set' (LSB 0 when only CC 6 was sent), the CC value for increments
+  value: number;
+  // Data entry sent only its MSB (CC 6), without CC 38
+  msbOnly: boolean;
+};
+
+export type SystemCommonMessage =
+  // Full dump including the F0/F7 framing is in `bytes`; the manufacturer ID is 1 or 3 bytes
+  | { type: 'System Exclusive'; manufacturerId: number[] }
+  | { type: 'MTC Quarter Frame'; piece: number; value: number }
+  // Position in MIDI beats (1 beat = 6 MIDI clocks)
+  | { type: 'Song Position'; position: number }
+  | { type: 'Song Select'; song: number }
+  | { type: 'Tune Request' };
+
+export type SystemRealTimeMessage = {
+  type: 'System Real-Time';
+  status: number;
+  name: string;
+};
+
+export type MidiMessageBody =
+  | ChannelVoiceMessage
+  | ParameterNumberMessage
+  | SystemCommonMessage
+  | SystemRealTimeMessage
+  | { type: 'Unknown' };
+
+export type ParsedMidiMessage = ParsedMidiMessageBase & MidiMessageBody;
+
+export type MidiMessageType = ParsedMidiMessage['type'];
+
+
+export type TransportKind = 'bluetooth' | 'web-midi' | 'loopback' | 'peripheral';
+
+export type LoopbackMode = 'echo' | 'silent' | 'script';
+
+export interface TransportSettings {
+  kind: TransportKind;
+  // Web MIDI port to open; empty selects the first available port
+  webMidiPortName: string;
+  loopbackMode: LoopbackMode;
+  // Rules in the format understood by parseLoopbackScript
+  loopbackScript: string;
+  // WebSocket address of the virtual peripheral companion (peripheral/server.ts)
+  peripheralUrl: string;
+  // Local name the virtual peripheral advertises
+  peripheralName: string;
+  // Responses the companion sends to the central by itself, in the loopback script format
+  peripheralScript: string;
+}
+
+// Sent by the web UI to the virtual peripheral companion, as JSON over WebSocket.
+export type PeripheralCommand =
+  | { type: 'advertise'; name: string; script: string }
+  | { type: 'stop' }
+  // A MIDI message to notify the connected central of
+  | { type: 'send'; bytes: number[] };
+
+export interface PeripheralStatus {
+  // 'mock' serves a simulated GATT server to mock centrals over WebSocket instead of the radio
+  backend: 'bluetooth' | 'mock';
+  advertising: boolean;
+  // Address (or mock client id) of the subscribed central; null when none is connected
+  central: string | null;
+  error?: string;
+}
+
+// Sent by the companion to the web UI.
+export type PeripheralEvent =
+  | { type: 'status'; status: PeripheralStatus }
+  // A raw BLE-MIDI packet the central wrote to the MIDI characteristic
+  | { type: 'received'; packet: number[] };
+
+// One configured device connection; several can be open at the same time.
+export interface DeviceSlot {
+  id: number;
+  settings: TransportSettings;
+}
+
+export interface DeviceSummary {
+  id: number;
+  // The connected device's name, or "Device <id>"
+  name: string;
+  connected: boolean;
+}
+
+// Forwards every message received from one device to another (MIDI thru).
+export interface ThruRoute {
+  from: number;
+  to: number;
+  // Channel messages are moved to this channel (1-16); null keeps their channel
+  channel: number | null;
+}
+
+export interface MidiTransport {
+  readonly kind: TransportKind;
+  connect: () => Promise<void>;
+  disconnect: () => void;
+  // Sends one complete MIDI message (status byte first).
+  send: (message: Uint8Array) => void;
+  // All subscriptions return an unsubscribe function.
+  onMessage: (listener: (messages: ParsedMidiMessage[]) => void) => () => void;
+  onStatusChange: (listener: (state: MidiDeviceState) => void) => () => void;
+  // Reports every write to the link, including sends that could not be written.
+  onWrite: (listener: (write: TransportWrite) => void) => () => void;
+}
+
+export interface TransportWrite {
+  // The messages carried by this write, as passed to send()
+  messages: Uint8Array[];
+  // What went on the wire: BLE-MIDI packets, or nothing for transports without packet framing
+  packets: number[][];
+  // performance.now() milliseconds
+  writtenAt: number;
+  // Unset when the write succeeded
+  error?: string;
+}
@@ -0,0 +1,103 @@
+import type { AutomationConfig, Waveform } from '../types';
+
+export const DEFAULT_AUTOMATION_CONFIG: AutomationConfig = {
+  waveform: 'sine',
+  rateHz: 0.5,
+  depth: 1,
+  offset: 0.5,
+  phase: 0,
+};
+
+/**
+ * Evaluates a periodic waveform at a position given in cycles, returning -1 to 1.
+ * 'random' is sample-and-hold and handled by the engine, since it needs state.
+ */
+export const evaluateWaveform = (waveform: Exclude<Waveform, 'random'>, cycles: number): number => {
+  const t = cycles - Math.floor(cycles);
+  switch (waveform) {
+    case 'sine':
+      return Math.sin(2 * Math.PI * t);
+    case 'triangle':
+      return t < 0.25 ? 4 * t : t < 0.75 ? 2 - 4 * t : 4 * t - 4;
+    case 'saw':
+      return 2 * t - 1;
+    case 'square':
+      return t < 0.5 ? 1 : -1;
+    case 'ramp':
+      // Single rising ramp; the engine stops after one cycle.
+      return Math.min(cycles, 1) * 2 - 1;
+  }
+};
+
+interface AutomationEngineOptions {
+  getConfig: () => AutomationConfig;
+  getTickMs: () => number;
+  // Receives the output as a fraction of the full range, 0-1.
+  onValue: (normalized: number) => void;
+  // Called when a one-shot waveform ('ramp') has finished.
+  onComplete?: () => void;
+}
+
+export interface AutomationEngine {
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Drives a value from a waveform on its own timer. Positions are derived from the elapsed
+ * time since start rather than from tick counts, so timer jitter never accumulates into drift.
+ */
+export const createAutomationEngine = ({ getConfig, getTickMs, onValue, onComplete }: AutomationEngineOptions): AutomationEngine => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let startedAt = 0;
+  let heldCycle = -1;
+  let heldValue = 0;
+
+  const stop = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const tick = () => {
+    const config = getConfig();
+    const elapsedCycles = ((performance.now() - startedAt) / 1000) * config.rateHz;
+    const cycles = elapsedCycles + config.phase / 360;
+
+    let wave: number;
+    if (config.waveform === 'random') {
+      const cycle = Math.floor(cycles);
+      if (cycle !== heldCycle) {
+        heldCycle = cycle;
+        heldValue = Math.random() * 2 - 1;
+      }
+      wave = heldValue;
+    } else {
+      // The ramp ignores phase and always runs from its lowest to its highest point.
+      wave = evaluateWaveform(config.waveform, config.waveform === 'ramp' ? elapsedCycles : cycles);
+    }
+
+    const normalized = Math.min(Math.max(config.offset + (config.depth / 2) * wave, 0), 1);
+    onValue(normalized);
+
+    if (config.waveform === 'ramp' && elapsedCycles >= 1) {
+      stop();
+      onComplete?.();
+      return;
+    }
+    // Align the next tick to the tick grid measured from start.
+    const tickMs = getTickMs();
+    const elapsed = performance.now() - startedAt;
+    timer = setTimeout(tick, tickMs - (elapsed % tickMs));
+  };
+
+  const start = () => {
+    stop();
+    startedAt = performance.now();
+    heldCycle = -1;
+    tick();
+  };
+
+  return { start, stop };
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createBleMidiDecoder, decodeBleMidiPacket } from './bleMidiDecoder';
+
+const decodeBytes = (bytes: number[]) => decodeBleMidiPacket(new Uint8Array(bytes)).map(message => message.bytes);
+
+describe('decodeBleMidiPacket', () => {
+  it('decodes a single timestamped message', () => {
+    const [message] = decodeBleMidiPacket(new Uint8Array([0x81, 0x85, 0x90, 60, 100]));
+    expect(message.bytes).toEqual([0x90, 60, 100]);
+    expect(message.bleTimestamp).toBe((1 << 7) | 5);
+    expect(message.packet).toEqual([0x81, 0x85, 0x90, 60, 100]);
+  });
+
+  it('accepts a DataView', () => {
+    const buffer = new Uint8Array([0x00, 0x80, 0x80, 0xb0, 7, 64]).buffer;
+    const messages = decodeBleMidiPacket(new DataView(buffer, 1));
+    expect(messages.map(message => message.bytes)).toEqual([[0xb0, 7, 64]]);
+  });
+
+  it('applies running status with and without a new timestamp', () => {
+    expect(decodeBytes([0x80, 0x80, 0x90, 60, 100, 62, 100, 0x81, 64, 100])).toEqual([
+      [0x90, 60, 100],
+      [0x90, 62, 100],
+      [0x90, 64, 100],
+    ]);
+  });
+
+  it('emits real-time bytes interleaved in a message without breaking it', () => {
+    expect(decodeBytes([0x80, 0x80, 0xb0, 7, 0x81, 0xf8, 64])).toEqual([
+      [0xf8],
+      [0xb0, 7, 64],
+    ]);
+  });
+
+  it('keeps running status across real-time bytes but not system common messages', () => {
+    expect(decodeBytes([0x80, 0x80, 0x90, 60, 100, 0x80, 0xf8, 0x80, 62, 100])).toEqual([
+      [0x90, 60, 100],
+      [0xf8],
+      [0x90, 62, 100],
+    ]);
+    expect(decodeBytes([0x80, 0x80, 0x90, 60, 100, 0x80, 0xf6, 0x80, 62, 100])).toEqual([
+      [0x90, 60, 100],
+      [0xf6],
+    ]);
+  });
+
+  it('advances the upper timestamp bits when the lower bits wrap', () => {
+    const messages = decodeBleMidiPacket(new Uint8Array([0x80, 0xfe, 0xf8, 0x81, 0xf8]));
+    expect(messages.map(message => message.bleTimestamp)).toEqual([0x7e, (1 << 7) | 1]);
+  });
+
+  it('decodes a SysEx within one packet', () => {
+    expect(decodeBytes([0x80, 0x80, 0xf0, 0x7e, 0x7f, 0x06, 0x01, 0x80, 0xf7])).toEqual([
+      [0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7],
+    ]);
+  });
+
+  it('drops packets with an invalid header', () => {
+    expect(decodeBytes([0xc0, 0x80, 0xf8])).toEqual([]);
+    expect(decodeBytes([0x80])).toEqual([]);
+  });
+
+  it('keeps messages before malformed trailing bytes', () => {
+    expect(decodeBytes([0x80, 0x80, 0x90, 60, 100, 0x80, 0x90, 60])).toEqual([[0x90, 60, 100]]);
+  });
+
+  it('skips the continuation of a SysEx whose start was missed', () => {
+    expect(decodeBytes([0x80, 0x01, 0x02, 0x80, 0xf7, 0x80, 0xf8])).toEqual([[0xf8]]);
+  });
+});
+
+describe('createBleMidiDecoder', () => {
+  it('reassembles a SysEx spanning several packets', () => {
+    const decoder = createBleMidiDecoder();
+    expect(decoder.decode(new Uint8Array([0x80, 0x80, 0xf0, 0x43, 0x10]))).toEqual([]);
+    expect(decoder.decode(new Uint8Array([0x80, 0x4c, 0x00]))).toEqual([]);
+    const [message] = decoder.decode(new Uint8Array([0x80, 0x7f, 0x81, 0xf7, 0x81, 0xf8]));
+    expect(message.bytes).toEqual([0xf0, 0x43, 0x10, 0x4c, 0x00, 0x7f, 0xf7]);
+  });
+
+  it('passes real-time bytes through an open SysEx', () => {
+    const decoder = createBleMidiDecoder();
+    const messages = decoder.decode(new Uint8Array([0x80, 0x80, 0xf0, 0x01, 0x81, 0xf8, 0x02, 0x82, 0xf7]));
+    expect(messages.map(message => message.bytes)).toEqual([[0xf8], [0xf0, 0x01, 0x02, 0xf7]]);
+  });
+
+  it('aborts a SysEx interrupted by another status byte', () => {
+    const decoder = createBleMidiDecoder();
+    const messages = decoder.decode(new Uint8Array([0x80, 0x80, 0xf0, 0x01, 0x81, 0x90, 60, 100]));
+    expect(messages.map(message => message.bytes)).toEqual([[0x90, 60, 100]]);
+  });
+
+  it('forgets a partial SysEx on reset', () => {
+    const decoder = createBleMidiDecoder();
+    decoder.decode(new Uint8Array([0x80, 0x80, 0xf0, 0x01]));
+    decoder.reset();
+    expect(decoder.decode(new Uint8Array([0x80, 0x02, 0x80, 0xf7])).map(message => message.bytes)).toEqual([]);
+  });
+});
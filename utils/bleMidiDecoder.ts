@@ -0,0 +1,181 @@
+import type { ParsedMidiMessage } from '../types';
+import { getMidiDataLength, isRealTimeStatus, parseMidiMessage } from './midiParser';
+
+/*
+ * BLE-MIDI packet layout (MIDI over Bluetooth Low Energy 1.0):
+ *
+ *   [header] [timestamp] [status] [data...] [timestamp] [status] [data...] ...
+ *
+ * - header:    1 0 t t t t t t  -> upper 6 bits of the 13-bit millisecond timestamp
+ * - timestamp: 1 t t t t t t t  -> lower 7 bits, precedes every full message
+ * - Running status: a message may omit its status byte, with or without a new
+ *   timestamp byte in front of its data bytes.
+ * - System Real-Time bytes may appear between any two bytes of another message,
+ *   always preceded by their own timestamp byte, and do not cancel running status.
+ * - SysEx may continue in the next packet, in which case the packet starts with
+ *   data bytes right after the header. The terminating F7 is preceded by a timestamp.
+ */
+
+// Upper bound for a single reassembled SysEx dump, to survive a peer that never sends F7.
+const MAX_SYSEX_LENGTH = 1024 * 1024;
+
+const isDataByte = (byte: number) => (byte & 0x80) === 0;
+
+const toBytes = (data: DataView | Uint8Array): Uint8Array =>
+  data instanceof Uint8Array ? data : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+export interface BleMidiDecoder {
+  // Decodes one characteristic notification into every MIDI message it carries.
+  decode: (data: DataView | Uint8Array) => ParsedMidiMessage[];
+  // Discards any partially received SysEx, e.g. after a reconnect.
+  reset: () => void;
+}
+
+/**
+ * Creates a decoder that keeps SysEx state between notifications, so dumps that span
+ * several packets are reassembled into a single 'System Exclusive' message.
+ * Malformed trailing bytes are dropped; well-formed messages before them are still returned.
+ */
+export const createBleMidiDecoder = (): BleMidiDecoder => {
+  // Bytes of the SysEx in progress (starting with F0), or null when none is open.
+  let sysExBuffer: number[] | null = null;
+
+  const decode = (data: DataView | Uint8Array): ParsedMidiMessage[] => {
+    const bytes = toBytes(data);
+    const messages: ParsedMidiMessage[] = [];
+    // Shared by every message decoded from this packet.
+    const packet = Array.from(bytes);
+
+    if (bytes.length < 2) return messages;
+    const header = bytes[0];
+    // The header must have bit 7 set and bit 6 cleared.
+    if ((header & 0xc0) !== 0x80) return messages;
+
+    let timestampHigh = header & 0x3f;
+    let lastTimestampLow = -1;
+    let timestamp = timestampHigh << 7;
+    let runningStatus = 0;
+    let i = 1;
+
+    const readTimestamp = (byte: number) => {
+      const low = byte & 0x7f;
+      // A lower timestamp than the previous one in the same packet means the low bits wrapped.
+      if (lastTimestampLow !== -1 && low < lastTimestampLow) {
+        timestampHigh = (timestampHigh + 1) & 0x3f;
+      }
+      lastTimestampLow = low;
+      timestamp = (timestampHigh << 7) | low;
+    };
+
+    const emit = (message: number[], messageTimestamp = timestamp) => {
+      const parsed = parseMidiMessage(message, messageTimestamp);
+      if (parsed) messages.push({ ...parsed, packet });
+    };
+
+    // A packet starting with data bytes continues a SysEx from a previous packet. Without an
+    // open SysEx those bytes belong to a dump whose start we missed, and are skipped.
+    let inSysEx = sysExBuffer !== null || isDataByte(bytes[1]);
+
+    while (i < bytes.length) {
+      const byte = bytes[i];
+
+      if (inSysEx) {
+        if (isDataByte(byte)) {
+          if (sysExBuffer && sysExBuffer.length < MAX_SYSEX_LENGTH) sysExBuffer.push(byte);
+          i++;
+          continue;
+        }
+        // A byte with bit 7 set inside SysEx is a timestamp for either F7 or an interleaved real-time byte.
+        readTimestamp(byte);
+        const next = bytes[i + 1];
+        if (next === undefined) break;
+        if (isRealTimeStatus(next)) {
+          emit([next]);
+          i += 2;
+          continue;
+        }
+        // F7 ends the SysEx; any other status byte aborts it and is handled as a new message.
+        inSysEx = false;
+        if (next === 0xf7) {
+          if (sysExBuffer) emit([...sysExBuffer, 0xf7]);
+          i += 2;
+        }
+        sysExBuffer = null;
+        // Otherwise the timestamp byte is re-read as the start of the next message.
+        continue;
+      }
+
+      let status: number;
+      if (isDataByte(byte)) {
+        // Running status without a timestamp byte.
+        status = runningStatus;
+      } else {
+        readTimestamp(byte);
+        i++;
+        if (i >= bytes.length) break;
+        const next = bytes[i];
+        if (isDataByte(next)) {
+          // Running status with a new timestamp.
+          status = runningStatus;
+        } else {
+          status = next;
+          i++;
+          if (isRealTimeStatus(status)) {
+            emit([status]);
+            continue;
+          }
+          if (status === 0xf0) {
+            inSysEx = true;
+            sysExBuffer = [0xf0];
+            runningStatus = 0;
+            continue;
+          }
+          // Channel messages set running status; system common messages clear it.
+          runningStatus = status < 0xf0 ? status : 0;
+        }
+      }
+
+      if (status === 0) {
+        // Data byte without any status to apply it to.
+        i++;
+        continue;
+      }
+
+      const dataLength = getMidiDataLength(status);
+      const messageTimestamp = timestamp;
+      const message = [status];
+      while (message.length <= dataLength && i < bytes.length) {
+        const dataByte = bytes[i];
+        if (isDataByte(dataByte)) {
+          message.push(dataByte);
+          i++;
+        } else if (i + 1 < bytes.length && isRealTimeStatus(bytes[i + 1])) {
+          // Timestamped real-time byte interleaved between data bytes.
+          readTimestamp(dataByte);
+          emit([bytes[i + 1]]);
+          i += 2;
+        } else {
+          break;
+        }
+      }
+
+      if (message.length === dataLength + 1) {
+        emit(message, messageTimestamp);
+      }
+    }
+
+    return messages;
+  };
+
+  const reset = () => {
+    sysExBuffer = null;
+  };
+
+  return { decode, reset };
+};
+
+/**
+ * Decodes a single notification without carrying SysEx state over from earlier packets.
+ */
+export const decodeBleMidiPacket = (data: DataView | Uint8Array): ParsedMidiMessage[] =>
+  createBleMidiDecoder().decode(data);
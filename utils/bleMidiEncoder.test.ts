@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { encodeBleMidiPackets, getMaxPacketSize } from './bleMidiEncoder';
+import { decodeBleMidiPacket } from './bleMidiDecoder';
+
+const at = (timestamp: number, ...bytes: number[]) => ({ data: new Uint8Array(bytes), timestamp });
+const toArrays = (packets: Uint8Array[]) => packets.map(packet => Array.from(packet));
+
+describe('getMaxPacketSize', () => {
+  it('leaves room for the ATT header', () => {
+    expect(getMaxPacketSize(23)).toBe(20);
+    expect(getMaxPacketSize(185)).toBe(182);
+  });
+
+  it('never goes below one timestamped three-byte message', () => {
+    expect(getMaxPacketSize(4)).toBe(5);
+  });
+});
+
+describe('encodeBleMidiPackets', () => {
+  it('writes a header and a timestamp byte', () => {
+    expect(toArrays(encodeBleMidiPackets([at((2 << 7) | 5, 0x90, 60, 100)]))).toEqual([
+      [0x82, 0x85, 0x90, 60, 100],
+    ]);
+  });
+
+  it('uses running status and drops repeated timestamps', () => {
+    const packets = encodeBleMidiPackets([
+      at(10, 0xb0, 0, 1),
+      at(10, 0xb0, 32, 2),
+      at(11, 0xb0, 7, 3),
+    ]);
+    expect(toArrays(packets)).toEqual([[0x80, 0x8a, 0xb0, 0, 1, 32, 2, 0x8b, 7, 3]]);
+  });
+
+  it('starts a new packet when the upper timestamp bits change', () => {
+    const packets = encodeBleMidiPackets([at(0x7f, 0xf8), at(0x80, 0xf8)]);
+    expect(toArrays(packets)).toEqual([[0x80, 0xff, 0xf8], [0x81, 0x80, 0xf8]]);
+  });
+
+  it('splits messages across packets at the MTU', () => {
+    const messages = Array.from({ length: 8 }, (_, i) => at(0, 0x90 + i, 60, 100));
+    const packets = encodeBleMidiPackets(messages, 23);
+    expect(packets.every(packet => packet.length <= 20)).toBe(true);
+    // Each packet restarts running status, so every message is decoded again.
+    const decoded = packets.flatMap(packet => decodeBleMidiPacket(packet).map(message => message.bytes));
+    expect(decoded).toEqual(messages.map(message => Array.from(message.data)));
+  });
+
+  it('fragments a long SysEx with continuation packets', () => {
+    const sysEx = [0xf0, ...Array.from({ length: 40 }, (_, i) => i), 0xf7];
+    const packets = encodeBleMidiPackets([at(3, ...sysEx)], 23);
+    expect(packets.length).toBeGreaterThan(1);
+    expect(packets.every(packet => packet.length <= 20)).toBe(true);
+    expect(Array.from(packets[0].subarray(0, 3))).toEqual([0x80, 0x83, 0xf0]);
+    // Continuation packets carry data bytes right after the header.
+    expect(packets[1][1] & 0x80).toBe(0);
+    const last = packets[packets.length - 1];
+    expect(Array.from(last.subarray(-2))).toEqual([0x83, 0xf7]);
+  });
+
+  it('round-trips through the decoder', () => {
+    const messages = [
+      at(100, 0x90, 60, 100),
+      at(100, 0xf8),
+      at(101, 0x90, 62, 90),
+      at(102, 0xf0, 0x7e, 0x7f, 0x06, 0x01, 0xf7),
+      at(103, 0xe0, 0, 64),
+    ];
+    const decoded = encodeBleMidiPackets(messages).flatMap(packet =>
+      decodeBleMidiPacket(packet).map(message => [message.bytes, message.bleTimestamp]),
+    );
+    expect(decoded).toEqual(messages.map(message => [Array.from(message.data), message.timestamp]));
+  });
+
+  it('skips empty messages', () => {
+    expect(encodeBleMidiPackets([at(0)])).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { isRealTimeStatus } from './midiParser';
+
+// ATT header overhead: an ATT_MTU of 23 leaves 20 bytes for the characteristic value.
+const ATT_HEADER_SIZE = 3;
+export const DEFAULT_BLE_MTU = 23;
+
+export interface TimestampedMidiMessage {
+  data: Uint8Array;
+  // Milliseconds, e.g. from performance.now(). Only the lower 13 bits go on the wire.
+  timestamp: number;
+}
+
+export const getMaxPacketSize = (mtu: number): number => Math.max(mtu - ATT_HEADER_SIZE, 5);
+
+const headerByte = (timestamp: number) => 0x80 | ((Math.floor(timestamp) >> 7) & 0x3f);
+const timestampByte = (timestamp: number) => 0x80 | (Math.floor(timestamp) & 0x7f);
+const timestampHigh = (timestamp: number) => (Math.floor(timestamp) >> 7) & 0x3f;
+
+/**
+ * Packs MIDI messages into as few BLE-MIDI packets as possible.
+ *
+ * Each packet starts with a header carrying the upper timestamp bits, and every message
+ * gets a timestamp byte unless it can reuse both the previous timestamp and running status.
+ * A new packet is started when the next message would exceed the maximum packet size or
+ * when its upper timestamp bits differ from the current header.
+ *
+ * SysEx messages (F0 ... F7) are fragmented across as many packets as needed: continuation
+ * packets carry the header followed directly by data bytes, and F7 gets its own timestamp.
+ */
+export const encodeBleMidiPackets = (
+  messages: TimestampedMidiMessage[],
+  mtu: number = DEFAULT_BLE_MTU,
+): Uint8Array[] => {
+  const maxPacketSize = getMaxPacketSize(mtu);
+  const packets: Uint8Array[] = [];
+
+  let current: number[] = [];
+  let currentHigh = -1;
+  let runningStatus = 0;
+  let lastTimestampByte = -1;
+
+  const closePacket = () => {
+    if (current.length > 1) packets.push(new Uint8Array(current));
+    current = [];
+    currentHigh = -1;
+    runningStatus = 0;
+    lastTimestampByte = -1;
+  };
+
+  const ensureRoom = (byteCount: number, timestamp: number) => {
+    if (current.length > 0 && current.length + byteCount > maxPacketSize) closePacket();
+    if (current.length === 0) {
+      current.push(headerByte(timestamp));
+      currentHigh = timestampHigh(timestamp);
+    }
+  };
+
+  const encodeSysEx = (data: Uint8Array, timestamp: number) => {
+    const tsByte = timestampByte(timestamp);
+    const end = data[data.length - 1] === 0xf7 ? data.length - 1 : data.length;
+
+    if (current.length > 0 && timestampHigh(timestamp) !== currentHigh) closePacket();
+    // Start the SysEx where at least one data byte fits after the timestamp and F0.
+    ensureRoom(3, timestamp);
+    current.push(tsByte, 0xf0);
+    for (let i = 1; i < end; i++) {
+      ensureRoom(1, timestamp);
+      current.push(data[i] & 0x7f);
+    }
+    ensureRoom(2, timestamp);
+    current.push(tsByte, 0xf7);
+    lastTimestampByte = tsByte;
+    runningStatus = 0;
+  };
+
+  for (const { data, timestamp } of messages) {
+    if (data.length === 0) continue;
+    const status = data[0];
+    if (status === 0xf0) {
+      encodeSysEx(data, timestamp);
+      continue;
+    }
+    const high = timestampHigh(timestamp);
+    const tsByte = timestampByte(timestamp);
+
+    const encode = (): number[] => {
+      const isChannelMessage = status >= 0x80 && status < 0xf0;
+      if (isChannelMessage && status === runningStatus) {
+        // Same status as the previous message: omit the status byte, and the timestamp too if unchanged.
+        return tsByte === lastTimestampByte ? Array.from(data.subarray(1)) : [tsByte, ...data.subarray(1)];
+      }
+      return [tsByte, ...data];
+    };
+
+    if (current.length > 0 && high !== currentHigh) closePacket();
+    let encoded = encode();
+    if (current.length > 0 && current.length + encoded.length > maxPacketSize) {
+      closePacket();
+      encoded = encode();
+    }
+    if (current.length === 0) {
+      current.push(headerByte(timestamp));
+      currentHigh = high;
+    }
+
+    current.push(...encoded);
+    lastTimestampByte = tsByte;
+    if (status < 0xf0) {
+      runningStatus = status;
+    } else if (!isRealTimeStatus(status)) {
+      // System common messages cancel running status; real-time messages do not.
+      runningStatus = 0;
+    }
+  }
+
+  closePacket();
+  return packets;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedMidiMessage } from '../types';
+import { applyControllerMessages, getHighResValue, type ControllerState } from './controllerState';
+import { controlChange, noteOff, noteOn } from './midiBuilder';
+import { parseMidiMessage } from './midiParser';
+
+const parse = (...messages: Uint8Array[]) => messages.map(bytes => parseMidiMessage(bytes) as ParsedMidiMessage);
+const apply = (state: ControllerState, ...messages: Uint8Array[]) => applyControllerMessages(state, parse(...messages));
+const values = (state: ControllerState, channel: number) =>
+  Object.fromEntries(Object.entries(state[channel].controllers).map(([cc, { value }]) => [cc, value]));
+
+describe('applyControllerMessages', () => {
+  it('stores CC values per channel without touching the previous state', () => {
+    const before = apply({}, controlChange(1, 7, 100));
+    const after = apply(before, controlChange(1, 7, 90), controlChange(2, 10, 64));
+    expect(values(after, 1)).toEqual({ 7: 90 });
+    expect(values(after, 2)).toEqual({ 10: 64 });
+    expect(values(before, 1)).toEqual({ 7: 100 });
+    expect(after[3]).toBeUndefined();
+  });
+
+  it('resets the LSB when a new MSB arrives', () => {
+    const state = apply({}, controlChange(1, 1, 64), controlChange(1, 33, 100));
+    expect(getHighResValue(state[1], 1)).toBe((64 << 7) | 100);
+    expect(getHighResValue(apply(state, controlChange(1, 1, 65))[1], 1)).toBe(65 << 7);
+  });
+
+  it('has no high-resolution value without an LSB', () => {
+    const state = apply({}, controlChange(1, 7, 100));
+    expect(getHighResValue(state[1], 7)).toBeNull();
+  });
+
+  it('tracks held notes, with velocity 0 as Note Off', () => {
+    const state = apply({}, noteOn(1, 60, 100), noteOn(1, 64, 90), noteOff(1, 60), noteOn(1, 67, 80), noteOn(1, 67, 0));
+    expect(state[1].heldNotes).toEqual({ 64: 90 });
+  });
+
+  it('releases all held notes on All Notes Off and All Sound Off', () => {
+    const held = apply({}, noteOn(1, 60, 100));
+    expect(apply(held, controlChange(1, 123, 0))[1].heldNotes).toEqual({});
+    expect(apply(held, controlChange(1, 120, 0))[1].heldNotes).toEqual({});
+  });
+
+  it('resets only the RP-015 controllers on Reset All Controllers', () => {
+    const state = apply({},
+      controlChange(1, 1, 90),
+      controlChange(1, 11, 40),
+      controlChange(1, 64, 127),
+      controlChange(1, 101, 0),
+      controlChange(1, 7, 100),
+      controlChange(1, 0, 2),
+      controlChange(1, 74, 30),
+      controlChange(1, 121, 0),
+    );
+    expect(values(state, 1)).toEqual({ 0: 2, 1: 0, 7: 100, 11: 127, 64: 0, 74: 30, 101: 127, 121: 0 });
+  });
+
+  it('keeps the change time of a controller that is set to its current value', () => {
+    const before = apply({}, controlChange(1, 7, 100));
+    const after = apply(before, controlChange(1, 7, 100));
+    expect(after[1].controllers[7]).toEqual(before[1].controllers[7]);
+  });
+});
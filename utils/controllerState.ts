@@ -0,0 +1,112 @@
+import type { ParsedMidiMessage } from '../types';
+
+export interface ControllerValue {
+  value: number;
+  // performance.now() of the last message that changed the value.
+  changedAt: number;
+}
+
+export interface ChannelState {
+  controllers: Record<number, ControllerValue>;
+  // Held note -> Note On velocity.
+  heldNotes: Record<number, number>;
+}
+
+// Keyed by channel (1-16); channels without any traffic are absent.
+export type ControllerState = Record<number, ChannelState>;
+
+const ALL_SOUND_OFF = 120;
+const RESET_ALL_CONTROLLERS = 121;
+const ALL_NOTES_OFF = 123;
+
+// RP-015 (Response to Reset All Controllers): modulation, expression, the pedals and the RPN/NRPN
+// selection return to these values. Everything else, e.g. bank select, volume, pan and the
+// sound and effect controllers, keeps its value.
+const RESET_VALUES: Record<number, number> = {
+  1: 0, // Modulation
+  33: 0, // Modulation LSB
+  11: 127, // Expression
+  64: 0, // Sustain
+  65: 0, // Portamento
+  66: 0, // Sostenuto
+  67: 0, // Soft
+  98: 127, // NRPN LSB
+  99: 127, // NRPN MSB
+  100: 127, // RPN LSB
+  101: 127, // RPN MSB
+};
+
+const emptyChannel = (): ChannelState => ({ controllers: {}, heldNotes: {} });
+
+/**
+ * Applies received messages to the controller state and returns the new state.
+ * The input is never mutated, so the result can be stored in React state directly.
+ */
+export const applyControllerMessages = (state: ControllerState, messages: ParsedMidiMessage[]): ControllerState => {
+  let next = state;
+  const now = performance.now();
+
+  // Copies a channel the first time it is touched in this batch.
+  const touched = new Set<number>();
+  const channelFor = (channel: number): ChannelState => {
+    if (!touched.has(channel)) {
+      const previous = next[channel] ?? emptyChannel();
+      next = {
+        ...next,
+        [channel]: { controllers: { ...previous.controllers }, heldNotes: { ...previous.heldNotes } },
+      };
+      touched.add(channel);
+    }
+    return next[channel];
+  };
+
+  for (const message of messages) {
+    switch (message.type) {
+      case 'Note On':
+      case 'Note Off': {
+        const channel = channelFor(message.channel);
+        // Note On with velocity 0 is a Note Off.
+        if (message.type === 'Note On' && message.velocity > 0) {
+          channel.heldNotes[message.note] = message.velocity;
+        } else {
+          delete channel.heldNotes[message.note];
+        }
+        break;
+      }
+      case 'Control Change': {
+        const channel = channelFor(message.channel);
+        const { controller, value } = message;
+        if (channel.controllers[controller]?.value !== value) {
+          channel.controllers[controller] = { value, changedAt: now };
+        }
+        // Per the MIDI spec a new MSB resets its LSB, so a 7-bit-only sender still reads correctly.
+        const lsb = channel.controllers[controller + 32];
+        if (controller < 32 && lsb && lsb.value !== 0) {
+          channel.controllers[controller + 32] = { value: 0, changedAt: now };
+        }
+        if (controller === ALL_SOUND_OFF || controller === ALL_NOTES_OFF) {
+          channel.heldNotes = {};
+        }
+        if (controller === RESET_ALL_CONTROLLERS) {
+          Object.entries(RESET_VALUES).forEach(([number, reset]) => {
+            const current = channel.controllers[Number(number)];
+            if (current && current.value !== reset) channel.controllers[Number(number)] = { value: reset, changedAt: now };
+          });
+        }
+        break;
+      }
+    }
+  }
+  return next;
+};
+
+/**
+ * Combines CC n (0-31) with its LSB CC n + 32 the same way controlChange14bit splits it.
+ * Returns null until an LSB has been received, i.e. for plain 7-bit controllers.
+ */
+export const getHighResValue = (channel: ChannelState, msbCc: number): number | null => {
+  const msb = channel.controllers[msbCc];
+  const lsb = channel.controllers[msbCc + 32];
+  if (msbCc >= 32 || !msb || !lsb) return null;
+  return (msb.value << 7) | lsb.value;
+};
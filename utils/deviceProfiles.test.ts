@@ -0,0 +1,169 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { DeviceProfile, ParsedMidiMessage, ProfileParameter } from '../types';
+import {
+  createMessageLabeler,
+  getValueName,
+  getValueRange,
+  labelMessage,
+  parseDeviceProfile,
+} from './deviceProfiles';
+import { parseMidiMessage } from './midiParser';
+
+const parse = (...bytes: number[]) => parseMidiMessage(bytes) as ParsedMidiMessage;
+
+const JSON_PROFILE = JSON.stringify({
+  version: 1,
+  name: ' Acme Synth ',
+  deviceNames: ['Acme', '', 7],
+  parameters: [
+    { type: 'cc', number: 74, name: 'Filter Cutoff' },
+    { type: 'cc', number: 70, name: 'Waveform', min: 0, max: 3, values: { 0: 'Saw', 1: 'Square', x: 'ignored' } },
+    { type: 'nrpn', number: 300, max: 1000 },
+  ],
+  programs: [{ number: 12, name: 'Warm Pad' }],
+});
+
+const MIDNAM = `<?xml version="1.0" encoding="UTF-8"?>
+<MIDINameDocument>
+  <MasterDeviceNames>
+    <Manufacturer>Acme</Manufacturer>
+    <Model>Pulse</Model>
+    <ChannelNameSet Name="All">
+      <PatchBank Name="Factory">
+        <MIDICommands>
+          <ControlChange Control="0" Value="0"/>
+          <ControlChange Control="32" Value="0"/>
+        </MIDICommands>
+        <PatchNameList>
+          <Patch Number="001" Name="Init" ProgramChange="0"/>
+          <Patch Number="002" Name="Display only"/>
+        </PatchNameList>
+      </PatchBank>
+      <PatchBank Name="User">
+        <MIDICommands>
+          <ControlChange Control="0" Value="1"/>
+        </MIDICommands>
+        <UsesPatchNameList Name="User Patches"/>
+      </PatchBank>
+    </ChannelNameSet>
+    <PatchNameList Name="User Patches">
+      <Patch Number="001" Name="My Lead" ProgramChange="0"/>
+    </PatchNameList>
+    <ControlNameList Name="Controls">
+      <Control Type="7bit" Number="70" Name="Waveform">
+        <Values Min="0" Max="1">
+          <UsesValueNameList Name="Shapes"/>
+        </Values>
+      </Control>
+      <Control Type="14bit" Number="1" Name="Mod Wheel">
+        <Values Min="0" Max="16383"/>
+      </Control>
+      <Control Type="NRPN" Number="300" Name="Env Attack"/>
+    </ControlNameList>
+    <ValueNameList Name="Shapes">
+      <Value Number="0" Name="Saw"/>
+      <Value Number="1" Name="Square"/>
+    </ValueNameList>
+  </MasterDeviceNames>
+</MIDINameDocument>`;
+
+describe('parseDeviceProfile', () => {
+  it('reads the JSON format with defaults for missing fields', () => {
+    expect(parseDeviceProfile(JSON_PROFILE)).toEqual({
+      name: 'Acme Synth',
+      deviceNames: ['Acme'],
+      parameters: [
+        { kind: 'cc', number: 74, name: 'Filter Cutoff', min: 0, max: 127, values: {} },
+        { kind: 'cc', number: 70, name: 'Waveform', min: 0, max: 3, values: { 0: 'Saw', 1: 'Square' } },
+        { kind: 'nrpn', number: 300, name: 'NRPN 300', min: 0, max: 1000, values: {} },
+      ],
+      programs: [{ number: 12, name: 'Warm Pad' }],
+    });
+  });
+
+  it('rejects unusable JSON profiles', () => {
+    expect(() => parseDeviceProfile('{}')).toThrow('Not a device profile: "name" is missing.');
+    expect(() => parseDeviceProfile(JSON.stringify({ name: 'X', version: 2 }))).toThrow(/newer/);
+    expect(() => parseDeviceProfile(JSON.stringify({ name: 'X', parameters: [{ type: 'sysex', number: 1 }] })))
+      .toThrow('Parameter 0: unknown type "sysex" (expected cc, rpn, nrpn).');
+    expect(() => parseDeviceProfile(JSON.stringify({ name: 'X', parameters: [{ type: 'cc', number: 128 }] })))
+      .toThrow('Parameter 0: number must be 0-127.');
+    expect(() => parseDeviceProfile(JSON.stringify({ name: 'X', programs: [{ number: 1, bank: -1 }] })))
+      .toThrow('Program 0: bank must be 0-16383.');
+  });
+
+  it('reads controls and per-bank patches from MIDNAM', () => {
+    const profile = parseDeviceProfile(MIDNAM);
+    expect(profile.name).toBe('Acme Pulse');
+    expect(profile.deviceNames).toEqual(['Pulse']);
+    expect(profile.parameters).toEqual([
+      { kind: 'cc', number: 70, name: 'Waveform', min: 0, max: 1, values: { 0: 'Saw', 1: 'Square' } },
+      // 14-bit controls are ranged in MSB steps.
+      { kind: 'cc', number: 1, name: 'Mod Wheel', min: 0, max: 127, values: {} },
+      { kind: 'nrpn', number: 300, name: 'Env Attack', min: 0, max: 16383, values: {} },
+    ]);
+    expect(profile.programs).toEqual([
+      { number: 0, name: 'Init', bank: 0 },
+      { number: 0, name: 'My Lead', bank: 1 << 7 },
+    ]);
+  });
+
+  it('rejects documents that are not MIDNAM', () => {
+    expect(() => parseDeviceProfile('<html></html>')).toThrow('Not a MIDNAM document.');
+    expect(() => parseDeviceProfile(MIDNAM.replace('Type="NRPN"', 'Type="SysEx"'))).toThrow('Control 2: unknown type "SysEx".');
+  });
+});
+
+describe('labelMessage', () => {
+  const profile = parseDeviceProfile(JSON_PROFILE);
+
+  it('names controllers and their values', () => {
+    expect(labelMessage(parse(0xb0, 74, 87), profile).label).toBe('Filter Cutoff = 87');
+    expect(labelMessage(parse(0xb0, 70, 1), profile).label).toBe('Waveform = Square');
+    expect(labelMessage(parse(0xb0, 7, 100), profile).label).toBeUndefined();
+  });
+
+  it('names programs', () => {
+    expect(labelMessage(parse(0xc0, 12), profile).label).toBe('Warm Pad (12)');
+  });
+});
+
+describe('createMessageLabeler', () => {
+  const profile: DeviceProfile = parseDeviceProfile(MIDNAM);
+
+  it('names a Program Change from the bank selected on its channel', () => {
+    const label = createMessageLabeler();
+    // Both banks have program 0, so it stays unnamed until a bank is selected.
+    expect(label(parse(0xc0, 0), profile).label).toBeUndefined();
+    label(parse(0xb0, 0, 1), profile);
+    label(parse(0xb0, 32, 0), profile);
+    expect(label(parse(0xc0, 0), profile).label).toBe('My Lead (0)');
+    expect(label(parse(0xc1, 0), profile).label).toBeUndefined();
+    label(parse(0xb0, 0, 0), profile);
+    expect(label(parse(0xc0, 0), profile).label).toBe('Init (0)');
+  });
+});
+
+describe('value ranges', () => {
+  const waveform: ProfileParameter = { kind: 'cc', number: 70, name: 'Waveform', min: 1, max: 3, values: { 2: 'Square' } };
+  const attack: ProfileParameter = { kind: 'nrpn', number: 300, name: 'Attack', min: 0, max: 1000, values: { 1000: 'Max' } };
+
+  it('uses the full range without a parameter', () => {
+    expect(getValueRange(null, 7)).toEqual({ min: 0, max: 127 });
+    expect(getValueRange(null, 14)).toEqual({ min: 0, max: 16383 });
+  });
+
+  it('covers whole MSB steps of a CC on a 14-bit card', () => {
+    expect(getValueRange(waveform, 7)).toEqual({ min: 1, max: 3 });
+    expect(getValueRange(waveform, 14)).toEqual({ min: 1 << 7, max: (3 << 7) | 0x7f });
+    expect(getValueRange(attack, 14)).toEqual({ min: 0, max: 1000 });
+  });
+
+  it('names 14-bit card values by their MSB for CCs', () => {
+    expect(getValueName(waveform, 2, 7)).toBe('Square');
+    expect(getValueName(waveform, (2 << 7) | 0x55, 14)).toBe('Square');
+    expect(getValueName(attack, 1000, 14)).toBe('Max');
+    expect(getValueName(null, 2, 7)).toBeUndefined();
+  });
+});
@@ -0,0 +1,290 @@
+import type { DeviceProfile, ParsedMidiMessage, ProfileParameter, ProfileParameterKind, ProfileProgram } from '../types';
+import { isRecord } from './guards';
+
+export const DEVICE_PROFILE_VERSION = 1;
+export const DEVICE_PROFILES_STORAGE_KEY = 'ble-midi-simulator.device-profiles';
+
+const PARAMETER_KINDS: ProfileParameterKind[] = ['cc', 'rpn', 'nrpn'];
+
+export const getParameterRange = (kind: ProfileParameterKind) => (kind === 'cc' ? 127 : 16383);
+
+const isParameterKind = (kind: unknown): kind is ProfileParameterKind =>
+  PARAMETER_KINDS.includes(kind as ProfileParameterKind);
+
+const toInt = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof number === 'number' && Number.isInteger(number) ? number : null;
+};
+
+const normalizeValues = (raw: unknown): Record<number, string> => {
+  if (!isRecord(raw)) return {};
+  const values: Record<number, string> = {};
+  Object.entries(raw).forEach(([value, name]) => {
+    const number = toInt(value);
+    if (number !== null && typeof name === 'string') values[number] = name;
+  });
+  return values;
+};
+
+const normalizeParameter = (raw: unknown, index: number): ProfileParameter => {
+  const fields = isRecord(raw) ? raw : {};
+  const kind = fields.type ?? fields.kind;
+  if (!isParameterKind(kind)) {
+    throw new Error(`Parameter ${index}: unknown type "${String(kind)}" (expected ${PARAMETER_KINDS.join(', ')}).`);
+  }
+  const limit = getParameterRange(kind);
+  const number = toInt(fields.number);
+  if (number === null || number < 0 || number > limit) {
+    throw new Error(`Parameter ${index}: number must be 0-${limit}.`);
+  }
+  const min = Math.min(limit, Math.max(0, toInt(fields.min) ?? 0));
+  const max = Math.min(limit, Math.max(min, toInt(fields.max) ?? limit));
+  const name = typeof fields.name === 'string' && fields.name.trim() ? fields.name.trim() : `${kind.toUpperCase()} ${number}`;
+  return { kind, number, name, min, max, values: normalizeValues(fields.values) };
+};
+
+const normalizeProgram = (raw: unknown, index: number): ProfileProgram => {
+  const fields = isRecord(raw) ? raw : {};
+  const number = toInt(fields.number);
+  if (number === null || number < 0 || number > 127) {
+    throw new Error(`Program ${index}: number must be 0-127.`);
+  }
+  const name = typeof fields.name === 'string' ? fields.name : `Program ${number}`;
+  if (fields.bank === undefined) return { number, name };
+  const bank = toInt(fields.bank);
+  if (bank === null || bank < 0 || bank > 16383) {
+    throw new Error(`Program ${index}: bank must be 0-16383.`);
+  }
+  return { number, name, bank };
+};
+
+// Accepts both the file format ("type") and the stored format ("kind") of parameters.
+const normalizeProfile = (profile: unknown): DeviceProfile => {
+  if (!isRecord(profile) || typeof profile.name !== 'string' || !profile.name.trim()) {
+    throw new Error('Not a device profile: "name" is missing.');
+  }
+  if (typeof profile.version === 'number' && profile.version > DEVICE_PROFILE_VERSION) {
+    throw new Error(`Profile version ${profile.version} is newer than this simulator supports (${DEVICE_PROFILE_VERSION}).`);
+  }
+  return {
+    name: profile.name.trim(),
+    deviceNames: Array.isArray(profile.deviceNames)
+      ? profile.deviceNames.filter((name): name is string => typeof name === 'string' && name !== '')
+      : [],
+    parameters: (Array.isArray(profile.parameters) ? profile.parameters : []).map(normalizeParameter),
+    programs: (Array.isArray(profile.programs) ? profile.programs : []).map(normalizeProgram),
+  };
+};
+
+const MIDNAM_CONTROL_KINDS: Record<string, ProfileParameterKind> = {
+  '7bit': 'cc',
+  '14bit': 'cc',
+  'RPN': 'rpn',
+  'NRPN': 'nrpn',
+};
+
+/**
+ * Reads a MIDNAM (MIDI Name Document) file: its controls and the patches of every patch
+ * bank. 14-bit controls are named by their MSB controller, with the range in MSB steps.
+ */
+const parseMidnam = (xml: string): DeviceProfile => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror') || doc.documentElement.nodeName !== 'MIDINameDocument') {
+    throw new Error('Not a MIDNAM document.');
+  }
+  const text = (selector: string) => doc.querySelector(selector)?.textContent?.trim() ?? '';
+  const manufacturer = text('MasterDeviceNames > Manufacturer');
+  const models = Array.from(doc.querySelectorAll('MasterDeviceNames > Model'), model => model.textContent?.trim() ?? '').filter(Boolean);
+  const valueNameLists = new Map(Array.from(doc.querySelectorAll('ValueNameList[Name]'), list => [list.getAttribute('Name'), list]));
+
+  const readValueNames = (values: Element | null): Record<number, string> => {
+    if (!values) return {};
+    const reference = values.querySelector('UsesValueNameList')?.getAttribute('Name');
+    const list = reference ? valueNameLists.get(reference) : values.querySelector('ValueNameList');
+    return Object.fromEntries(Array.from(list?.querySelectorAll('Value') ?? [])
+      .map(value => [toInt(value.getAttribute('Number')), value.getAttribute('Name')] as const)
+      .filter(([number, name]) => number !== null && name));
+  };
+
+  const parameters = Array.from(doc.querySelectorAll('Control'), (control, index) => {
+    const type = control.getAttribute('Type') ?? '7bit';
+    const kind = MIDNAM_CONTROL_KINDS[type];
+    if (!kind) throw new Error(`Control ${index}: unknown type "${type}".`);
+    const values = control.querySelector('Values');
+    const shift = type === '14bit' ? 7 : 0;
+    const bound = (name: string) => {
+      const value = toInt(values?.getAttribute(name));
+      return value === null ? undefined : value >> shift;
+    };
+    return normalizeParameter({
+      type: kind,
+      number: control.getAttribute('Number'),
+      name: control.getAttribute('Name'),
+      min: bound('Min'),
+      max: bound('Max'),
+      values: shift === 0 ? readValueNames(values) : {},
+    }, index);
+  });
+
+  const patchNameLists = new Map(Array.from(doc.querySelectorAll('PatchNameList[Name]'), list => [list.getAttribute('Name'), list]));
+
+  // Patch numbers are display numbers (e.g. "A01"); ProgramChange is what goes on the wire.
+  // Patches without a usable ProgramChange cannot be matched, so they are left out.
+  const readPatches = (list: Element | null | undefined, bank: number | undefined): ProfileProgram[] =>
+    Array.from(list?.querySelectorAll('Patch') ?? []).flatMap(patch => {
+      const number = toInt(patch.getAttribute('ProgramChange'));
+      if (number === null || number < 0 || number > 127) return [];
+      const name = patch.getAttribute('Name') ?? `Program ${number}`;
+      return [bank === undefined ? { number, name } : { number, name, bank }];
+    });
+
+  // A bank is selected by the CC 0 / CC 32 in its MIDICommands; banks without them keep no bank.
+  const readBank = (patchBank: Element): number | undefined => {
+    const value = (control: number) => toInt(patchBank.querySelector(`MIDICommands > ControlChange[Control="${control}"]`)?.getAttribute('Value'));
+    const msb = value(0);
+    const lsb = value(32);
+    return msb === null && lsb === null ? undefined : ((msb ?? 0) << 7) | (lsb ?? 0);
+  };
+
+  const programs = Array.from(doc.querySelectorAll('PatchBank')).flatMap(patchBank => {
+    const reference = patchBank.querySelector('UsesPatchNameList')?.getAttribute('Name');
+    const list = reference ? patchNameLists.get(reference) : patchBank.querySelector('PatchNameList');
+    return readPatches(list, readBank(patchBank));
+  });
+
+  const model = models[0] ?? '';
+  const name = [manufacturer, model].filter(Boolean).join(' ') || 'MIDNAM profile';
+  return { name, deviceNames: models, parameters, programs };
+};
+
+/**
+ * Parses a profile file: the simulator's JSON format, or a MIDNAM XML document.
+ * Throws with the reason if the file cannot be used.
+ */
+export const parseDeviceProfile = (contents: string): DeviceProfile =>
+  contents.trimStart().startsWith('<') ? parseMidnam(contents) : normalizeProfile(JSON.parse(contents));
+
+export const loadStoredDeviceProfiles = (): DeviceProfile[] => {
+  try {
+    const stored = localStorage.getItem(DEVICE_PROFILES_STORAGE_KEY);
+    const profiles: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(profiles) ? profiles.map(normalizeProfile) : [];
+  } catch (error) {
+    console.warn('Ignoring unreadable stored device profiles:', error);
+    return [];
+  }
+};
+
+export const storeDeviceProfiles = (profiles: DeviceProfile[]) => {
+  try {
+    localStorage.setItem(DEVICE_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.warn('Failed to save device profiles:', error);
+  }
+};
+
+export const findProfileByDeviceName = (profiles: DeviceProfile[], deviceName: string): DeviceProfile | null => {
+  const name = deviceName.toLowerCase();
+  return profiles.find(profile => profile.deviceNames.some(candidate => name.includes(candidate.toLowerCase()))) ?? null;
+};
+
+/**
+ * The profile a device connection uses. `choice` is the profile name picked for the
+ * connection, null for none, or undefined to match the device name automatically.
+ */
+export const resolveDeviceProfile = (profiles: DeviceProfile[], choice: string | null | undefined, deviceName: string): DeviceProfile | null => {
+  if (choice === null) return null;
+  if (choice === undefined) return findProfileByDeviceName(profiles, deviceName);
+  return profiles.find(profile => profile.name === choice) ?? null;
+};
+
+export const findProfileParameter = (profile: DeviceProfile, kind: ProfileParameterKind, number: number): ProfileParameter | undefined =>
+  profile.parameters.find(parameter => parameter.kind === kind && parameter.number === number);
+
+export const formatProfileValue = (parameter: ProfileParameter, value: number): string =>
+  parameter.values[value] ?? String(value);
+
+/**
+ * The program a Program Change selects. With `bank` (the last bank select on the channel), a
+ * program of that bank or one without a bank; without it, only a program number that no
+ * other bank repeats.
+ */
+export const findProfileProgram = (profile: DeviceProfile, number: number, bank?: number): ProfileProgram | undefined => {
+  const candidates = profile.programs.filter(program => program.number === number);
+  if (bank !== undefined) return candidates.find(program => program.bank === bank) ?? candidates.find(program => program.bank === undefined);
+  return candidates.length === 1 ? candidates[0] : candidates.find(program => program.bank === undefined);
+};
+
+/**
+ * Returns the message with a label naming its controller, parameter or program from the
+ * profile, or the message itself if the profile does not name it.
+ */
+export const labelMessage = (message: ParsedMidiMessage, profile: DeviceProfile, bank?: number): ParsedMidiMessage => {
+  let label: string | undefined;
+  switch (message.type) {
+    case 'Control Change': {
+      const parameter = findProfileParameter(profile, 'cc', message.controller);
+      if (parameter) label = `${parameter.name} = ${formatProfileValue(parameter, message.value)}`;
+      break;
+    }
+    case 'Parameter Number': {
+      const parameter = message.action === 'set'
+        ? findProfileParameter(profile, message.kind === 'RPN' ? 'rpn' : 'nrpn', message.parameter)
+        : undefined;
+      if (parameter) label = `${parameter.name} = ${formatProfileValue(parameter, message.value)}`;
+      break;
+    }
+    case 'Program Change': {
+      const program = findProfileProgram(profile, message.program, bank);
+      if (program) label = `${program.name} (${message.program})`;
+      break;
+    }
+  }
+  return label ? { ...message, label } : message;
+};
+
+/**
+ * Labels messages like labelMessage, remembering the bank select (CC 0 / CC 32) last seen per
+ * device, direction and channel so that each Program Change is named from its bank.
+ */
+export const createMessageLabeler = () => {
+  const banks = new Map<string, { msb: number | null; lsb: number | null }>();
+
+  return (message: ParsedMidiMessage, profile: DeviceProfile): ParsedMidiMessage => {
+    if (!('channel' in message)) return labelMessage(message, profile);
+    const key = `${message.source ?? ''}:${message.direction ?? 'in'}:${message.channel}`;
+    const selected = banks.get(key) ?? { msb: null, lsb: null };
+    if (message.type === 'Control Change' && (message.controller === 0 || message.controller === 32)) {
+      banks.set(key, message.controller === 0 ? { ...selected, msb: message.value } : { ...selected, lsb: message.value });
+    }
+    const bank = selected.msb === null && selected.lsb === null ? undefined : ((selected.msb ?? 0) << 7) | (selected.lsb ?? 0);
+    return labelMessage(message, profile, bank);
+  };
+};
+
+/**
+ * Parameters of the given kinds whose name or number contains the query, per profile.
+ */
+export const searchProfileParameters = (profiles: DeviceProfile[], kinds: ProfileParameterKind[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  return profiles.flatMap(profile => profile.parameters
+    .filter(parameter => kinds.includes(parameter.kind))
+    .filter(parameter => !needle || parameter.name.toLowerCase().includes(needle) || String(parameter.number).includes(needle))
+    .map(parameter => ({ profile, parameter })));
+};
+
+/**
+ * The slider range of a card set up for `parameter`, in the card's resolution; the full
+ * range without one. A CC's range on a 14-bit card covers whole MSB steps.
+ */
+export const getValueRange = (parameter: ProfileParameter | null, bits: 7 | 14) => {
+  if (!parameter) return { min: 0, max: bits === 7 ? 127 : 16383 };
+  if (bits === 14 && parameter.kind === 'cc') return { min: parameter.min << 7, max: (parameter.max << 7) | 0x7f };
+  return { min: parameter.min, max: parameter.max };
+};
+
+// The profile's name for a card value, if it has one.
+export const getValueName = (parameter: ProfileParameter | null, value: number, bits: 7 | 14): string | undefined => {
+  if (!parameter) return undefined;
+  return parameter.values[bits === 14 && parameter.kind === 'cc' ? value >> 7 : value];
+};
@@ -0,0 +1,375 @@
+import type { ParsedMidiMessage, TransportWrite } from '../types';
+import { controlChange } from './midiBuilder';
+
+// 'sysex' carries a 21-bit sequence number; 'cc' only its lowest 7 bits (the CC value).
+export type ProbeMode = 'sysex' | 'cc';
+
+export interface ProbeSettings {
+  mode: ProbeMode;
+  // Used in 'cc' mode
+  ccNumber: number;
+  channel: number;
+}
+
+// Non-commercial manufacturer ID plus a marker byte ('L' for latency).
+const SYSEX_PROBE_HEADER = [0xf0, 0x7d, 0x4c];
+
+export const encodeProbe = (probe: ProbeSettings, seq: number): Uint8Array => {
+  if (probe.mode === 'cc') return controlChange(probe.channel, probe.ccNumber, seq & 0x7f);
+  return new Uint8Array([...SYSEX_PROBE_HEADER, (seq >> 14) & 0x7f, (seq >> 7) & 0x7f, seq & 0x7f, 0xf7]);
+};
+
+/**
+ * Returns the sequence number carried by an echoed probe (only the lowest 7 bits for CC
+ * probes), or null if the message is not a probe.
+ */
+export const decodeProbe = (probe: ProbeSettings, bytes: ArrayLike<number>): number | null => {
+  if (probe.mode === 'cc') {
+    const isProbe = bytes.length === 3 && bytes[0] === (0xb0 | (probe.channel - 1)) && bytes[1] === probe.ccNumber;
+    return isProbe ? bytes[2] : null;
+  }
+  if (bytes.length !== 7 || SYSEX_PROBE_HEADER.some((byte, i) => bytes[i] !== byte) || bytes[6] !== 0xf7) return null;
+  return (bytes[3] << 14) | (bytes[4] << 7) | bytes[5];
+};
+
+export interface LatencyStats {
+  count: number;
+  min: number;
+  avg: number;
+  p95: number;
+  max: number;
+  // Standard deviation of the round-trip times
+  jitter: number;
+}
+
+export const computeLatencyStats = (samples: number[]): LatencyStats | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const avg = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.reduce((sum, value) => sum + (value - avg) ** 2, 0) / sorted.length;
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    avg,
+    p95: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+    max: sorted[sorted.length - 1],
+    jitter: Math.sqrt(variance),
+  };
+};
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export const buildHistogram = (samples: number[], bucketCount = 12): HistogramBucket[] => {
+  if (samples.length === 0) return [];
+  const min = Math.min(...samples);
+  const max = Math.max(...samples);
+  const width = Math.max((max - min) / bucketCount, 0.1);
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  samples.forEach(sample => {
+    buckets[Math.min(Math.floor((sample - min) / width), bucketCount - 1)].count++;
+  });
+  return buckets;
+};
+
+// Matches echoed probes to the time they were sent.
+const createProbeTracker = (probe: ProbeSettings) => {
+  let nextSeq = 0;
+  // Sequence number -> the probe and performance.now() at send, in send order.
+  const pending = new Map<number, { message: Uint8Array; sentAt: number }>();
+
+  const next = (): Uint8Array => {
+    const seq = nextSeq;
+    nextSeq = (nextSeq + 1) & 0x1fffff;
+    const message = encodeProbe(probe, seq);
+    pending.set(seq, { message, sentAt: performance.now() });
+    return message;
+  };
+
+  // Times a probe from when its write went out, so time spent batching in the send queue
+  // (up to a connection interval) is not counted as link latency.
+  const markWritten = (write: TransportWrite) => {
+    if (write.error !== undefined) return;
+    pending.forEach(entry => {
+      if (write.messages.includes(entry.message)) entry.sentAt = write.writtenAt;
+    });
+  };
+
+  // Returns the round-trip time of an echoed probe, or null for any other message.
+  const match = (message: ParsedMidiMessage): number | null => {
+    const seq = decodeProbe(probe, message.bytes);
+    if (seq === null) return null;
+    // CC probes only carry 7 bits: take the oldest outstanding probe with those bits.
+    const key = probe.mode === 'cc'
+      ? Array.from(pending.keys()).find(candidate => (candidate & 0x7f) === seq)
+      : seq;
+    if (key === undefined || !pending.has(key)) return null;
+    const { sentAt } = pending.get(key)!;
+    pending.delete(key);
+    return message.receivedAt - sentAt;
+  };
+
+  // Forgets probes older than the timeout and returns how many were dropped.
+  const expire = (timeoutMs: number): number => {
+    const now = performance.now();
+    let lost = 0;
+    for (const [seq, { sentAt }] of Array.from(pending.entries())) {
+      if (now - sentAt < timeoutMs) break;
+      pending.delete(seq);
+      lost++;
+    }
+    return lost;
+  };
+
+  return { next, markWritten, match, expire, outstanding: () => pending.size };
+};
+
+export interface ProbeTest {
+  // Feed every received message; non-probe messages are ignored.
+  handleMessage: (message: ParsedMidiMessage) => void;
+  // Feed every completed write, so probes are timed from when they went out.
+  handleWrite: (write: TransportWrite) => void;
+  stop: () => void;
+}
+
+export interface LatencyResult {
+  sent: number;
+  lost: number;
+  rtts: number[];
+}
+
+export interface LatencyTestOptions {
+  send: (message: Uint8Array) => void;
+  probe: ProbeSettings;
+  count: number;
+  intervalMs: number;
+  // A probe not echoed within this time counts as lost.
+  timeoutMs: number;
+  onUpdate: (result: LatencyResult) => void;
+  onComplete: (result: LatencyResult) => void;
+}
+
+/**
+ * Sends `count` probes at a fixed interval and records the round-trip time of each echo.
+ */
+export const createLatencyTest = ({ send, probe, count, intervalMs, timeoutMs, onUpdate, onComplete }: LatencyTestOptions): ProbeTest => {
+  const tracker = createProbeTracker(probe);
+  const result: LatencyResult = { sent: 0, lost: 0, rtts: [] };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = true;
+  const startedAt = performance.now();
+
+  const finish = () => {
+    stop();
+    onComplete({ ...result, lost: result.lost + tracker.outstanding() });
+  };
+
+  const tick = () => {
+    result.lost += tracker.expire(timeoutMs);
+    if (result.sent < count) {
+      send(tracker.next());
+      result.sent++;
+    }
+    onUpdate({ ...result });
+    if (result.sent >= count && tracker.outstanding() === 0) {
+      finish();
+      return;
+    }
+    // Probes go out on a fixed grid from the start, so timer lateness does not stretch the test.
+    const elapsed = performance.now() - startedAt;
+    timer = setTimeout(tick, intervalMs - (elapsed % intervalMs));
+  };
+
+  const handleMessage = (message: ParsedMidiMessage) => {
+    if (!running) return;
+    const rtt = tracker.match(message);
+    if (rtt === null) return;
+    result.rtts.push(rtt);
+    if (result.sent >= count && tracker.outstanding() === 0) finish();
+  };
+
+  const stop = () => {
+    running = false;
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  tick();
+  return { handleMessage, handleWrite: tracker.markWritten, stop };
+};
+
+export interface ThroughputStep {
+  // Messages per second
+  rate: number;
+  sent: number;
+  received: number;
+  // Fraction of probes not echoed in time, 0-1
+  loss: number;
+  avgRtt: number | null;
+}
+
+export interface ThroughputTestOptions {
+  send: (message: Uint8Array) => void;
+  probe: ProbeSettings;
+  startRate: number;
+  maxRate: number;
+  // Each step's rate is the previous one times this factor.
+  stepFactor: number;
+  stepMs: number;
+  timeoutMs: number;
+  // The ramp stops at the first step losing more than this fraction.
+  lossThreshold: number;
+  onUpdate: (steps: ThroughputStep[]) => void;
+  onComplete: (steps: ThroughputStep[]) => void;
+}
+
+/**
+ * Ramps the probe rate step by step until the loss exceeds the threshold or the maximum rate
+ * is reached. Each step sends for `stepMs`, then waits `timeoutMs` for late echoes.
+ */
+export const createThroughputTest = ({
+  send,
+  probe,
+  startRate,
+  maxRate,
+  stepFactor,
+  stepMs,
+  timeoutMs,
+  lossThreshold,
+  onUpdate,
+  onComplete,
+}: ThroughputTestOptions): ProbeTest => {
+  const steps: ThroughputStep[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = true;
+  // One tracker for the whole ramp, so late echoes from an earlier step never match a later one.
+  const tracker = createProbeTracker(probe);
+  let rtts: number[] = [];
+  let current: ThroughputStep;
+
+  const stop = () => {
+    running = false;
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const finishStep = () => {
+    // Whatever is still outstanding counts as lost.
+    tracker.expire(0);
+    current.loss = current.sent > 0 ? 1 - current.received / current.sent : 0;
+    current.avgRtt = rtts.length > 0 ? rtts.reduce((sum, value) => sum + value, 0) / rtts.length : null;
+    onUpdate([...steps]);
+
+    if (current.loss > lossThreshold || current.rate >= maxRate) {
+      stop();
+      onComplete([...steps]);
+      return;
+    }
+    startStep(Math.min(Math.round(current.rate * stepFactor), maxRate));
+  };
+
+  const startStep = (rate: number) => {
+    rtts = [];
+    current = { rate, sent: 0, received: 0, loss: 0, avgRtt: null };
+    steps.push(current);
+    const startedAt = performance.now();
+    const total = Math.max(1, Math.round((rate * stepMs) / 1000));
+
+    const tick = () => {
+      // Send every probe that is due, so rates above the timer resolution go out in small bursts.
+      const due = Math.min(total, Math.floor(((performance.now() - startedAt) * rate) / 1000) + 1);
+      while (current.sent < due) {
+        send(tracker.next());
+        current.sent++;
+      }
+      onUpdate([...steps]);
+      if (current.sent >= total) {
+        timer = setTimeout(finishStep, timeoutMs);
+        return;
+      }
+      timer = setTimeout(tick, Math.max(0, startedAt + (current.sent * 1000) / rate - performance.now()));
+    };
+    tick();
+  };
+
+  const handleMessage = (message: ParsedMidiMessage) => {
+    if (!running) return;
+    const rtt = tracker.match(message);
+    if (rtt === null) return;
+    current.received++;
+    rtts.push(rtt);
+  };
+
+  startStep(startRate);
+  return { handleMessage, handleWrite: tracker.markWritten, stop };
+};
+
+// The BLE-MIDI timestamp is 13 bits of milliseconds and wraps every 8.192 seconds.
+const BLE_TIMESTAMP_RANGE = 8192;
+
+export interface ClockDriftEstimate {
+  samples: number;
+  // Time covered by the samples, in local milliseconds
+  spanMs: number;
+  // How much faster the peripheral's clock runs than performance.now(), in parts per million
+  driftPpm: number | null;
+}
+
+/**
+ * Estimates the drift between the peripheral's BLE-MIDI timestamps and the local clock with
+ * a least-squares fit. Wrapped timestamps are unwrapped using the local time between samples.
+ */
+export const createClockDriftEstimator = () => {
+  let samples = 0;
+  let firstLocal = 0;
+  let lastLocal = 0;
+  let lastRemote = 0;
+  // Running means and co-moments for the regression of remote time over local time.
+  let meanX = 0;
+  let meanY = 0;
+  let momentXX = 0;
+  let momentXY = 0;
+
+  const add = (bleTimestamp: number, receivedAt: number) => {
+    let remote = bleTimestamp;
+    if (samples === 0) {
+      firstLocal = receivedAt;
+    } else {
+      // Pick the unwrapped value closest to where the previous sample plus elapsed local time predicts.
+      const expected = lastRemote + (receivedAt - lastLocal);
+      remote = bleTimestamp + Math.round((expected - bleTimestamp) / BLE_TIMESTAMP_RANGE) * BLE_TIMESTAMP_RANGE;
+    }
+    lastLocal = receivedAt;
+    lastRemote = remote;
+
+    const x = receivedAt - firstLocal;
+    samples++;
+    const dx = x - meanX;
+    meanX += dx / samples;
+    meanY += (remote - meanY) / samples;
+    momentXX += dx * (x - meanX);
+    momentXY += dx * (remote - meanY);
+  };
+
+  const estimate = (): ClockDriftEstimate => {
+    const spanMs = samples > 0 ? lastLocal - firstLocal : 0;
+    // Too short a span makes the slope meaningless.
+    if (samples < 10 || spanMs < 1000 || momentXX === 0) return { samples, spanMs, driftPpm: null };
+    const slope = momentXY / momentXX;
+    return { samples, spanMs, driftPpm: (slope - 1) * 1e6 };
+  };
+
+  const reset = () => {
+    samples = 0;
+    meanX = meanY = momentXX = momentXY = 0;
+  };
+
+  return { add, estimate, reset };
+};
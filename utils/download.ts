@@ -0,0 +1,13 @@
+/**
+ * Triggers a browser download of the given data under the given file name.
+ */
+export const downloadBlob = (data: BlobPart, filename: string, mimeType = 'application/octet-stream') => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
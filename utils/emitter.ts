@@ -0,0 +1,17 @@
+export interface Emitter<T> {
+  emit: (value: T) => void;
+  subscribe: (listener: (value: T) => void) => () => void;
+}
+
+export const createEmitter = <T>(): Emitter<T> => {
+  const listeners = new Set<(value: T) => void>();
+  return {
+    emit: (value) => listeners.forEach(listener => listener(value)),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,10 @@
+// Type guards for data read from files, storage and sockets, which is `unknown` until checked.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isByte = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 255;
+
+export const isByteArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(isByte);
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { matchesHexPattern, parseHexPattern } from './hexPattern';
+
+describe('parseHexPattern', () => {
+  it('reads bytes and ?? wildcards', () => {
+    expect(parseHexPattern('F0 7D ?? F7')).toEqual([0xf0, 0x7d, null, 0xf7]);
+    expect(parseHexPattern(' b0,07 ?? ')).toEqual([0xb0, 0x07, null]);
+    expect(parseHexPattern('F07D ??')).toEqual([0xf0, 0x7d, null]);
+    expect(parseHexPattern('')).toEqual([]);
+  });
+
+  it('rejects invalid bytes', () => {
+    expect(() => parseHexPattern('F0 ?')).toThrow('Invalid hex byte "?"');
+  });
+});
+
+describe('matchesHexPattern', () => {
+  const pattern = parseHexPattern('F0 7D ?? F7');
+
+  it('matches any byte at a wildcard', () => {
+    expect(matchesHexPattern([0xf0, 0x7d, 0x00, 0xf7], pattern)).toBe(true);
+    expect(matchesHexPattern(new Uint8Array([0xf0, 0x7d, 0x7f, 0xf7]), pattern)).toBe(true);
+  });
+
+  it('needs every other byte and the length to match', () => {
+    expect(matchesHexPattern([0xf0, 0x7e, 0x00, 0xf7], pattern)).toBe(false);
+    expect(matchesHexPattern([0xf0, 0x7d, 0x00, 0x00, 0xf7], pattern)).toBe(false);
+    expect(matchesHexPattern([0xf0, 0x7d, 0x00], pattern)).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+import { parseHexBytes } from './sysex';
+
+// A parsed pattern: a concrete byte, or null for a "??" wildcard.
+export type HexPattern = (number | null)[];
+
+/**
+ * Parses a hex byte pattern such as "F0 7D ?? F7", where "??" matches any single byte.
+ */
+export const parseHexPattern = (pattern: string): HexPattern =>
+  pattern.trim().split(/[\s,]+/).filter(Boolean).flatMap(token =>
+    token === '??' ? [null] : Array.from(parseHexBytes(token)),
+  );
+
+export const matchesHexPattern = (bytes: ArrayLike<number>, pattern: HexPattern): boolean =>
+  bytes.length === pattern.length && pattern.every((expected, i) => expected === null || expected === bytes[i]);
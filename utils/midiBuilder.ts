@@ -0,0 +1,90 @@
+import type { ParameterNumberKind } from '../types';
+
+// Channels are 1-16 throughout the UI; status bytes carry them as 0-15.
+const statusByte = (command: number, channel: number) => command | ((channel - 1) & 0x0f);
+
+export const controlChange = (channel: number, controller: number, value: number): Uint8Array =>
+  new Uint8Array([statusByte(0xb0, channel), controller & 0x7f, value & 0x7f]);
+
+/**
+ * Builds the MSB (CC n) and LSB (CC n + 32) pair for a 14-bit controller value.
+ */
+export const controlChange14bit = (channel: number, msbController: number, value14bit: number): Uint8Array[] => [
+  controlChange(channel, msbController, Math.floor(value14bit / 128)),
+  controlChange(channel, msbController + 32, value14bit % 128),
+];
+
+export const noteOn = (channel: number, note: number, velocity: number): Uint8Array =>
+  new Uint8Array([statusByte(0x90, channel), note & 0x7f, velocity & 0x7f]);
+
+export const noteOff = (channel: number, note: number, velocity = 0): Uint8Array =>
+  new Uint8Array([statusByte(0x80, channel), note & 0x7f, velocity & 0x7f]);
+
+export const channelPressure = (channel: number, pressure: number): Uint8Array =>
+  new Uint8Array([statusByte(0xd0, channel), pressure & 0x7f]);
+
+// Signed 14-bit bend, -8192 to 8191 (0 = center); the LSB goes first on the wire.
+export const pitchBend = (channel: number, value: number): Uint8Array => {
+  const raw = Math.min(16383, Math.max(0, value + 8192));
+  return new Uint8Array([statusByte(0xe0, channel), raw & 0x7f, raw >> 7]);
+};
+
+// Channel Mode messages used to silence stuck notes.
+export const allSoundOff = (channel: number): Uint8Array => controlChange(channel, 120, 0);
+export const allNotesOff = (channel: number): Uint8Array => controlChange(channel, 123, 0);
+
+// Controller numbers for parameter number selection and data entry.
+const PARAMETER_SELECT_CC: Record<ParameterNumberKind, { msb: number; lsb: number }> = {
+  RPN: { msb: 101, lsb: 100 },
+  NRPN: { msb: 99, lsb: 98 },
+};
+export const DATA_ENTRY_MSB = 6;
+export const DATA_ENTRY_LSB = 38;
+export const DATA_INCREMENT = 96;
+export const DATA_DECREMENT = 97;
+export const RPN_NULL = 0x3fff;
+
+export const parameterSelect = (channel: number, kind: ParameterNumberKind, parameter: number): Uint8Array[] => [
+  controlChange(channel, PARAMETER_SELECT_CC[kind].msb, parameter >> 7),
+  controlChange(channel, PARAMETER_SELECT_CC[kind].lsb, parameter & 0x7f),
+];
+
+/**
+ * Selects an RPN/NRPN and sets its 14-bit value with Data Entry MSB (CC 6) and, unless
+ * `sendLsb` is false, LSB (CC 38).
+ */
+export const parameterNumber = (channel: number, kind: ParameterNumberKind, parameter: number, value14bit: number, sendLsb = true): Uint8Array[] => [
+  ...parameterSelect(channel, kind, parameter),
+  controlChange(channel, DATA_ENTRY_MSB, value14bit >> 7),
+  ...(sendLsb ? [controlChange(channel, DATA_ENTRY_LSB, value14bit & 0x7f)] : []),
+];
+
+export const parameterStep = (channel: number, kind: ParameterNumberKind, parameter: number, direction: 1 | -1): Uint8Array[] => [
+  ...parameterSelect(channel, kind, parameter),
+  controlChange(channel, direction > 0 ? DATA_INCREMENT : DATA_DECREMENT, 1),
+];
+
+// Deselects the current parameter so stray Data Entry messages cannot change it.
+export const rpnNull = (channel: number): Uint8Array[] => parameterSelect(channel, 'RPN', RPN_NULL);
+
+export const TIMING_CLOCK = 0xf8;
+export const START = 0xfa;
+export const CONTINUE = 0xfb;
+export const STOP = 0xfc;
+
+export const realTime = (status: number): Uint8Array => new Uint8Array([status]);
+
+/**
+ * Song Position Pointer, counted in MIDI beats (sixteenth notes) from the start of the song.
+ */
+export const songPosition = (sixteenths: number): Uint8Array =>
+  new Uint8Array([0xf2, sixteenths & 0x7f, (sixteenths >> 7) & 0x7f]);
+
+/**
+ * Returns a copy of a channel message moved to another channel; other messages are copied unchanged.
+ */
+export const withChannel = (message: ArrayLike<number>, channel: number): Uint8Array => {
+  const copy = Uint8Array.from(message);
+  if (copy[0] >= 0x80 && copy[0] < 0xf0) copy[0] = statusByte(copy[0] & 0xf0, channel);
+  return copy;
+};
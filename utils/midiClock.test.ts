@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ParsedMidiMessage } from '../types';
+import { CONTINUE, START, STOP, TIMING_CLOCK, realTime, songPosition } from './midiBuilder';
+import { createClockFollower, createClockMaster, formatSongPosition } from './midiClock';
+import { parseMidiMessage } from './midiParser';
+
+const parse = (bytes: Uint8Array, receivedAt = 0, bleTimestamp?: number): ParsedMidiMessage =>
+  ({ ...parseMidiMessage(bytes) as ParsedMidiMessage, receivedAt, bleTimestamp });
+
+// One clock at 120 BPM.
+const CLOCK_MS = 60000 / (120 * 24);
+// 125 BPM, where one clock is a whole 20 ms, so fake timers hit every clock exactly.
+const MASTER_BPM = 125;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('formatSongPosition', () => {
+  it('counts bars, beats and sixteenths from 1', () => {
+    expect(formatSongPosition(0)).toBe('1.1.1');
+    expect(formatSongPosition(6)).toBe('1.1.2');
+    expect(formatSongPosition(24)).toBe('1.2.1');
+    expect(formatSongPosition(96 + 30)).toBe('2.2.2');
+  });
+});
+
+describe('createClockMaster', () => {
+  const createMaster = () => {
+    const sent: number[] = [];
+    const master = createClockMaster(message => sent.push(message[0]));
+    master.setBpm(MASTER_BPM);
+    const clocks = () => sent.filter(status => status === TIMING_CLOCK).length;
+    return { master, sent, clocks };
+  };
+
+  it('sends Start followed by 24 clocks per quarter note', () => {
+    const { master, sent, clocks } = createMaster();
+    master.start();
+    expect(sent).toEqual([START, TIMING_CLOCK]);
+    vi.advanceTimersByTime(479);
+    expect(clocks()).toBe(24);
+    vi.advanceTimersByTime(1);
+    expect(clocks()).toBe(25);
+    expect(master.getState()).toEqual({ playing: true, position: 25 });
+  });
+
+  it('keeps to the new tempo from the next clock after a change', () => {
+    const { master, clocks } = createMaster();
+    master.start();
+    master.setBpm(MASTER_BPM / 2);
+    // The clock already scheduled 20 ms ahead is kept; the ones after it come every 40 ms.
+    vi.advanceTimersByTime(100);
+    expect(clocks()).toBe(4);
+    vi.advanceTimersByTime(39);
+    expect(clocks()).toBe(4);
+    vi.advanceTimersByTime(1);
+    expect(clocks()).toBe(5);
+  });
+
+  it('stops clocking on Stop unless clock is sent while stopped', () => {
+    const { master, sent, clocks } = createMaster();
+    master.start();
+    master.stop();
+    expect(sent.at(-1)).toBe(STOP);
+    vi.advanceTimersByTime(1000);
+    expect(clocks()).toBe(1);
+
+    master.setClockWhileStopped(true);
+    vi.advanceTimersByTime(479);
+    expect(clocks()).toBe(25);
+    // Clocks while stopped do not move the song position.
+    expect(master.getState()).toEqual({ playing: false, position: 1 });
+  });
+
+  it('locates to a sixteenth only while stopped, and continues from there', () => {
+    const { master, sent } = createMaster();
+    master.locate(4);
+    expect(sent).toEqual([0xf2]);
+    expect(master.getState().position).toBe(24);
+    master.resume();
+    expect(sent.slice(1)).toEqual([CONTINUE, TIMING_CLOCK]);
+    expect(master.getState().position).toBe(25);
+    master.locate(0);
+    expect(master.getState().position).toBe(25);
+  });
+
+  it('goes silent on halt', () => {
+    const { master, sent } = createMaster();
+    master.start();
+    master.halt();
+    vi.advanceTimersByTime(1000);
+    expect(sent).toEqual([START, TIMING_CLOCK]);
+    expect(master.getState().playing).toBe(false);
+  });
+});
+
+describe('createClockFollower', () => {
+  it('measures the tempo over a beat of clocks', () => {
+    const follower = createClockFollower();
+    for (let i = 0; i < 24; i++) follower.handle(parse(realTime(TIMING_CLOCK), i * CLOCK_MS));
+    expect(follower.getState(23 * CLOCK_MS).bpm).toBeNull();
+    follower.handle(parse(realTime(TIMING_CLOCK), 24 * CLOCK_MS));
+    expect(follower.getState(24 * CLOCK_MS)).toMatchObject({ bpm: expect.closeTo(120, 5), receivingClock: true });
+    expect(follower.getState(24 * CLOCK_MS + 500)).toMatchObject({ bpm: null, receivingClock: false });
+  });
+
+  it('prefers BLE timestamps, across their wrap', () => {
+    const follower = createClockFollower();
+    // All clocks arrive in one batch, but their BLE timestamps are 25 ms apart (100 BPM).
+    for (let i = 0; i <= 24; i++) follower.handle(parse(realTime(TIMING_CLOCK), 0, (8000 + i * 25) % 8192));
+    expect(follower.getState(0).bpm).toBeCloseTo(100, 5);
+  });
+
+  it('follows the transport and the song position', () => {
+    const follower = createClockFollower();
+    follower.handle(parse(songPosition(2)));
+    expect(follower.getState(0)).toMatchObject({ playing: false, position: 12 });
+    follower.handle(parse(realTime(CONTINUE)));
+    follower.handle(parse(realTime(TIMING_CLOCK)));
+    expect(follower.getState(0)).toMatchObject({ playing: true, position: 13 });
+    follower.handle(parse(realTime(STOP)));
+    follower.handle(parse(realTime(START)));
+    expect(follower.getState(0)).toMatchObject({ playing: true, position: 0 });
+  });
+});
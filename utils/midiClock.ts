@@ -0,0 +1,215 @@
+import type { ParsedMidiMessage } from '../types';
+import { CONTINUE, START, STOP, TIMING_CLOCK, realTime, songPosition } from './midiBuilder';
+
+export const CLOCKS_PER_QUARTER = 24;
+// Song Position Pointer counts MIDI beats, i.e. sixteenth notes.
+export const CLOCKS_PER_SIXTEENTH = 6;
+export const MIN_BPM = 20;
+export const MAX_BPM = 300;
+
+// When the timer falls further behind than this (e.g. in a background tab), the missed
+// clocks are skipped instead of sent in a burst that would make slaves jump.
+const MAX_CATCH_UP_CLOCKS = 3;
+
+/**
+ * Formats a position in MIDI clocks as bar.beat.sixteenth, assuming 4/4.
+ */
+export const formatSongPosition = (clocks: number): string => {
+  const sixteenths = Math.floor(clocks / CLOCKS_PER_SIXTEENTH);
+  return `${Math.floor(sixteenths / 16) + 1}.${Math.floor((sixteenths % 16) / 4) + 1}.${(sixteenths % 4) + 1}`;
+};
+
+export interface ClockMasterState {
+  playing: boolean;
+  // MIDI clocks since the start of the song
+  position: number;
+}
+
+/**
+ * Generates MIDI clock at 24 PPQN. Clocks are scheduled against a fixed anchor time, so
+ * timer jitter does not accumulate into tempo drift. A tempo change re-anchors at the next clock.
+ */
+export const createClockMaster = (send: (message: Uint8Array) => void) => {
+  let bpm = 120;
+  let clockWhileStopped = false;
+  let playing = false;
+  let position = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let anchorTime = 0;
+  let clocksSinceAnchor = 0;
+
+  const clockInterval = () => 60000 / (bpm * CLOCKS_PER_QUARTER);
+  const nextClockTime = () => anchorTime + clocksSinceAnchor * clockInterval();
+
+  const tick = () => {
+    const now = performance.now();
+    if (now - nextClockTime() > MAX_CATCH_UP_CLOCKS * clockInterval()) {
+      anchorTime = now;
+      clocksSinceAnchor = 0;
+    }
+    while (nextClockTime() <= now) {
+      send(realTime(TIMING_CLOCK));
+      if (playing) position++;
+      clocksSinceAnchor++;
+    }
+    timer = setTimeout(tick, nextClockTime() - performance.now());
+  };
+
+  const stopClock = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  // (Re)starts the clock with its first tick right now.
+  const restartClock = () => {
+    stopClock();
+    anchorTime = performance.now();
+    clocksSinceAnchor = 0;
+    tick();
+  };
+
+  const updateClock = () => {
+    if (!playing && !clockWhileStopped) {
+      stopClock();
+    } else if (timer === null) {
+      restartClock();
+    }
+  };
+
+  const start = () => {
+    position = 0;
+    playing = true;
+    send(realTime(START));
+    // The first clock after Start marks the downbeat.
+    restartClock();
+  };
+
+  const resume = () => {
+    playing = true;
+    send(realTime(CONTINUE));
+    restartClock();
+  };
+
+  const stop = () => {
+    playing = false;
+    send(realTime(STOP));
+    updateClock();
+  };
+
+  // Moves to a sixteenth note and tells slaves with a Song Position Pointer. Only valid while stopped.
+  const locate = (sixteenths: number) => {
+    if (playing) return;
+    position = sixteenths * CLOCKS_PER_SIXTEENTH;
+    send(songPosition(sixteenths));
+  };
+
+  const setBpm = (next: number) => {
+    if (next === bpm) return;
+    if (timer !== null) {
+      anchorTime = nextClockTime();
+      clocksSinceAnchor = 0;
+      bpm = next;
+      stopClock();
+      timer = setTimeout(tick, anchorTime - performance.now());
+    } else {
+      bpm = next;
+    }
+  };
+
+  const setClockWhileStopped = (enabled: boolean) => {
+    clockWhileStopped = enabled;
+    updateClock();
+  };
+
+  // Stops everything without sending Stop, e.g. after the link went away.
+  const halt = () => {
+    playing = false;
+    stopClock();
+  };
+
+  const getState = (): ClockMasterState => ({ playing, position });
+
+  return { start, resume, stop, locate, setBpm, setClockWhileStopped, halt, getState };
+};
+
+export type ClockMaster = ReturnType<typeof createClockMaster>;
+
+export interface ClockFollowerState {
+  playing: boolean;
+  position: number;
+  // Null until a beat's worth of clocks has arrived, or when clock has stopped
+  bpm: number | null;
+  receivingClock: boolean;
+}
+
+// Clock gaps longer than this start a new tempo measurement.
+const CLOCK_TIMEOUT_MS = 500;
+const BLE_TIMESTAMP_RANGE = 8192;
+
+/**
+ * Derives tempo and transport state from received clock, Start/Continue/Stop and Song
+ * Position Pointer messages. The tempo is averaged over the last beat. BLE-MIDI timestamps
+ * are used when present, since several clocks often arrive in one notification.
+ */
+export const createClockFollower = () => {
+  let playing = false;
+  let position = 0;
+  let intervals: number[] = [];
+  let lastClock: { receivedAt: number; bleTimestamp?: number } | null = null;
+
+  const handleClock = (message: ParsedMidiMessage) => {
+    if (lastClock && message.receivedAt - lastClock.receivedAt < CLOCK_TIMEOUT_MS) {
+      const interval = message.bleTimestamp !== undefined && lastClock.bleTimestamp !== undefined
+        ? (message.bleTimestamp - lastClock.bleTimestamp + BLE_TIMESTAMP_RANGE) % BLE_TIMESTAMP_RANGE
+        : message.receivedAt - lastClock.receivedAt;
+      intervals = [...intervals, interval].slice(-CLOCKS_PER_QUARTER);
+    } else {
+      intervals = [];
+    }
+    lastClock = { receivedAt: message.receivedAt, bleTimestamp: message.bleTimestamp };
+    if (playing) position++;
+  };
+
+  const handle = (message: ParsedMidiMessage) => {
+    if (message.type === 'Song Position') {
+      if (!playing) position = message.position * CLOCKS_PER_SIXTEENTH;
+      return;
+    }
+    if (message.type !== 'System Real-Time') return;
+    switch (message.status) {
+      case TIMING_CLOCK:
+        handleClock(message);
+        break;
+      case START:
+        playing = true;
+        position = 0;
+        break;
+      case CONTINUE:
+        playing = true;
+        break;
+      case STOP:
+        playing = false;
+        break;
+    }
+  };
+
+  const getState = (now = performance.now()): ClockFollowerState => {
+    const receivingClock = lastClock !== null && now - lastClock.receivedAt < CLOCK_TIMEOUT_MS;
+    const total = intervals.reduce((sum, interval) => sum + interval, 0);
+    const bpm = receivingClock && intervals.length === CLOCKS_PER_QUARTER && total > 0
+      ? 60000 / total
+      : null;
+    return { playing, position, bpm, receivingClock };
+  };
+
+  const reset = () => {
+    playing = false;
+    position = 0;
+    intervals = [];
+    lastClock = null;
+  };
+
+  return { handle, getState, reset };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { MidiLearnBinding, ParsedMidiMessage } from '../types';
+import {
+  DEFAULT_MIDI_LEARN_BINDING,
+  applyLearnTransform,
+  createLearnInputReader,
+  describeLearnSource,
+  getLearnSource,
+} from './midiLearn';
+import { parseMidiMessage } from './midiParser';
+
+const parse = (...bytes: number[]) => parseMidiMessage(bytes) as ParsedMidiMessage;
+const bind = (changes: Partial<MidiLearnBinding>): MidiLearnBinding => ({ ...DEFAULT_MIDI_LEARN_BINDING, ...changes });
+
+describe('getLearnSource', () => {
+  it('learns CCs, notes and pitch bend', () => {
+    expect(getLearnSource(parse(0xb1, 74, 10))).toEqual({ kind: 'cc', channel: 2, number: 74 });
+    expect(getLearnSource(parse(0x90, 60, 100))).toEqual({ kind: 'note', channel: 1, number: 60 });
+    expect(getLearnSource(parse(0xef, 0, 64))).toEqual({ kind: 'pitch-bend', channel: 16, number: 0 });
+  });
+
+  it('ignores messages that carry no control position', () => {
+    expect(getLearnSource(parse(0xf8))).toBeNull();
+    expect(getLearnSource(parse(0xc0, 5))).toBeNull();
+  });
+
+  it('describes a source', () => {
+    expect(describeLearnSource({ kind: 'note', channel: 10, number: 60 })).toBe('Note C4 · Ch 10');
+  });
+});
+
+describe('applyLearnTransform', () => {
+  it('passes the input through with the default binding', () => {
+    expect(applyLearnTransform(DEFAULT_MIDI_LEARN_BINDING, 0.3)).toBeCloseTo(0.3);
+  });
+
+  it('clamps to the input window and scales into the output window', () => {
+    const binding = bind({ inputMin: 0.25, inputMax: 0.75, outputMin: 0.5, outputMax: 1 });
+    expect(applyLearnTransform(binding, 0)).toBe(0.5);
+    expect(applyLearnTransform(binding, 0.5)).toBeCloseTo(0.75);
+    expect(applyLearnTransform(binding, 1)).toBe(1);
+  });
+
+  it('inverts before shaping with the curve', () => {
+    expect(applyLearnTransform(bind({ invert: true, curve: 'exponential' }), 0.25)).toBeCloseTo(0.5625);
+    expect(applyLearnTransform(bind({ curve: 'logarithmic' }), 0.25)).toBeCloseTo(0.5);
+    expect(applyLearnTransform(bind({ curve: 's-curve' }), 0.5)).toBeCloseTo(0.5);
+  });
+
+  it('treats an empty input window as a switch', () => {
+    const binding = bind({ inputMin: 0.5, inputMax: 0.5 });
+    expect(applyLearnTransform(binding, 0.4)).toBe(0);
+    expect(applyLearnTransform(binding, 0.5)).toBe(1);
+  });
+});
+
+describe('createLearnInputReader', () => {
+  const ccBinding = (upscaling: MidiLearnBinding['upscaling']) =>
+    bind({ source: { kind: 'cc', channel: 1, number: 1 }, upscaling });
+
+  it('ignores messages from other channels and controls', () => {
+    const read = createLearnInputReader();
+    expect(read(ccBinding('stretch'), parse(0xb1, 1, 64), false)).toBeNull();
+    expect(read(ccBinding('stretch'), parse(0xb0, 2, 64), false)).toBeNull();
+    expect(read(DEFAULT_MIDI_LEARN_BINDING, parse(0xb0, 1, 64), false)).toBeNull();
+  });
+
+  it('stretches 7-bit values over the full range', () => {
+    const read = createLearnInputReader();
+    expect(read(ccBinding('stretch'), parse(0xb0, 1, 127), true)).toBe(1);
+  });
+
+  it('uses the value as MSB only with msb up-scaling', () => {
+    const read = createLearnInputReader();
+    expect(read(ccBinding('msb'), parse(0xb0, 1, 127), true)).toBe((127 << 7) / 16383);
+  });
+
+  it('refines the MSB with the controller LSB with lsb-pair up-scaling', () => {
+    const read = createLearnInputReader();
+    const binding = ccBinding('lsb-pair');
+    expect(read(binding, parse(0xb0, 1, 64), true)).toBe((64 << 7) / 16383);
+    expect(read(binding, parse(0xb0, 33, 100), true)).toBe(((64 << 7) | 100) / 16383);
+    // Without a high-res card the LSB is not part of the binding.
+    expect(read(binding, parse(0xb0, 33, 100), false)).toBeNull();
+  });
+
+  it('reads note velocity and note off', () => {
+    const read = createLearnInputReader();
+    const binding = bind({ source: { kind: 'note', channel: 1, number: 60 } });
+    expect(read(binding, parse(0x90, 60, 127), false)).toBe(1);
+    expect(read(binding, parse(0x80, 60, 64), false)).toBe(0);
+    expect(read(binding, parse(0x90, 61, 127), false)).toBeNull();
+  });
+
+  it('reads pitch bend from its lowest to its highest value', () => {
+    const read = createLearnInputReader();
+    const binding = bind({ source: { kind: 'pitch-bend', channel: 1, number: 0 } });
+    expect(read(binding, parse(0xe0, 0, 0), false)).toBe(0);
+    expect(read(binding, parse(0xe0, 127, 127), false)).toBe(1);
+  });
+});
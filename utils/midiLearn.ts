@@ -0,0 +1,110 @@
+import type { MidiLearnBinding, MidiLearnCurve, MidiLearnSource, ParsedMidiMessage } from '../types';
+import { noteName } from './notes';
+
+export const DEFAULT_MIDI_LEARN_BINDING: MidiLearnBinding = {
+  source: null,
+  inputMin: 0,
+  inputMax: 1,
+  outputMin: 0,
+  outputMax: 1,
+  invert: false,
+  curve: 'linear',
+  upscaling: 'stretch',
+};
+
+export const MIDI_LEARN_CURVE_LABELS: Record<MidiLearnCurve, string> = {
+  'linear': 'Linear',
+  'exponential': 'Exponential',
+  'logarithmic': 'Logarithmic',
+  's-curve': 'S-curve',
+};
+
+/**
+ * The control an incoming message comes from, or null if it cannot be learned.
+ */
+export const getLearnSource = (message: ParsedMidiMessage): MidiLearnSource | null => {
+  switch (message.type) {
+    case 'Control Change':
+      return { kind: 'cc', channel: message.channel, number: message.controller };
+    case 'Note On':
+    case 'Note Off':
+      return { kind: 'note', channel: message.channel, number: message.note };
+    case 'Pitch Bend':
+      return { kind: 'pitch-bend', channel: message.channel, number: 0 };
+    default:
+      return null;
+  }
+};
+
+export const describeLearnSource = (source: MidiLearnSource): string => {
+  switch (source.kind) {
+    case 'cc':
+      return `CC ${source.number} · Ch ${source.channel}`;
+    case 'note':
+      return `Note ${noteName(source.number)} · Ch ${source.channel}`;
+    case 'pitch-bend':
+      return `Pitch Bend · Ch ${source.channel}`;
+  }
+};
+
+const applyCurve = (curve: MidiLearnCurve, x: number): number => {
+  switch (curve) {
+    case 'linear':
+      return x;
+    case 'exponential':
+      return x * x;
+    case 'logarithmic':
+      return Math.sqrt(x);
+    case 's-curve':
+      return x * x * (3 - 2 * x);
+  }
+};
+
+/**
+ * Maps an input fraction (0-1 of the source's range) to a fraction of the card's range:
+ * clamp to the input window, invert, shape with the curve, then scale into the output window.
+ */
+export const applyLearnTransform = (binding: MidiLearnBinding, input: number): number => {
+  const { inputMin, inputMax, outputMin, outputMax, invert, curve } = binding;
+  const span = inputMax - inputMin;
+  let x = span > 0 ? (input - inputMin) / span : input >= inputMin ? 1 : 0;
+  x = Math.min(1, Math.max(0, x));
+  if (invert) x = 1 - x;
+  return outputMin + applyCurve(curve, x) * (outputMax - outputMin);
+};
+
+// Reads a bound control's position from incoming messages, as a fraction 0-1 of its range.
+export type LearnInputReader = (binding: MidiLearnBinding, message: ParsedMidiMessage, highRes: boolean) => number | null;
+
+/**
+ * Creates a reader for one card. It remembers the last MSB of the bound CC, so a controller's
+ * own LSB (CC number + 32) can refine it when the binding uses 'lsb-pair' up-scaling.
+ */
+export const createLearnInputReader = (): LearnInputReader => {
+  let msb = 0;
+
+  return (binding, message, highRes) => {
+    const { source, upscaling } = binding;
+    if (!source || !('channel' in message) || message.channel !== source.channel) return null;
+    switch (source.kind) {
+      case 'cc': {
+        if (message.type !== 'Control Change') return null;
+        const pairsLsb = highRes && upscaling === 'lsb-pair' && source.number < 32;
+        if (pairsLsb && message.controller === source.number + 32) {
+          return ((msb << 7) | message.value) / 16383;
+        }
+        if (message.controller !== source.number) return null;
+        // A new MSB resets the LSB, as with 14-bit controllers on the receiving side.
+        msb = message.value;
+        if (!highRes || upscaling === 'stretch') return message.value / 127;
+        return (message.value << 7) / 16383;
+      }
+      case 'note':
+        if (message.type === 'Note On' && message.note === source.number) return message.velocity / 127;
+        if (message.type === 'Note Off' && message.note === source.number) return 0;
+        return null;
+      case 'pitch-bend':
+        return message.type === 'Pitch Bend' ? (message.value + 8192) / 16383 : null;
+    }
+  };
+};
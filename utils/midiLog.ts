@@ -0,0 +1,150 @@
+import type { MidiDirection, MidiMessageType, ParsedMidiMessage, TransportWrite } from '../types';
+import { parseMidiMessage } from './midiParser';
+import { encodeStandardMidiFile } from './smf';
+import { formatHex } from './sysex';
+
+export const MESSAGE_TYPES: MidiMessageType[] = [
+  'Note On',
+  'Note Off',
+  'Poly Aftertouch',
+  'Control Change',
+  'Parameter Number',
+  'Program Change',
+  'Channel Aftertouch',
+  'Pitch Bend',
+  'System Exclusive',
+  'MTC Quarter Frame',
+  'Song Position',
+  'Song Select',
+  'Tune Request',
+  'System Real-Time',
+  'Unknown',
+];
+
+export interface MidiLogFilter {
+  // Empty shows every type.
+  types: MidiMessageType[];
+  channel: number | null;
+  // Controller number for CCs, note number for note messages.
+  number: number | null;
+  // null shows both directions
+  direction: MidiDirection | null;
+  search: string;
+}
+
+export const EMPTY_LOG_FILTER: MidiLogFilter = { types: [], channel: null, number: null, direction: null, search: '' };
+
+export const getDirection = (message: ParsedMidiMessage): MidiDirection => message.direction ?? 'in';
+
+/**
+ * Turns a write reported by a transport into one log entry per message it carried.
+ * `target` is unset for sends that reached no device at all.
+ */
+export const createSentEntries = (
+  write: TransportWrite,
+  target: number | undefined,
+  getOrigin: (message: Uint8Array) => string | undefined,
+): ParsedMidiMessage[] =>
+  write.messages.flatMap(message => {
+    const parsed = parseMidiMessage(message);
+    if (!parsed) return [];
+    return [{
+      ...parsed,
+      receivedAt: write.writtenAt,
+      direction: 'out' as const,
+      source: target,
+      origin: getOrigin(message),
+      packets: write.packets.length > 0 ? write.packets : undefined,
+      writeError: write.error,
+    }];
+  });
+
+// The packet(s) a message travelled in, or its own bytes for transports without packet framing.
+export const formatWireBytes = (message: ParsedMidiMessage): string => {
+  if (message.packets) return message.packets.map(packet => formatHex(packet)).join(' | ');
+  return formatHex(message.packet ?? message.bytes);
+};
+
+const getNumber = (message: ParsedMidiMessage): number | undefined => {
+  switch (message.type) {
+    case 'Note On':
+    case 'Note Off':
+    case 'Poly Aftertouch':
+      return message.note;
+    case 'Control Change':
+      return message.controller;
+    default:
+      return undefined;
+  }
+};
+
+export const matchesLogFilter = (message: ParsedMidiMessage, filter: MidiLogFilter): boolean => {
+  if (filter.types.length > 0 && !filter.types.includes(message.type)) return false;
+  if (filter.channel !== null && (!('channel' in message) || message.channel !== filter.channel)) return false;
+  if (filter.number !== null && getNumber(message) !== filter.number) return false;
+  if (filter.direction !== null && getDirection(message) !== filter.direction) return false;
+  const search = filter.search.trim().toLowerCase();
+  return search === ''
+    || message.description.toLowerCase().includes(search)
+    || (message.origin?.toLowerCase().includes(search) ?? false)
+    || (message.label?.toLowerCase().includes(search) ?? false);
+};
+
+/**
+ * Formats a performance.now() time as wall-clock time with microseconds, e.g. 14:03:27.512.384.
+ */
+export const formatLogTime = (receivedAt: number): string => {
+  const epochMs = performance.timeOrigin + receivedAt;
+  const time = new Date(epochMs).toLocaleTimeString([], { hour12: false });
+  const micros = Math.floor((epochMs % 1000) * 1000);
+  return `${time}.${String(Math.floor(micros / 1000)).padStart(3, '0')}.${String(micros % 1000).padStart(3, '0')}`;
+};
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportLogCsv = (messages: ParsedMidiMessage[]): string => {
+  const header = [
+    'time', 'receivedAtMs', 'direction', 'bleTimestamp', 'source', 'origin', 'type', 'channel', 'description', 'label', 'bytes', 'packet', 'writeError',
+  ];
+  const rows = messages.map(message => [
+    new Date(performance.timeOrigin + message.receivedAt).toISOString(),
+    message.receivedAt.toFixed(3),
+    getDirection(message),
+    message.bleTimestamp,
+    message.source,
+    message.origin,
+    message.type,
+    'channel' in message ? message.channel : undefined,
+    message.description,
+    message.label,
+    formatHex(message.bytes),
+    message.packet || message.packets ? formatWireBytes(message) : undefined,
+    message.writeError,
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const exportLogJson = (messages: ParsedMidiMessage[]): string =>
+  JSON.stringify(
+    messages.map(message => ({ ...message, time: new Date(performance.timeOrigin + message.receivedAt).toISOString() })),
+    null,
+    2,
+  );
+
+/**
+ * Channel and SysEx messages of one direction as a Standard MIDI File, timed by their receive
+ * (or write) time. Failed writes never reached the device, so they are left out. Grouped
+ * RPN/NRPN entries are written as the CCs they were received as.
+ */
+export const exportLogSmf = (messages: ParsedMidiMessage[], direction: MidiDirection): Uint8Array =>
+  encodeStandardMidiFile(messages.flatMap(message => {
+    if ((message.direction ?? 'in') !== direction || message.writeError !== undefined) return [];
+    if (message.type !== 'Parameter Number') return [{ time: message.receivedAt, bytes: message.bytes }];
+    return Array.from({ length: message.bytes.length / 3 }, (_, i) => ({
+      time: message.receivedAt,
+      bytes: message.bytes.slice(i * 3, i * 3 + 3),
+    }));
+  }));
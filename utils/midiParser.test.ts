@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { getMidiDataLength, getSysExManufacturerId, isRealTimeStatus, parseMidiMessage } from './midiParser';
+
+describe('getMidiDataLength', () => {
+  it('knows the data length of every status byte', () => {
+    expect(getMidiDataLength(0x90)).toBe(2);
+    expect(getMidiDataLength(0xbf)).toBe(2);
+    expect(getMidiDataLength(0xc3)).toBe(1);
+    expect(getMidiDataLength(0xd0)).toBe(1);
+    expect(getMidiDataLength(0xf1)).toBe(1);
+    expect(getMidiDataLength(0xf2)).toBe(2);
+    expect(getMidiDataLength(0xf3)).toBe(1);
+    expect(getMidiDataLength(0xf6)).toBe(0);
+    expect(getMidiDataLength(0xf8)).toBe(0);
+  });
+
+  it('reports no length for data bytes and SysEx', () => {
+    expect(getMidiDataLength(0x40)).toBe(0);
+    expect(getMidiDataLength(0xf0)).toBe(0);
+  });
+
+  it('recognizes System Real-Time status bytes', () => {
+    expect(isRealTimeStatus(0xf8)).toBe(true);
+    expect(isRealTimeStatus(0xff)).toBe(true);
+    expect(isRealTimeStatus(0xf7)).toBe(false);
+  });
+});
+
+describe('getSysExManufacturerId', () => {
+  it('reads one-byte and extended IDs', () => {
+    expect(getSysExManufacturerId([0xf0, 0x43, 0x10, 0xf7])).toEqual([0x43]);
+    expect(getSysExManufacturerId([0xf0, 0x00, 0x20, 0x29, 0x02, 0xf7])).toEqual([0x00, 0x20, 0x29]);
+    expect(getSysExManufacturerId([0xf0, 0xf7])).toEqual([]);
+  });
+});
+
+describe('parseMidiMessage', () => {
+  it('decodes channel-voice messages with 1-based channels', () => {
+    expect(parseMidiMessage([0x91, 60, 100])).toMatchObject({ type: 'Note On', channel: 2, note: 60, velocity: 100 });
+    expect(parseMidiMessage([0x80, 60, 0])).toMatchObject({ type: 'Note Off', channel: 1, note: 60, velocity: 0 });
+    expect(parseMidiMessage([0xa0, 60, 30])).toMatchObject({ type: 'Poly Aftertouch', note: 60, pressure: 30 });
+    expect(parseMidiMessage([0xbf, 7, 127])).toMatchObject({ type: 'Control Change', channel: 16, controller: 7, value: 127 });
+    expect(parseMidiMessage([0xc0, 5])).toMatchObject({ type: 'Program Change', program: 5 });
+    expect(parseMidiMessage([0xd0, 64])).toMatchObject({ type: 'Channel Aftertouch', pressure: 64 });
+  });
+
+  it('shows pitch bend as a signed value around center', () => {
+    expect(parseMidiMessage([0xe0, 0, 0])).toMatchObject({ type: 'Pitch Bend', value: -8192 });
+    expect(parseMidiMessage([0xe0, 0, 64])).toMatchObject({ value: 0 });
+    expect(parseMidiMessage([0xe0, 127, 127])).toMatchObject({ value: 8191 });
+  });
+
+  it('decodes System Common and System Real-Time messages', () => {
+    expect(parseMidiMessage([0xf1, 0x35])).toMatchObject({ type: 'MTC Quarter Frame', piece: 3, value: 5 });
+    expect(parseMidiMessage([0xf2, 0x01, 0x02])).toMatchObject({ type: 'Song Position', position: 257 });
+    expect(parseMidiMessage([0xf3, 4])).toMatchObject({ type: 'Song Select', song: 4 });
+    expect(parseMidiMessage([0xf6])).toMatchObject({ type: 'Tune Request' });
+    expect(parseMidiMessage([0xfa])).toMatchObject({ type: 'System Real-Time', status: 0xfa, name: 'Start' });
+  });
+
+  it('describes SysEx by its length and manufacturer', () => {
+    expect(parseMidiMessage([0xf0, 0x43, 0x10, 0xf7])).toMatchObject({
+      type: 'System Exclusive',
+      manufacturerId: [0x43],
+      description: 'SysEx    - 4 bytes, Mfr: 0x43',
+    });
+  });
+
+  it('does not guess at messages with missing data bytes', () => {
+    expect(parseMidiMessage([0x90, 60])).toMatchObject({ type: 'Unknown', description: 'Unknown: [0x90, 0x3C]' });
+    expect(parseMidiMessage([])).toBeNull();
+  });
+
+  it('keeps the raw bytes and the BLE timestamp', () => {
+    expect(parseMidiMessage(new Uint8Array([0xb0, 1, 2]), 1234)).toMatchObject({ bytes: [0xb0, 1, 2], bleTimestamp: 1234 });
+  });
+});
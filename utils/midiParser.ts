@@ -0,0 +1,147 @@
+import type { MidiMessageBody, ParsedMidiMessage } from '../types';
+
+const REAL_TIME_NAMES: Record<number, string> = {
+  0xf8: 'Timing Clock',
+  0xf9: 'Undefined',
+  0xfa: 'Start',
+  0xfb: 'Continue',
+  0xfc: 'Stop',
+  0xfd: 'Undefined',
+  0xfe: 'Active Sensing',
+  0xff: 'System Reset',
+};
+
+export const isRealTimeStatus = (status: number): boolean => status >= 0xf8;
+
+/**
+ * Returns the number of data bytes that follow a given status byte.
+ * SysEx (0xF0) is variable-length and reported as 0 here.
+ */
+export const getMidiDataLength = (status: number): number => {
+  if (status < 0x80) return 0;
+  if (status < 0xf0) {
+    const command = status & 0xf0;
+    return command === 0xc0 || command === 0xd0 ? 1 : 2;
+  }
+  switch (status) {
+    case 0xf1: // MTC Quarter Frame
+    case 0xf3: // Song Select
+      return 1;
+    case 0xf2: // Song Position Pointer
+      return 2;
+    default:
+      return 0;
+  }
+};
+
+const toHex = (value: number) => `0x${value.toString(16).toUpperCase().padStart(2, '0')}`;
+
+/**
+ * Returns the manufacturer ID of a SysEx message (starting with F0): three bytes when the
+ * first ID byte is 0x00 (extended IDs), otherwise one byte. 0x7E/0x7F are Universal SysEx.
+ */
+export const getSysExManufacturerId = (bytes: ArrayLike<number>): number[] => {
+  if (bytes.length < 2 || bytes[1] === 0xf7) return [];
+  if (bytes[1] === 0x00) return Array.from(bytes).slice(1, 4);
+  return [bytes[1]];
+};
+
+const decodeFields = (bytes: ArrayLike<number>): MidiMessageBody => {
+  const status = bytes[0];
+  if (status === 0xf0) {
+    return { type: 'System Exclusive', manufacturerId: getSysExManufacturerId(bytes) };
+  }
+  // Messages with missing data bytes cannot be interpreted reliably.
+  if (bytes.length < getMidiDataLength(status) + 1) return { type: 'Unknown' };
+
+  if (isRealTimeStatus(status)) {
+    return { type: 'System Real-Time', status, name: REAL_TIME_NAMES[status] };
+  }
+
+  const channel = (status & 0x0f) + 1;
+  const data1 = bytes[1];
+  const data2 = bytes[2];
+
+  switch (status & 0xf0) {
+    case 0x80:
+      return { type: 'Note Off', channel, note: data1, velocity: data2 };
+    case 0x90:
+      return { type: 'Note On', channel, note: data1, velocity: data2 };
+    case 0xa0:
+      return { type: 'Poly Aftertouch', channel, note: data1, pressure: data2 };
+    case 0xb0:
+      return { type: 'Control Change', channel, controller: data1, value: data2 };
+    case 0xc0:
+      return { type: 'Program Change', channel, program: data1 };
+    case 0xd0:
+      return { type: 'Channel Aftertouch', channel, pressure: data1 };
+    case 0xe0:
+      return { type: 'Pitch Bend', channel, value: ((data2 << 7) | data1) - 8192 };
+  }
+
+  switch (status) {
+    case 0xf1:
+      return { type: 'MTC Quarter Frame', piece: (data1 >> 4) & 0x07, value: data1 & 0x0f };
+    case 0xf2:
+      return { type: 'Song Position', position: (data2 << 7) | data1 };
+    case 0xf3:
+      return { type: 'Song Select', song: data1 };
+    case 0xf6:
+      return { type: 'Tune Request' };
+    default:
+      return { type: 'Unknown' };
+  }
+};
+
+const describeMidiMessage = (message: MidiMessageBody, bytes: ArrayLike<number>): string => {
+  switch (message.type) {
+    case 'Note Off':
+      return `Note Off - Ch: ${message.channel}, Note: ${message.note}, Vel: ${message.velocity}`;
+    case 'Note On':
+      return `Note On  - Ch: ${message.channel}, Note: ${message.note}, Vel: ${message.velocity}`;
+    case 'Poly Aftertouch':
+      return `Poly AT  - Ch: ${message.channel}, Note: ${message.note}, Pressure: ${message.pressure}`;
+    case 'Control Change':
+      return `CC       - Ch: ${message.channel}, CC#: ${message.controller}, Val: ${message.value}`;
+    case 'Program Change':
+      return `Program  - Ch: ${message.channel}, Program: ${message.program}`;
+    case 'Channel Aftertouch':
+      return `Chan AT  - Ch: ${message.channel}, Pressure: ${message.pressure}`;
+    case 'Pitch Bend':
+      return `Bend     - Ch: ${message.channel}, Value: ${message.value > 0 ? '+' : ''}${message.value}`;
+    case 'MTC Quarter Frame':
+      return `MTC QF   - Piece: ${message.piece}, Value: ${message.value}`;
+    case 'Song Position':
+      return `Song Pos - Beats: ${message.position}`;
+    case 'Song Select':
+      return `Song Sel - Song: ${message.song}`;
+    case 'System Exclusive':
+      return `SysEx    - ${bytes.length} bytes, Mfr: ${message.manufacturerId.map(toHex).join(' ') || 'none'}`;
+    case 'Tune Request':
+      return 'Tune Request';
+    case 'System Real-Time':
+      return `RT       - ${message.name} (${toHex(message.status)})`;
+    default:
+      return `Unknown: [${Array.from(bytes).map(toHex).join(', ')}]`;
+  }
+};
+
+/**
+ * Converts a single, complete MIDI message (status byte followed by its data bytes)
+ * into a ParsedMidiMessage for display.
+ */
+export const parseMidiMessage = (bytes: ArrayLike<number>, bleTimestamp?: number): ParsedMidiMessage | null => {
+  if (bytes.length === 0) return null;
+
+  const fields = decodeFields(bytes);
+
+  return {
+    id: Date.now() + Math.random(),
+    timestamp: new Date().toLocaleTimeString(),
+    description: describeMidiMessage(fields, bytes),
+    bytes: Array.from(bytes),
+    bleTimestamp,
+    receivedAt: performance.now(),
+    ...fields,
+  };
+};
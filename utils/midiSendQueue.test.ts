@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMidiSendQueue, type MidiSendQueueOptions } from './midiSendQueue';
+
+const createQueue = (options: Partial<MidiSendQueueOptions> = {}) => {
+  const written: number[][] = [];
+  const write = vi.fn(async (packet: Uint8Array) => {
+    written.push(Array.from(packet));
+  });
+  const queue = createMidiSendQueue({ write, getMtu: () => 23, getIntervalMs: () => 15, ...options });
+  return { queue, write, written };
+};
+
+describe('createMidiSendQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('batches messages enqueued within one interval into one packet', async () => {
+    const { queue, write, written } = createQueue();
+    queue.enqueue(new Uint8Array([0xb0, 0, 1]));
+    queue.enqueue(new Uint8Array([0xb0, 32, 2]));
+    expect(write).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(15);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(written[0].slice(2)).toEqual([0xb0, 0, 1, 32, 2]);
+  });
+
+  it('reports each flush with its messages and packets', async () => {
+    const onFlushed = vi.fn();
+    const { queue } = createQueue({ onFlushed });
+    const message = new Uint8Array([0x90, 60, 100]);
+    queue.enqueue(message);
+    await queue.flush();
+    expect(onFlushed).toHaveBeenCalledWith([message], [expect.any(Uint8Array)]);
+  });
+
+  it('writes packets of consecutive flushes in order', async () => {
+    const order: number[] = [];
+    let release: () => void = () => {};
+    const write = vi.fn((packet: Uint8Array) => {
+      order.push(packet[packet.length - 1]);
+      // The first write stays pending until released.
+      return order.length === 1 ? new Promise<void>(resolve => { release = resolve; }) : Promise.resolve();
+    });
+    const { queue } = createQueue({ write });
+    queue.enqueue(new Uint8Array([0x90, 60, 1]));
+    const first = queue.flush();
+    queue.enqueue(new Uint8Array([0x90, 60, 2]));
+    const second = queue.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual([1]);
+
+    release();
+    await Promise.all([first, second]);
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('reports a failed write and carries on with the next flush', async () => {
+    const error = new Error('GATT operation failed');
+    const onError = vi.fn();
+    const onFlushed = vi.fn();
+    const write = vi.fn().mockRejectedValueOnce(error).mockResolvedValue(undefined);
+    const { queue } = createQueue({ write, onError, onFlushed });
+
+    queue.enqueue(new Uint8Array([0xf8]));
+    await queue.flush();
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(onFlushed).toHaveBeenLastCalledWith([new Uint8Array([0xf8])], [expect.any(Uint8Array)], error);
+
+    queue.enqueue(new Uint8Array([0xfa]));
+    await queue.flush();
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns discarded messages from clear', async () => {
+    const { queue, write } = createQueue();
+    const message = new Uint8Array([0x90, 60, 100]);
+    queue.enqueue(message);
+    expect(queue.clear()).toEqual([message]);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('holds messages while paused and sends them on resume', async () => {
+    const { queue, write } = createQueue();
+    queue.pause();
+    queue.enqueue(new Uint8Array([0x90, 60, 100]));
+    await queue.flush();
+    await vi.advanceTimersByTimeAsync(50);
+    expect(write).not.toHaveBeenCalled();
+
+    queue.resume();
+    await vi.advanceTimersByTimeAsync(15);
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+});
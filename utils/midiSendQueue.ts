@@ -0,0 +1,96 @@
+import { encodeBleMidiPackets, type TimestampedMidiMessage } from './bleMidiEncoder';
+
+export interface MidiSendQueueOptions {
+  // Writes one encoded BLE-MIDI packet. Packets are written one at a time, in order.
+  write: (packet: Uint8Array) => Promise<void>;
+  getMtu: () => number;
+  getIntervalMs: () => number;
+  onError?: (error: unknown) => void;
+  // Called after every flush with the messages it carried, the packets they were encoded into,
+  // and the error if a write failed.
+  onFlushed?: (messages: Uint8Array[], packets: Uint8Array[], error?: unknown) => void;
+}
+
+export interface MidiSendQueue {
+  enqueue: (message: Uint8Array) => void;
+  flush: () => Promise<void>;
+  // Discards the messages not flushed yet and returns them.
+  clear: () => Uint8Array[];
+  // Stops flushing but keeps collecting messages, e.g. while the link is re-established.
+  pause: () => void;
+  // Resumes flushing, starting with anything collected while paused.
+  resume: () => void;
+}
+
+/**
+ * Collects outgoing MIDI messages and flushes them once per connection interval,
+ * so messages sent together (e.g. a 14-bit MSB/LSB pair) share a single packet.
+ */
+export const createMidiSendQueue = ({ write, getMtu, getIntervalMs, onError, onFlushed }: MidiSendQueueOptions): MidiSendQueue => {
+  let pending: TimestampedMidiMessage[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let paused = false;
+
+  const flush = (): Promise<void> => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (paused || pending.length === 0) return writing;
+
+    const messages = pending.map(message => message.data);
+    const packets = encodeBleMidiPackets(pending, getMtu());
+    pending = [];
+    // Chain onto the previous flush so packets never overtake each other.
+    writing = writing.then(async () => {
+      try {
+        for (const packet of packets) {
+          await write(packet);
+        }
+        onFlushed?.(messages, packets);
+      } catch (error) {
+        onError?.(error);
+        onFlushed?.(messages, packets, error);
+      }
+    });
+    return writing;
+  };
+
+  const enqueue = (message: Uint8Array) => {
+    pending.push({ data: message, timestamp: performance.now() });
+    if (timer === null && !paused) {
+      timer = setTimeout(flush, getIntervalMs());
+    }
+  };
+
+  const clear = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const discarded = pending.map(message => message.data);
+    pending = [];
+    return discarded;
+  };
+
+  const pause = () => {
+    paused = true;
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const resume = () => {
+    paused = false;
+    // Timestamps from before the pause would look stale to the receiver.
+    const now = performance.now();
+    pending = pending.map(message => ({ ...message, timestamp: now }));
+    if (pending.length > 0 && timer === null) {
+      timer = setTimeout(flush, getIntervalMs());
+    }
+  };
+
+  return { enqueue, flush, clear, pause, resume };
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedMidiMessage } from '../types';
+import { channelPressure, controlChange, noteOff, noteOn, pitchBend } from './midiBuilder';
+import { parseMidiMessage } from './midiParser';
+import {
+  buildZoneConfiguration,
+  createMemberChannelAllocator,
+  createMpeTracker,
+  getManagerChannel,
+  getMemberChannels,
+} from './mpe';
+
+const parse = (bytes: Uint8Array, receivedAt = 0): ParsedMidiMessage =>
+  ({ ...parseMidiMessage(bytes) as ParsedMidiMessage, receivedAt });
+
+describe('zone layout', () => {
+  it('uses channel 1 or 16 as manager channel', () => {
+    expect(getManagerChannel('lower')).toBe(1);
+    expect(getManagerChannel('upper')).toBe(16);
+  });
+
+  it('allocates member channels away from the manager channel', () => {
+    expect(getMemberChannels('lower', 3)).toEqual([2, 3, 4]);
+    expect(getMemberChannels('upper', 3)).toEqual([15, 14, 13]);
+    expect(getMemberChannels('lower', 20)).toHaveLength(15);
+  });
+
+  it('configures the zone and the bend range of every member channel', () => {
+    const messages = buildZoneConfiguration('lower', 2, 48).map(bytes => Array.from(bytes));
+    expect(messages).toEqual([
+      [0xb0, 101, 0], [0xb0, 100, 6], [0xb0, 6, 2], [0xb0, 101, 127], [0xb0, 100, 127],
+      [0xb1, 101, 0], [0xb1, 100, 0], [0xb1, 6, 48], [0xb1, 101, 127], [0xb1, 100, 127],
+      [0xb2, 101, 0], [0xb2, 100, 0], [0xb2, 6, 48], [0xb2, 101, 127], [0xb2, 100, 127],
+    ]);
+  });
+});
+
+describe('createMemberChannelAllocator', () => {
+  it('hands out channels round-robin and skips busy ones', () => {
+    const allocate = createMemberChannelAllocator();
+    const channels = [2, 3, 4];
+    const busy = new Set<number>();
+    const take = () => {
+      const channel = allocate(channels, ch => busy.has(ch));
+      if (channel !== null) busy.add(channel);
+      return channel;
+    };
+    expect([take(), take()]).toEqual([2, 3]);
+    busy.delete(2);
+    busy.delete(3);
+    // Allocation continues with channel 4 even though 2 and 3 are free again.
+    expect([take(), take()]).toEqual([4, 2]);
+  });
+
+  it('steals the next channel in turn when all are busy', () => {
+    const allocate = createMemberChannelAllocator();
+    expect(allocate([2, 3], () => true)).toBe(2);
+    expect(allocate([2, 3], () => true)).toBe(3);
+  });
+
+  it('returns null without member channels', () => {
+    expect(createMemberChannelAllocator()([], () => false)).toBeNull();
+  });
+});
+
+describe('createMpeTracker', () => {
+  it('traces a note with the expression sent before and during it', () => {
+    const tracker = createMpeTracker();
+    tracker.handle(parse(pitchBend(2, -8192), 1));
+    tracker.handle(parse(noteOn(2, 60, 90), 2));
+    tracker.handle(parse(channelPressure(2, 127), 3));
+    tracker.handle(parse(controlChange(2, 74, 0), 4));
+    tracker.handle(parse(noteOff(2, 60), 5));
+
+    const [trace] = tracker.getSnapshot().traces;
+    expect(trace).toMatchObject({ channel: 2, note: 60, velocity: 90, startedAt: 2, endedAt: 5 });
+    expect(trace.bend).toEqual([{ time: 2, value: -1 }]);
+    expect(trace.pressure).toEqual([{ time: 2, value: 0 }, { time: 3, value: 1 }]);
+    expect(trace.timbre).toEqual([{ time: 2, value: 0.5 }, { time: 4, value: 0 }]);
+  });
+
+  it('ignores messages on the manager channel', () => {
+    const tracker = createMpeTracker();
+    tracker.handle(parse(noteOn(1, 60, 90)));
+    expect(tracker.getSnapshot().traces).toEqual([]);
+  });
+
+  it('follows a received MPE Configuration Message', () => {
+    const tracker = createMpeTracker();
+    buildZoneConfiguration('upper', 3, 48).forEach(bytes => tracker.handle(parse(bytes)));
+    expect(tracker.getSnapshot().zones).toEqual({ lower: 11, upper: 3 });
+
+    tracker.handle(parse(noteOn(14, 60, 90)));
+    tracker.handle(parse(noteOn(13, 62, 90)));
+    expect(tracker.getSnapshot().traces.map(trace => trace.channel)).toEqual([14, 13]);
+  });
+
+  it('disables the other zone when a zone takes all 15 member channels', () => {
+    const tracker = createMpeTracker();
+    buildZoneConfiguration('upper', 3, 48).forEach(bytes => tracker.handle(parse(bytes)));
+    buildZoneConfiguration('lower', 15, 48).forEach(bytes => tracker.handle(parse(bytes)));
+    expect(tracker.getSnapshot().zones).toEqual({ lower: 15, upper: 0 });
+
+    buildZoneConfiguration('upper', 15, 48).forEach(bytes => tracker.handle(parse(bytes)));
+    expect(tracker.getSnapshot().zones).toEqual({ lower: 0, upper: 15 });
+  });
+
+  it('bumps its version on changes and resets on clear', () => {
+    const tracker = createMpeTracker();
+    const before = tracker.getVersion();
+    tracker.handle(parse(noteOn(2, 60, 90)));
+    expect(tracker.getVersion()).toBeGreaterThan(before);
+
+    tracker.clear();
+    expect(tracker.getSnapshot()).toEqual({ zones: { lower: 15, upper: 0 }, traces: [] });
+  });
+});
@@ -0,0 +1,227 @@
+import type { MpeZone, ParsedMidiMessage } from '../types';
+import { parameterNumber, rpnNull } from './midiBuilder';
+
+// MPE Configuration Message: RPN 6 on a zone's manager channel, data entry MSB = member channel count.
+export const MPE_CONFIGURATION_RPN = 0x0006;
+export const PITCH_BEND_SENSITIVITY_RPN = 0x0000;
+// The third MPE dimension (timbre / slide)
+export const MPE_TIMBRE_CC = 74;
+
+export const getManagerChannel = (zone: MpeZone): number => (zone === 'lower' ? 1 : 16);
+
+/**
+ * A zone's member channels in allocation order: upwards from channel 2 for the lower zone,
+ * downwards from channel 15 for the upper zone.
+ */
+export const getMemberChannels = (zone: MpeZone, count: number): number[] =>
+  Array.from({ length: Math.min(15, Math.max(0, count)) }, (_, i) => (zone === 'lower' ? 2 + i : 15 - i));
+
+/**
+ * The zone configuration: the MCM on the manager channel, then the pitch bend sensitivity of
+ * every member channel. Each sequence ends with RPN Null.
+ */
+export const buildZoneConfiguration = (zone: MpeZone, memberChannels: number, bendRange: number): Uint8Array[] => {
+  const manager = getManagerChannel(zone);
+  return [
+    ...parameterNumber(manager, 'RPN', MPE_CONFIGURATION_RPN, memberChannels << 7, false),
+    ...rpnNull(manager),
+    ...getMemberChannels(zone, memberChannels).flatMap(channel => [
+      ...parameterNumber(channel, 'RPN', PITCH_BEND_SENSITIVITY_RPN, bendRange << 7, false),
+      ...rpnNull(channel),
+    ]),
+  ];
+};
+
+/**
+ * Hands out member channels round-robin, skipping busy channels. When every channel is busy
+ * the next one in turn is returned anyway, and the caller releases the note playing on it.
+ */
+export const createMemberChannelAllocator = () => {
+  let next = 0;
+  return (channels: number[], isBusy: (channel: number) => boolean): number | null => {
+    if (channels.length === 0) return null;
+    for (let i = 0; i < channels.length; i++) {
+      const channel = channels[(next + i) % channels.length];
+      if (!isBusy(channel)) {
+        next = (next + i + 1) % channels.length;
+        return channel;
+      }
+    }
+    const channel = channels[next % channels.length];
+    next = (next + 1) % channels.length;
+    return channel;
+  };
+};
+
+export interface MpeTracePoint {
+  // performance.now() milliseconds
+  time: number;
+  // Pitch bend -1 to 1 (0 = center); pressure and timbre 0 to 1
+  value: number;
+}
+
+// The expression of one received note, from its Note On on a member channel to its Note Off.
+export interface MpeNoteTrace {
+  id: number;
+  channel: number;
+  note: number;
+  velocity: number;
+  startedAt: number;
+  // null while the note is held
+  endedAt: number | null;
+  bend: MpeTracePoint[];
+  pressure: MpeTracePoint[];
+  timbre: MpeTracePoint[];
+}
+
+export type MpeDimension = 'bend' | 'pressure' | 'timbre';
+
+export interface MpeZoneLayout {
+  // Member channel counts; 0 disables the zone
+  lower: number;
+  upper: number;
+}
+
+export interface MpeTrackerSnapshot {
+  zones: MpeZoneLayout;
+  // Oldest first
+  traces: MpeNoteTrace[];
+}
+
+// Traces of released notes beyond this count are dropped, oldest first.
+const MAX_TRACES = 24;
+// Points kept per dimension of a trace; a long-held note keeps its most recent movement.
+const MAX_POINTS = 1000;
+
+// Without an MCM, assume the common single lower zone over all 15 channels.
+const DEFAULT_ZONES: MpeZoneLayout = { lower: 15, upper: 0 };
+
+const isMemberChannel = (zones: MpeZoneLayout, channel: number) =>
+  (zones.lower > 0 && channel >= 2 && channel <= zones.lower + 1)
+  || (zones.upper > 0 && channel <= 15 && channel >= 16 - zones.upper);
+
+/**
+ * Groups received channel messages by MPE member channel into per-note traces. Pitch bend,
+ * pressure and CC 74 sent before a Note On become the note's starting values, as MPE intends.
+ * Zones follow received MCMs; messages on manager channels apply to the whole zone and are
+ * not traced.
+ */
+export const createMpeTracker = () => {
+  let zones = { ...DEFAULT_ZONES };
+  let traces: MpeNoteTrace[] = [];
+  // Latest expression per member channel, including values sent before the Note On.
+  let channelValues = new Map<number, Record<MpeDimension, number>>();
+  // RPN selected per channel (CC 101/100), to recognize the MCM
+  let selectedRpn = new Map<number, { msb: number; lsb: number }>();
+  // Bumped on every change, so a display can poll without copying unchanged traces.
+  let version = 0;
+
+  const getChannelValues = (channel: number) => {
+    let values = channelValues.get(channel);
+    if (!values) {
+      values = { bend: 0, pressure: 0, timbre: 0.5 };
+      channelValues.set(channel, values);
+    }
+    return values;
+  };
+
+  const configureZone = (manager: number, count: number) => {
+    const members = Math.min(15, count);
+    // A new zone shrinks the other one so that they never overlap.
+    const room = Math.max(0, 14 - members);
+    if (manager === 1) zones = { lower: members, upper: Math.min(zones.upper, room) };
+    else zones = { upper: members, lower: Math.min(zones.lower, room) };
+  };
+
+  const trackRpn = (message: Extract<ParsedMidiMessage, { type: 'Control Change' }>) => {
+    const { channel, controller, value } = message;
+    const selected = selectedRpn.get(channel) ?? { msb: 127, lsb: 127 };
+    if (controller === 101) selectedRpn.set(channel, { ...selected, msb: value });
+    else if (controller === 100) selectedRpn.set(channel, { ...selected, lsb: value });
+    // NRPN selection deselects the RPN.
+    else if (controller === 99 || controller === 98) selectedRpn.delete(channel);
+    else if (controller === 6 && (channel === 1 || channel === 16)
+      && ((selected.msb << 7) | selected.lsb) === MPE_CONFIGURATION_RPN) {
+      configureZone(channel, value);
+      version++;
+    }
+  };
+
+  const record = (channel: number, dimension: MpeDimension, value: number, time: number, note?: number) => {
+    if (note === undefined) getChannelValues(channel)[dimension] = value;
+    traces.forEach(trace => {
+      if (trace.endedAt !== null || trace.channel !== channel || (note !== undefined && trace.note !== note)) return;
+      trace[dimension].push({ time, value });
+      if (trace[dimension].length > MAX_POINTS) trace[dimension].shift();
+    });
+  };
+
+  const startNote = (channel: number, note: number, velocity: number, time: number) => {
+    const values = getChannelValues(channel);
+    traces.push({
+      id: time + Math.random(),
+      channel,
+      note,
+      velocity,
+      startedAt: time,
+      endedAt: null,
+      bend: [{ time, value: values.bend }],
+      pressure: [{ time, value: values.pressure }],
+      timbre: [{ time, value: values.timbre }],
+    });
+    const ended = traces.filter(trace => trace.endedAt !== null);
+    if (traces.length > MAX_TRACES && ended.length > 0) {
+      const drop = new Set(ended.slice(0, traces.length - MAX_TRACES));
+      traces = traces.filter(trace => !drop.has(trace));
+    }
+  };
+
+  const endNote = (channel: number, note: number, time: number) => {
+    traces.forEach(trace => {
+      if (trace.endedAt === null && trace.channel === channel && trace.note === note) trace.endedAt = time;
+    });
+  };
+
+  const handle = (message: ParsedMidiMessage) => {
+    if (message.type === 'Control Change') trackRpn(message);
+    if (!('channel' in message) || !isMemberChannel(zones, message.channel)) return;
+    const { channel, receivedAt: time } = message;
+    version++;
+    switch (message.type) {
+      case 'Note On':
+        if (message.velocity > 0) startNote(channel, message.note, message.velocity, time);
+        else endNote(channel, message.note, time);
+        break;
+      case 'Note Off':
+        endNote(channel, message.note, time);
+        break;
+      case 'Pitch Bend':
+        record(channel, 'bend', message.value / (message.value < 0 ? 8192 : 8191), time);
+        break;
+      case 'Channel Aftertouch':
+        record(channel, 'pressure', message.pressure / 127, time);
+        break;
+      case 'Poly Aftertouch':
+        record(channel, 'pressure', message.pressure / 127, time, message.note);
+        break;
+      case 'Control Change':
+        if (message.controller === MPE_TIMBRE_CC) record(channel, 'timbre', message.value / 127, time);
+        break;
+    }
+  };
+
+  const getSnapshot = (): MpeTrackerSnapshot => ({
+    zones: { ...zones },
+    traces: traces.map(trace => ({ ...trace, bend: [...trace.bend], pressure: [...trace.pressure], timbre: [...trace.timbre] })),
+  });
+
+  const clear = () => {
+    traces = [];
+    channelValues = new Map();
+    selectedRpn = new Map();
+    zones = { ...DEFAULT_ZONES };
+    version++;
+  };
+
+  return { handle, getSnapshot, getVersion: () => version, clear };
+};
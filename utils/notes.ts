@@ -0,0 +1,22 @@
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * Returns the scientific pitch name of a MIDI note, with middle C (60) as C4.
+ */
+export const noteName = (note: number): string => `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+
+export const isBlackKey = (note: number): boolean => NOTE_NAMES[note % 12].includes('#');
+
+// Semitone offsets from the pressed key.
+export const CHORD_PRESETS: Record<string, number[]> = {
+  'Single Note': [0],
+  'Major': [0, 4, 7],
+  'Minor': [0, 3, 7],
+  'Dominant 7th': [0, 4, 7, 10],
+  'Major 7th': [0, 4, 7, 11],
+  'Minor 7th': [0, 3, 7, 10],
+  'Sus4': [0, 5, 7],
+  'Diminished': [0, 3, 6],
+  'Augmented': [0, 4, 8],
+  'Octave': [0, 12],
+};
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ParsedMidiMessage } from '../types';
+import { controlChange, noteOn, parameterNumber, parameterStep, rpnNull } from './midiBuilder';
+import { parseMidiMessage } from './midiParser';
+import { createParameterNumberGrouper, describeParameterNumber, formatParameterNumber } from './parameterNumbers';
+
+const parse = (messages: Uint8Array[]) => messages.map(bytes => parseMidiMessage(bytes) as ParsedMidiMessage);
+
+const createGrouper = () => {
+  const output: ParsedMidiMessage[] = [];
+  const grouper = createParameterNumberGrouper(messages => output.push(...messages));
+  return { push: (messages: Uint8Array[]) => grouper.push(parse(messages)), output };
+};
+
+describe('describeParameterNumber', () => {
+  it('names known RPNs and explains their value', () => {
+    expect(describeParameterNumber({
+      type: 'Parameter Number', channel: 1, kind: 'RPN', parameter: 0, action: 'set', value: (12 << 7) | 50, msbOnly: false,
+    })).toBe('RPN      - Ch: 1, 0x0000 (Pitch Bend Sensitivity) = 1586 (±12 semitones, 50 cents)');
+  });
+
+  it('marks MSB-only data entry and steps', () => {
+    expect(describeParameterNumber({
+      type: 'Parameter Number', channel: 2, kind: 'NRPN', parameter: 0x0123, action: 'set', value: 5 << 7, msbOnly: true,
+    })).toBe('NRPN     - Ch: 2, 0x0123 = 640 (MSB only)');
+    expect(describeParameterNumber({
+      type: 'Parameter Number', channel: 2, kind: 'NRPN', parameter: 0x0123, action: 'increment', value: 1, msbOnly: false,
+    })).toBe('NRPN     - Ch: 2, 0x0123 Increment');
+  });
+
+  it('formats parameter numbers as four hex digits', () => {
+    expect(formatParameterNumber(0x3fff)).toBe('0x3FFF');
+  });
+});
+
+describe('createParameterNumberGrouper', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('combines select and data entry CCs into one message', () => {
+    const { push, output } = createGrouper();
+    push(parameterNumber(3, 'NRPN', 0x0205, 1000));
+    expect(output).toHaveLength(1);
+    expect(output[0]).toMatchObject({
+      type: 'Parameter Number', channel: 3, kind: 'NRPN', parameter: 0x0205, action: 'set', value: 1000, msbOnly: false,
+    });
+    expect(output[0].bytes).toHaveLength(12);
+  });
+
+  it('completes MSB-only data entry after the timeout', () => {
+    const { push, output } = createGrouper();
+    push(parameterNumber(1, 'RPN', 0x0002, 64 << 7, false));
+    expect(output).toEqual([]);
+    vi.advanceTimersByTime(100);
+    expect(output[0]).toMatchObject({ parameter: 0x0002, value: 64 << 7, msbOnly: true });
+  });
+
+  it('completes MSB-only data entry when another message arrives on the channel', () => {
+    const { push, output } = createGrouper();
+    push(parameterNumber(1, 'RPN', 0x0002, 64 << 7, false));
+    push([noteOn(1, 60, 100)]);
+    expect(output.map(message => message.type)).toEqual(['Parameter Number', 'Note On']);
+  });
+
+  it('groups increment and decrement steps', () => {
+    const { push, output } = createGrouper();
+    push(parameterStep(1, 'RPN', 0x0000, -1));
+    expect(output[0]).toMatchObject({ type: 'Parameter Number', action: 'decrement', parameter: 0 });
+  });
+
+  it('recognizes RPN Null', () => {
+    const { push, output } = createGrouper();
+    push(rpnNull(4));
+    expect(output[0]).toMatchObject({ type: 'Parameter Number', kind: 'RPN', action: 'null', channel: 4 });
+  });
+
+  it('passes other CCs through unchanged', () => {
+    const { push, output } = createGrouper();
+    push([controlChange(1, 7, 100)]);
+    expect(output.map(message => message.bytes)).toEqual([[0xb0, 7, 100]]);
+  });
+
+  it('releases select CCs that never get a data entry', () => {
+    const { push, output } = createGrouper();
+    push([controlChange(1, 101, 0), controlChange(1, 100, 0)]);
+    expect(output).toEqual([]);
+    vi.advanceTimersByTime(100);
+    expect(output.map(message => message.bytes)).toEqual([[0xb0, 101, 0], [0xb0, 100, 0]]);
+  });
+
+  it('keeps sequences on different channels apart', () => {
+    const { push, output } = createGrouper();
+    const [msb, lsb, dataMsb, dataLsb] = parameterNumber(1, 'RPN', 0x0000, 2 << 7);
+    push([msb, lsb, controlChange(2, 7, 90), dataMsb, dataLsb]);
+    expect(output.map(message => message.type)).toEqual(['Control Change', 'Parameter Number']);
+  });
+});
@@ -0,0 +1,241 @@
+import type { ParameterNumberKind, ParameterNumberMessage, ParsedMidiMessage } from '../types';
+import { DATA_DECREMENT, DATA_ENTRY_LSB, DATA_ENTRY_MSB, DATA_INCREMENT, RPN_NULL } from './midiBuilder';
+
+export interface ParameterNumberPreset {
+  name: string;
+  kind: ParameterNumberKind;
+  parameter: number;
+  defaultValue: number;
+  sendDataLsb: boolean;
+  // Explains a 14-bit value in the parameter's own units
+  formatValue: (value14bit: number) => string;
+}
+
+export const RPN_PRESETS: ParameterNumberPreset[] = [
+  {
+    name: 'Pitch Bend Sensitivity',
+    kind: 'RPN',
+    parameter: 0x0000,
+    defaultValue: 2 << 7,
+    sendDataLsb: true,
+    formatValue: value => `±${value >> 7} semitones, ${value & 0x7f} cents`,
+  },
+  {
+    name: 'Channel Fine Tuning',
+    kind: 'RPN',
+    parameter: 0x0001,
+    defaultValue: 8192,
+    sendDataLsb: true,
+    formatValue: value => `${(((value - 8192) / 8192) * 100).toFixed(2)} cents`,
+  },
+  {
+    name: 'Channel Coarse Tuning',
+    kind: 'RPN',
+    parameter: 0x0002,
+    defaultValue: 64 << 7,
+    sendDataLsb: false,
+    formatValue: value => `${(value >> 7) - 64} semitones`,
+  },
+  {
+    // Sent on channel 1 for the lower zone or channel 16 for the upper zone
+    name: 'MPE Configuration',
+    kind: 'RPN',
+    parameter: 0x0006,
+    defaultValue: 15 << 7,
+    sendDataLsb: false,
+    formatValue: value => `${value >> 7} member channels`,
+  },
+];
+
+export const findParameterNumberPreset = (kind: ParameterNumberKind, parameter: number) =>
+  RPN_PRESETS.find(preset => preset.kind === kind && preset.parameter === parameter);
+
+export const formatParameterNumber = (parameter: number): string =>
+  `0x${parameter.toString(16).toUpperCase().padStart(4, '0')}`;
+
+export const describeParameterNumber = (message: ParameterNumberMessage): string => {
+  if (message.action === 'null') return `RPN Null - Ch: ${message.channel}`;
+  const preset = findParameterNumberPreset(message.kind, message.parameter);
+  const parameter = `${formatParameterNumber(message.parameter)}${preset ? ` (${preset.name})` : ''}`;
+  const prefix = `${message.kind.padEnd(8)} - Ch: ${message.channel}, ${parameter}`;
+  if (message.action === 'increment') return `${prefix} Increment`;
+  if (message.action === 'decrement') return `${prefix} Decrement`;
+  const notes = [preset?.formatValue(message.value), message.msbOnly ? 'MSB only' : undefined].filter(Boolean);
+  return `${prefix} = ${message.value}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+};
+
+const SELECT_CONTROLLERS: Record<number, { kind: ParameterNumberKind; byte: 'msb' | 'lsb' }> = {
+  101: { kind: 'RPN', byte: 'msb' },
+  100: { kind: 'RPN', byte: 'lsb' },
+  99: { kind: 'NRPN', byte: 'msb' },
+  98: { kind: 'NRPN', byte: 'lsb' },
+};
+
+// Per source and channel: the selected parameter and the CCs not shown yet.
+interface ChannelSequence {
+  kind: ParameterNumberKind | null;
+  msb: number | null;
+  lsb: number | null;
+  held: ParsedMidiMessage[];
+  // Data Entry MSB waiting for a possible LSB
+  dataMsb: number | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+type ControlChangeMessage = Extract<ParsedMidiMessage, { type: 'Control Change' }>;
+
+/**
+ * Groups RPN/NRPN select and data entry CCs into single 'Parameter Number' messages for
+ * display. Messages are passed through unchanged otherwise. CCs that may still become part
+ * of a sequence are held back until it completes, another message arrives on the channel,
+ * or `timeoutMs` passes; held CCs that never complete a sequence are released as they are.
+ */
+export const createParameterNumberGrouper = (onOutput: (messages: ParsedMidiMessage[]) => void, timeoutMs = 100) => {
+  const sequences = new Map<string, ChannelSequence>();
+
+  const getSequence = (message: ParsedMidiMessage & { channel: number }) => {
+    const key = `${message.source ?? 0}:${message.channel}`;
+    let sequence = sequences.get(key);
+    if (!sequence) {
+      sequence = { kind: null, msb: null, lsb: null, held: [], dataMsb: null, timer: null };
+      sequences.set(key, sequence);
+    }
+    return sequence;
+  };
+
+  const clearTimer = (sequence: ChannelSequence) => {
+    if (sequence.timer !== null) {
+      clearTimeout(sequence.timer);
+      sequence.timer = null;
+    }
+  };
+
+  // Builds the combined message from the held CCs, which are then released.
+  const combine = (
+    sequence: ChannelSequence,
+    fields: Pick<ParameterNumberMessage, 'action' | 'value' | 'msbOnly'>,
+  ): ParsedMidiMessage => {
+    const parts = sequence.held;
+    const last = parts[parts.length - 1] as ControlChangeMessage;
+    const message: ParameterNumberMessage = {
+      type: 'Parameter Number',
+      channel: last.channel,
+      kind: sequence.kind ?? 'RPN',
+      parameter: fields.action === 'null' ? RPN_NULL : ((sequence.msb ?? 0) << 7) | (sequence.lsb ?? 0),
+      ...fields,
+    };
+    sequence.held = [];
+    sequence.dataMsb = null;
+    clearTimer(sequence);
+    return {
+      id: Date.now() + Math.random(),
+      timestamp: last.timestamp,
+      description: describeParameterNumber(message),
+      bytes: parts.flatMap(part => part.bytes),
+      bleTimestamp: last.bleTimestamp,
+      receivedAt: last.receivedAt,
+      packet: last.packet,
+      source: last.source,
+      ...message,
+    };
+  };
+
+  // Completes a pending MSB-only data entry, or releases the held CCs unchanged.
+  const flush = (sequence: ChannelSequence): ParsedMidiMessage[] => {
+    clearTimer(sequence);
+    if (sequence.dataMsb !== null) {
+      return [combine(sequence, { action: 'set', value: sequence.dataMsb << 7, msbOnly: true })];
+    }
+    const held = sequence.held;
+    sequence.held = [];
+    return held;
+  };
+
+  const arm = (sequence: ChannelSequence) => {
+    clearTimer(sequence);
+    sequence.timer = setTimeout(() => {
+      const released = flush(sequence);
+      if (released.length > 0) onOutput(released);
+    }, timeoutMs);
+  };
+
+  const isSelected = (sequence: ChannelSequence) =>
+    sequence.kind !== null && sequence.msb !== null && sequence.lsb !== null;
+
+  const processControlChange = (message: ControlChangeMessage, output: ParsedMidiMessage[]) => {
+    const sequence = getSequence(message);
+    const { controller, value } = message;
+    const select = SELECT_CONTROLLERS[controller];
+
+    if (select) {
+      // A repeated select byte starts a new sequence; the old one had no data entry.
+      const repeated = sequence.held.some(held => (held as ControlChangeMessage).controller === controller);
+      if (sequence.dataMsb !== null || repeated) output.push(...flush(sequence));
+      if (sequence.kind !== select.kind) {
+        sequence.kind = select.kind;
+        sequence.msb = null;
+        sequence.lsb = null;
+      }
+      sequence[select.byte] = value;
+      sequence.held.push(message);
+      if (sequence.kind === 'RPN' && sequence.msb === 127 && sequence.lsb === 127) {
+        output.push(combine(sequence, { action: 'null', value: 0, msbOnly: false }));
+        // After RPN Null, data entry changes nothing and is shown as plain CCs.
+        sequence.kind = null;
+      } else {
+        arm(sequence);
+      }
+      return;
+    }
+
+    if (!isSelected(sequence)) {
+      output.push(...flush(sequence), message);
+      return;
+    }
+
+    switch (controller) {
+      case DATA_ENTRY_MSB:
+        if (sequence.dataMsb !== null) output.push(...flush(sequence));
+        sequence.dataMsb = value;
+        sequence.held.push(message);
+        arm(sequence);
+        return;
+      case DATA_ENTRY_LSB:
+        if (sequence.dataMsb === null) {
+          output.push(...flush(sequence), message);
+          return;
+        }
+        sequence.held.push(message);
+        output.push(combine(sequence, { action: 'set', value: (sequence.dataMsb << 7) | value, msbOnly: false }));
+        return;
+      case DATA_INCREMENT:
+      case DATA_DECREMENT:
+        if (sequence.dataMsb !== null) output.push(...flush(sequence));
+        sequence.held.push(message);
+        output.push(combine(sequence, {
+          action: controller === DATA_INCREMENT ? 'increment' : 'decrement',
+          value,
+          msbOnly: false,
+        }));
+        return;
+      default:
+        output.push(...flush(sequence), message);
+    }
+  };
+
+  const push = (messages: ParsedMidiMessage[]) => {
+    const output: ParsedMidiMessage[] = [];
+    messages.forEach(message => {
+      if (message.type === 'Control Change') {
+        processControlChange(message, output);
+      } else {
+        // Any other channel message ends whatever was pending on its channel.
+        if ('channel' in message) output.push(...flush(getSequence(message)));
+        output.push(message);
+      }
+    });
+    if (output.length > 0) onOutput(output);
+  };
+
+  return { push };
+};
@@ -0,0 +1,51 @@
+export interface RateLimiter<T> {
+  // Queues a value; intermediate values within the same interval are coalesced to the latest.
+  schedule: (value: T) => void;
+  // Sends the pending value immediately, if any.
+  flush: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Throttles calls to `send` to at most one per interval. The first value goes out immediately,
+ * later ones are coalesced and the most recent is sent when the interval elapses, so the
+ * final value of a burst is never lost.
+ */
+export const createRateLimiter = <T>(send: (value: T) => void, getIntervalMs: () => number): RateLimiter<T> => {
+  let pending: { value: T } | null = null;
+  let lastSentAt = -Infinity;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const fire = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+    const { value } = pending;
+    pending = null;
+    lastSentAt = performance.now();
+    send(value);
+  };
+
+  const schedule = (value: T) => {
+    pending = { value };
+    if (timer !== null) return;
+    const wait = lastSentAt + getIntervalMs() - performance.now();
+    if (wait <= 0) {
+      fire();
+    } else {
+      timer = setTimeout(fire, wait);
+    }
+  };
+
+  const cancel = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pending = null;
+  };
+
+  return { schedule, flush: fire, cancel };
+};
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SenderConfig } from '../types';
+import { MORPH_INTERVAL_MS, buildValueMessages, captureScene, createSceneRecaller } from './scenes';
+import { createSender, withSenderParams } from './workspace';
+
+const standard = withSenderParams(createSender('standard', 1), { ccNumber: 74, ccValue: 0 });
+const sysex = withSenderParams(createSender('sysex', 2), { hexInput: 'F0 7D 01 F7' });
+const clock = createSender('clock', 3);
+const note = createSender('note', 4);
+
+// Keeps the cards the way the App does, so each morph step starts from the last applied value.
+const createCards = (initial: SenderConfig[]) => {
+  let senders = initial;
+  const sent: number[][] = [];
+  const recaller = createSceneRecaller({
+    getSenders: () => senders,
+    onParamsChange: (sender, changes) => {
+      senders = senders.map(candidate => (candidate.id === sender.id ? withSenderParams(candidate, changes) : candidate));
+    },
+    send: message => sent.push(Array.from(message)),
+  });
+  return { recaller, sent, params: (id: number) => senders.find(sender => sender.id === id)?.params };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('captureScene', () => {
+  it('captures the value of each card, but not of note cards', () => {
+    expect(captureScene('A', [standard, sysex, clock, note], 9)).toEqual({
+      id: 9,
+      name: 'A',
+      values: { 1: { ccValue: 0 }, 2: { hexInput: 'F0 7D 01 F7' }, 3: { bpm: 120 } },
+      programChange: null,
+    });
+  });
+});
+
+describe('buildValueMessages', () => {
+  it('sends what the card sends for its value', () => {
+    expect(buildValueMessages(standard).map(message => Array.from(message))).toEqual([[0xb0, 74, 0]]);
+    expect(buildValueMessages(sysex).map(message => Array.from(message))).toEqual([[0xf0, 0x7d, 0x01, 0xf7]]);
+    expect(buildValueMessages(clock)).toEqual([]);
+  });
+
+  it('skips invalid SysEx', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(buildValueMessages(withSenderParams(sysex, { hexInput: 'F0 7' }))).toEqual([]);
+  });
+});
+
+describe('createSceneRecaller', () => {
+  const scene = { ...captureScene('B', []), values: { 1: { ccValue: 100 }, 2: { hexInput: 'F0 7D 02 F7' }, 3: { bpm: 120.5 } } };
+
+  it('applies and sends every value at once without a morph time', () => {
+    const { recaller, sent, params } = createCards([standard, sysex, clock]);
+    recaller.recall(scene, 0);
+    expect(params(1)).toMatchObject({ ccValue: 100 });
+    expect(params(3)).toMatchObject({ bpm: 120.5 });
+    expect(sent).toEqual([[0xb0, 74, 100], [0xf0, 0x7d, 0x02, 0xf7]]);
+  });
+
+  it('interpolates numeric values over the morph time and sends SysEx right away', () => {
+    const { recaller, sent, params } = createCards([standard, sysex, clock]);
+    recaller.recall(scene, 100);
+    // The morph starts from the card's current value.
+    expect(sent).toEqual([[0xf0, 0x7d, 0x02, 0xf7], [0xb0, 74, 0]]);
+
+    vi.advanceTimersByTime(MORPH_INTERVAL_MS);
+    expect(params(1)).toMatchObject({ ccValue: 20 });
+    // A BPM with a decimal morphs in steps of 0.1, as the clock card allows.
+    expect(params(3)).toMatchObject({ bpm: 120.1 });
+    expect(sent.at(-1)).toEqual([0xb0, 74, 20]);
+
+    vi.advanceTimersByTime(100);
+    expect(params(1)).toMatchObject({ ccValue: 100 });
+    expect(params(3)).toMatchObject({ bpm: 120.5 });
+    const ccValues = sent.filter(message => message[0] === 0xb0).map(message => message[2]);
+    expect(ccValues).toEqual([0, 20, 40, 60, 80, 100]);
+  });
+
+  it('leaves values where they are on stop', () => {
+    const { recaller, params } = createCards([standard]);
+    recaller.recall(scene, 100);
+    vi.advanceTimersByTime(2 * MORPH_INTERVAL_MS);
+    recaller.stop();
+    vi.advanceTimersByTime(100);
+    expect(params(1)).toMatchObject({ ccValue: 40 });
+  });
+});
@@ -0,0 +1,161 @@
+import type { Scene, SenderConfig, SenderParams, SenderType } from '../types';
+import { controlChange, controlChange14bit, parameterNumber, rpnNull } from './midiBuilder';
+import { parseHexBytes, splitSysExMessages } from './sysex';
+import { withSenderParams } from './workspace';
+
+// What a scene captures of each card type: its value, not its setup (CC number, channels...).
+const SCENE_FIELDS: Record<SenderType, string[]> = {
+  'standard': ['ccValue'],
+  'high-res': ['value14bit'],
+  'rpn': ['value14bit'],
+  'sysex': ['hexInput'],
+  // Applied through the card, which retimes its clock; there is no message to send.
+  'clock': ['bpm'],
+  // Held notes are momentary, so there is nothing to restore.
+  'note': [],
+  'mpe': [],
+};
+
+// Interpolated values are sent at most this often during a morph.
+export const MORPH_INTERVAL_MS = 20;
+
+export const captureScene = (name: string, senders: SenderConfig[], id = Date.now()): Scene => ({
+  id,
+  name,
+  values: Object.fromEntries(senders.flatMap(sender => {
+    const fields = SCENE_FIELDS[sender.type];
+    if (fields.length === 0) return [];
+    const params = sender.params as unknown as Record<string, unknown>;
+    return [[sender.id, Object.fromEntries(fields.map(field => [field, params[field]]))]];
+  })),
+  programChange: null,
+});
+
+/**
+ * The messages a card sends for its current value, the same way its Send button does.
+ */
+export const buildValueMessages = (sender: SenderConfig): Uint8Array[] => {
+  switch (sender.type) {
+    case 'standard': {
+      const { channels, ccNumber, ccValue } = sender.params;
+      return channels.map(channel => controlChange(channel, ccNumber, ccValue));
+    }
+    case 'high-res': {
+      const { channels, msbCc, value14bit } = sender.params;
+      return channels.flatMap(channel => controlChange14bit(channel, msbCc, value14bit));
+    }
+    case 'rpn': {
+      const { channels, kind, parameter, value14bit, sendDataLsb, sendNull } = sender.params;
+      return channels.flatMap(channel => [
+        ...parameterNumber(channel, kind, parameter, value14bit, sendDataLsb),
+        ...(sendNull ? rpnNull(channel) : []),
+      ]);
+    }
+    case 'sysex':
+      try {
+        return splitSysExMessages(parseHexBytes(sender.params.hexInput));
+      } catch (error) {
+        console.warn(`Skipping invalid SysEx of card ${sender.id}:`, error);
+        return [];
+      }
+    default:
+      return [];
+  }
+};
+
+export interface SceneRecallerOptions {
+  getSenders: () => SenderConfig[];
+  onParamsChange: (sender: SenderConfig, changes: Partial<SenderParams>) => void;
+  send: (message: Uint8Array, sender: SenderConfig, scene: Scene) => void;
+  // Morph progress from 0 to 1, or null when no morph is running.
+  onProgress?: (progress: number | null) => void;
+}
+
+export interface SceneRecaller {
+  // Sends every captured value at once, or morphs numeric values there over `morphMs`.
+  recall: (scene: Scene, morphMs: number) => void;
+  // Ends a running morph where it is.
+  stop: () => void;
+}
+
+interface FieldMorph {
+  key: string;
+  from: number;
+  to: number;
+}
+
+// Keeps whole numbers whole, and the one decimal the clock card allows for BPM.
+const roundLike = (value: number, from: number, to: number) =>
+  Number.isInteger(from) && Number.isInteger(to) ? Math.round(value) : Math.round(value * 10) / 10;
+
+/**
+ * Recalls scenes into the sender cards. A morph sends each card's interpolated value whenever
+ * it changes, starting from the card's current value, so the device follows a smooth stream.
+ */
+export const createSceneRecaller = ({ getSenders, onParamsChange, send, onProgress }: SceneRecallerOptions): SceneRecaller => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const stop = () => {
+    if (timer === null) return;
+    clearInterval(timer);
+    timer = null;
+    onProgress?.(null);
+  };
+
+  const apply = (scene: Scene, sender: SenderConfig, changes: Partial<SenderParams>) => {
+    const updated = withSenderParams(sender, changes);
+    onParamsChange(sender, changes);
+    buildValueMessages(updated).forEach(message => send(message, updated, scene));
+  };
+
+  const recall = (scene: Scene, morphMs: number) => {
+    stop();
+    const targets = getSenders().flatMap(sender => {
+      const values = scene.values[sender.id];
+      return values ? [{ sender, values }] : [];
+    });
+    if (morphMs <= 0) {
+      targets.forEach(({ sender, values }) => apply(scene, sender, values));
+      return;
+    }
+
+    // Numeric values morph; anything else (e.g. SysEx) is applied right away.
+    const morphs = targets.flatMap(({ sender, values }) => {
+      const params = sender.params as unknown as Record<string, unknown>;
+      const fixed: Record<string, unknown> = {};
+      const fields: FieldMorph[] = [];
+      Object.entries(values).forEach(([key, to]) => {
+        const from = params[key];
+        if (typeof from === 'number' && typeof to === 'number') fields.push({ key, from, to });
+        else fixed[key] = to;
+      });
+      if (Object.keys(fixed).length > 0) apply(scene, sender, fixed as Partial<SenderParams>);
+      return fields.length > 0 ? [{ id: sender.id, fields, lastSent: {} as Record<string, number> }] : [];
+    });
+    if (morphs.length === 0) return;
+
+    const startedAt = performance.now();
+    const tick = () => {
+      const progress = Math.min(1, (performance.now() - startedAt) / morphMs);
+      const senders = getSenders();
+      morphs.forEach(morph => {
+        const sender = senders.find(candidate => candidate.id === morph.id);
+        if (!sender) return;
+        const changes: Record<string, number> = {};
+        morph.fields.forEach(({ key, from, to }) => {
+          const value = progress >= 1 ? to : roundLike(from + (to - from) * progress, from, to);
+          if (morph.lastSent[key] !== value) changes[key] = value;
+        });
+        if (Object.keys(changes).length === 0) return;
+        morph.lastSent = { ...morph.lastSent, ...changes };
+        apply(scene, sender, changes as Partial<SenderParams>);
+      });
+      onProgress?.(progress);
+      if (progress >= 1) stop();
+    };
+    timer = setInterval(tick, MORPH_INTERVAL_MS);
+    tick();
+  };
+
+  return { recall, stop };
+};
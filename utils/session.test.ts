@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Session } from '../types';
+import { createSessionPlayer, createSessionRecorder, getSessionDuration, parseSession, serializeSession } from './session';
+
+const session = (events: Session['events']): Session => ({ version: 1, startedAt: '', events });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createSessionRecorder', () => {
+  it('records relative times while recording, sorted on stop', () => {
+    const recorder = createSessionRecorder();
+    recorder.record('in', [0xf8], 5);
+    expect(recorder.isRecording()).toBe(false);
+
+    recorder.start();
+    const startedAt = performance.now();
+    recorder.record('out', new Uint8Array([0x90, 60, 100]), startedAt + 20);
+    recorder.record('in', [0xb0, 7, 90], startedAt + 10);
+    expect(recorder.getEventCount()).toBe(2);
+
+    const { events } = recorder.stop();
+    expect(recorder.isRecording()).toBe(false);
+    expect(events.map(event => event.direction)).toEqual(['in', 'out']);
+    expect(events[1]).toMatchObject({ direction: 'out', bytes: [0x90, 60, 100] });
+    expect(events[1].time).toBe(20);
+  });
+});
+
+describe('parseSession', () => {
+  it('reads a serialized session back, sorted by time', () => {
+    const recorded = session([
+      { time: 20, direction: 'out', bytes: [0x90, 60, 100] },
+      { time: 10, direction: 'in', bytes: [0xf8] },
+    ]);
+    const parsed = parseSession(serializeSession(recorded));
+    expect(parsed.events.map(event => event.time)).toEqual([10, 20]);
+    expect(getSessionDuration(parsed)).toBe(20);
+  });
+
+  it('rejects files that are not sessions or have invalid events', () => {
+    expect(() => parseSession('[]')).toThrow('Not a session file.');
+    expect(() => parseSession(JSON.stringify({ version: 2, events: [] }))).toThrow(/newer/);
+    expect(() => parseSession(JSON.stringify(session([{ time: -1, direction: 'in', bytes: [0xf8] }]))))
+      .toThrow('Invalid event at index 0.');
+    expect(() => parseSession(JSON.stringify({ version: 1, events: [{ time: 0, direction: 'out', bytes: [256] }] })))
+      .toThrow('Invalid event at index 0.');
+    expect(() => parseSession(JSON.stringify({ version: 1, events: [{ time: 0, direction: 'sideways', bytes: [1] }] })))
+      .toThrow('Invalid event at index 0.');
+  });
+});
+
+describe('createSessionPlayer', () => {
+  const recorded = session([
+    { time: 0, direction: 'out', bytes: [0x90, 60, 100] },
+    { time: 50, direction: 'in', bytes: [0xf8] },
+    { time: 100, direction: 'out', bytes: [0x80, 60, 0] },
+    { time: 300, direction: 'out', bytes: [0xb0, 7, 90] },
+  ]);
+
+  const createPlayer = () => {
+    const sent: number[][] = [];
+    const onComplete = vi.fn();
+    const player = createSessionPlayer({ send: message => sent.push(Array.from(message)), onComplete });
+    return { player, sent, onComplete };
+  };
+
+  it('sends the outbound events at their original times', () => {
+    const { player, sent, onComplete } = createPlayer();
+    player.play(recorded, { speed: 1, loop: false, startMs: 0, endMs: 300 });
+    expect(sent).toEqual([[0x90, 60, 100]]);
+    vi.advanceTimersByTime(99);
+    expect(sent).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(sent).toHaveLength(2);
+    vi.advanceTimersByTime(200);
+    expect(sent).toEqual([[0x90, 60, 100], [0x80, 60, 0], [0xb0, 7, 90]]);
+    expect(onComplete).toHaveBeenCalledOnce();
+  });
+
+  it('scales the timing by the speed and plays only the chosen range', () => {
+    const { player, sent } = createPlayer();
+    player.play(recorded, { speed: 2, loop: false, startMs: 100, endMs: 300 });
+    expect(sent).toEqual([[0x80, 60, 0]]);
+    vi.advanceTimersByTime(99);
+    expect(sent).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(sent).toHaveLength(2);
+  });
+
+  it('starts each loop pass when the previous range ends', () => {
+    const { player, sent, onComplete } = createPlayer();
+    player.play(recorded, { speed: 1, loop: true, startMs: 0, endMs: 200 });
+    vi.advanceTimersByTime(199);
+    expect(sent).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(sent).toHaveLength(3);
+    vi.advanceTimersByTime(100);
+    expect(sent).toHaveLength(4);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing more after stop', () => {
+    const { player, sent } = createPlayer();
+    player.play(recorded, { speed: 1, loop: false, startMs: 0, endMs: 300 });
+    player.stop();
+    vi.advanceTimersByTime(1000);
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,168 @@
+import type { MidiDirection, Session, SessionEvent } from '../types';
+import { isByteArray, isRecord } from './guards';
+
+export const SESSION_VERSION = 1;
+
+export interface SessionRecorder {
+  start: () => void;
+  // Stops recording and returns everything captured since start().
+  stop: () => Session;
+  // Ignored while not recording. `time` is a performance.now() value and defaults to now.
+  record: (direction: MidiDirection, bytes: ArrayLike<number>, time?: number) => void;
+  isRecording: () => boolean;
+  getEventCount: () => number;
+}
+
+/**
+ * Captures MIDI traffic in both directions with sub-millisecond timestamps relative to start().
+ */
+export const createSessionRecorder = (): SessionRecorder => {
+  let recording = false;
+  let startedAt = 0;
+  let startedAtIso = '';
+  let events: SessionEvent[] = [];
+
+  const start = () => {
+    recording = true;
+    startedAt = performance.now();
+    startedAtIso = new Date().toISOString();
+    events = [];
+  };
+
+  const stop = (): Session => {
+    recording = false;
+    // Incoming batches are stamped when parsed, so events can arrive slightly out of order.
+    const sorted = [...events].sort((a, b) => a.time - b.time);
+    return { version: SESSION_VERSION, startedAt: startedAtIso, events: sorted };
+  };
+
+  const record = (direction: MidiDirection, bytes: ArrayLike<number>, time = performance.now()) => {
+    if (!recording) return;
+    events.push({ time: Math.max(0, Math.round((time - startedAt) * 1000) / 1000), direction, bytes: Array.from(bytes) });
+  };
+
+  return { start, stop, record, isRecording: () => recording, getEventCount: () => events.length };
+};
+
+export const getSessionDuration = (session: Session): number =>
+  session.events.length > 0 ? session.events[session.events.length - 1].time : 0;
+
+export const serializeSession = (session: Session): string => JSON.stringify(session);
+
+const isValidEvent = (event: unknown): event is SessionEvent =>
+  isRecord(event) &&
+  typeof event.time === 'number' &&
+  Number.isFinite(event.time) &&
+  event.time >= 0 &&
+  (event.direction === 'in' || event.direction === 'out') &&
+  isByteArray(event.bytes) &&
+  event.bytes.length > 0;
+
+/**
+ * Parses a session file. Throws if it is not a session, comes from a newer version or has an
+ * event with a negative time or bytes outside 0-255.
+ */
+export const parseSession = (json: string): Session => {
+  const session: unknown = JSON.parse(json);
+  if (!isRecord(session) || typeof session.version !== 'number' || !Array.isArray(session.events)) {
+    throw new Error('Not a session file.');
+  }
+  if (session.version > SESSION_VERSION) {
+    throw new Error(`Session version ${session.version} is newer than this simulator supports (${SESSION_VERSION}).`);
+  }
+  const events: unknown[] = session.events;
+  const invalidIndex = events.findIndex(event => !isValidEvent(event));
+  if (invalidIndex !== -1) {
+    throw new Error(`Invalid event at index ${invalidIndex}.`);
+  }
+  return {
+    version: session.version,
+    startedAt: typeof session.startedAt === 'string' ? session.startedAt : '',
+    events: (events as SessionEvent[])
+      .map(({ time, direction, bytes }) => ({ time, direction, bytes }))
+      .sort((a, b) => a.time - b.time),
+  };
+};
+
+export interface SessionPlaybackOptions {
+  // 2 plays twice as fast
+  speed: number;
+  loop: boolean;
+  // Range to play, in session milliseconds
+  startMs: number;
+  endMs: number;
+}
+
+export interface SessionPlayerOptions {
+  send: (message: Uint8Array) => void;
+  // Current position in session milliseconds, reported as events are sent.
+  onPosition?: (positionMs: number) => void;
+  // Called when a non-looping playback reaches the end of its range.
+  onComplete?: () => void;
+}
+
+export interface SessionPlayer {
+  play: (session: Session, options: SessionPlaybackOptions) => void;
+  stop: () => void;
+}
+
+/**
+ * Replays the outbound side of a session with its original timing. Each event is scheduled
+ * against the playback start, so timer lateness does not accumulate over long sessions.
+ */
+export const createSessionPlayer = ({ send, onPosition, onComplete }: SessionPlayerOptions): SessionPlayer => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Cleared by stop(), which may be called from inside send() or onPosition().
+  let playing = false;
+
+  const stop = () => {
+    playing = false;
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const play = (session: Session, { speed, loop, startMs, endMs }: SessionPlaybackOptions) => {
+    stop();
+    const events = session.events.filter(event => event.direction === 'out' && event.time >= startMs && event.time <= endMs);
+    const rate = Math.max(speed, 0.01);
+    const passLength = (endMs - startMs) / rate;
+    if (events.length === 0 || (loop && passLength <= 0)) {
+      onComplete?.();
+      return;
+    }
+
+    playing = true;
+    let passStartedAt = performance.now();
+    let index = 0;
+
+    const dueAt = (event: SessionEvent) => passStartedAt + (event.time - startMs) / rate;
+
+    const tick = () => {
+      const now = performance.now();
+      while (playing && index < events.length && dueAt(events[index]) <= now) {
+        send(new Uint8Array(events[index].bytes));
+        onPosition?.(events[index].time);
+        index++;
+      }
+      if (!playing) return;
+      if (index >= events.length) {
+        if (!loop) {
+          playing = false;
+          timer = null;
+          onComplete?.();
+          return;
+        }
+        // The next pass starts when this one's range ends, keeping the loop period exact.
+        passStartedAt += passLength;
+        index = 0;
+      }
+      timer = setTimeout(tick, Math.max(0, dueAt(events[index]) - performance.now()));
+    };
+
+    tick();
+  };
+
+  return { play, stop };
+};
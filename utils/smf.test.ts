@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { encodeStandardMidiFile, encodeVariableLength } from './smf';
+
+const HEADER_LENGTH = 22;
+const TEMPO = [0x00, 0xff, 0x51, 0x03, 0x0f, 0x42, 0x40];
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00];
+
+// The track events between the tempo and the end-of-track meta events.
+const trackEvents = (file: Uint8Array) => Array.from(file.slice(HEADER_LENGTH + TEMPO.length, -END_OF_TRACK.length));
+
+describe('encodeVariableLength', () => {
+  it('encodes 7 bits per byte, most significant first', () => {
+    expect(encodeVariableLength(0)).toEqual([0x00]);
+    expect(encodeVariableLength(0x7f)).toEqual([0x7f]);
+    expect(encodeVariableLength(0x80)).toEqual([0x81, 0x00]);
+    expect(encodeVariableLength(0x2000)).toEqual([0xc0, 0x00]);
+    expect(encodeVariableLength(0x0fffffff)).toEqual([0xff, 0xff, 0xff, 0x7f]);
+  });
+
+  it('rounds down and clamps negative values', () => {
+    expect(encodeVariableLength(200.9)).toEqual([0x81, 0x48]);
+    expect(encodeVariableLength(-5)).toEqual([0x00]);
+  });
+});
+
+describe('encodeStandardMidiFile', () => {
+  it('writes a format 0 file with millisecond ticks', () => {
+    const file = encodeStandardMidiFile([]);
+    expect(Array.from(file.slice(0, HEADER_LENGTH))).toEqual([
+      0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x03, 0xe8,
+      0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, TEMPO.length + END_OF_TRACK.length,
+    ]);
+    expect(Array.from(file.slice(HEADER_LENGTH))).toEqual([...TEMPO, ...END_OF_TRACK]);
+  });
+
+  it('writes sorted events with delta times from the first event', () => {
+    const file = encodeStandardMidiFile([
+      { time: 1200.4, bytes: [0x80, 60, 0] },
+      { time: 1000, bytes: [0x90, 60, 100] },
+      { time: 1000, bytes: [0xb0, 7, 90] },
+    ]);
+    expect(trackEvents(file)).toEqual([
+      0x00, 0x90, 60, 100,
+      0x00, 0xb0, 7, 90,
+      0x81, 0x48, 0x80, 60, 0,
+    ]);
+  });
+
+  it('writes SysEx with its length and leaves out system messages', () => {
+    const file = encodeStandardMidiFile([
+      { time: 0, bytes: [0xf0, 0x7d, 0x01, 0xf7] },
+      { time: 5, bytes: [0xf8] },
+      { time: 10, bytes: [0xc0, 3] },
+    ]);
+    expect(trackEvents(file)).toEqual([
+      0x00, 0xf0, 0x03, 0x7d, 0x01, 0xf7,
+      0x0a, 0xc0, 3,
+    ]);
+  });
+});
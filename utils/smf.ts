@@ -0,0 +1,73 @@
+export interface SmfEvent {
+  // Milliseconds; only differences between events matter.
+  time: number;
+  // One complete MIDI message, status byte first.
+  bytes: ArrayLike<number>;
+}
+
+// 1000 ticks per quarter note at 60 BPM (1,000,000 µs per quarter), so one tick is one millisecond.
+const TICKS_PER_QUARTER = 1000;
+const MICROSECONDS_PER_QUARTER = 1_000_000;
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+/**
+ * Encodes a non-negative integer as a MIDI variable-length quantity (7 bits per byte, MSB first).
+ */
+export const encodeVariableLength = (value: number): number[] => {
+  let remaining = Math.max(0, Math.floor(value));
+  const bytes = [remaining & 0x7f];
+  while ((remaining >>= 7) > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+  }
+  return bytes;
+};
+
+// System common and real-time messages have no representation in a MIDI file
+// (0xFF would even be read as a meta event), so only channel and SysEx events are written.
+const encodeEvent = (bytes: ArrayLike<number>): number[] | null => {
+  const status = bytes[0];
+  if (status >= 0x80 && status < 0xf0) return Array.from(bytes);
+  if (status === 0xf0) {
+    const body = Array.from(bytes).slice(1);
+    return [0xf0, ...encodeVariableLength(body.length), ...body];
+  }
+  return null;
+};
+
+/**
+ * Writes events as a format 0 Standard MIDI File with millisecond ticks, keeping the
+ * original timing. Events are sorted by time; the first event starts at tick 0.
+ */
+export const encodeStandardMidiFile = (events: SmfEvent[]): Uint8Array => {
+  const sorted = [...events].sort((a, b) => a.time - b.time);
+  const startTime = sorted.length > 0 ? sorted[0].time : 0;
+
+  // Tempo meta event, so players honour the millisecond ticks.
+  const track: number[] = [0x00, 0xff, 0x51, 0x03, (MICROSECONDS_PER_QUARTER >> 16) & 0xff, (MICROSECONDS_PER_QUARTER >> 8) & 0xff, MICROSECONDS_PER_QUARTER & 0xff];
+
+  let lastTick = 0;
+  for (const { time, bytes } of sorted) {
+    const encoded = encodeEvent(bytes);
+    if (!encoded) continue;
+    const tick = Math.round(time - startTime);
+    // Appended one by one: spreading a large SysEx dump into push() would overflow the call stack.
+    for (const byte of [...encodeVariableLength(tick - lastTick), ...encoded]) track.push(byte);
+    lastTick = tick;
+  }
+  // End of track
+  track.push(0x00, 0xff, 0x2f, 0x00);
+
+  const header = [
+    ...ascii('MThd'), ...uint32(6), ...uint16(0), ...uint16(1), ...uint16(TICKS_PER_QUARTER),
+    ...ascii('MTrk'), ...uint32(track.length),
+  ];
+  const file = new Uint8Array(header.length + track.length);
+  file.set(header);
+  file.set(track, header.length);
+  return file;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { formatHex, parseHexBytes, splitSysExMessages } from './sysex';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('formatHex', () => {
+  it('writes upper-case two-digit bytes', () => {
+    expect(formatHex([0xf0, 0x0a, 0x7f])).toBe('F0 0A 7F');
+    expect(formatHex([])).toBe('');
+  });
+});
+
+describe('parseHexBytes', () => {
+  it('accepts spaces, commas, 0x prefixes and unseparated bytes', () => {
+    expect(parseHexBytes('F0 7D 01 F7')).toEqual(bytes(0xf0, 0x7d, 0x01, 0xf7));
+    expect(parseHexBytes('0xF0,0x7d; 01')).toEqual(bytes(0xf0, 0x7d, 0x01));
+    expect(parseHexBytes('f07d01f7')).toEqual(bytes(0xf0, 0x7d, 0x01, 0xf7));
+    expect(parseHexBytes('  ')).toEqual(bytes());
+  });
+
+  it('rejects odd digit counts and non-hex characters', () => {
+    expect(() => parseHexBytes('F0 7')).toThrow('Invalid hex byte "7"');
+    expect(() => parseHexBytes('F0 ZZ')).toThrow('Invalid hex byte "ZZ"');
+  });
+});
+
+describe('splitSysExMessages', () => {
+  it('splits a .syx dump into its messages', () => {
+    expect(splitSysExMessages(bytes(0xf0, 0x7d, 0x01, 0xf7, 0xf0, 0x7d, 0x02, 0xf7))).toEqual([
+      bytes(0xf0, 0x7d, 0x01, 0xf7),
+      bytes(0xf0, 0x7d, 0x02, 0xf7),
+    ]);
+  });
+
+  it('frames a bare payload', () => {
+    expect(splitSysExMessages(bytes(0x7d, 0x01))).toEqual([bytes(0xf0, 0x7d, 0x01, 0xf7)]);
+    expect(splitSysExMessages(bytes())).toEqual([]);
+  });
+
+  it('rejects broken framing and status bytes inside a message', () => {
+    expect(() => splitSysExMessages(bytes(0x7d, 0x90))).toThrow('SysEx payload bytes must be 00-7F');
+    expect(() => splitSysExMessages(bytes(0xf0, 0x7d))).toThrow('SysEx is missing its terminating F7');
+    expect(() => splitSysExMessages(bytes(0xf0, 0x7d, 0xf0, 0xf7))).toThrow('SysEx is missing its terminating F7');
+    expect(() => splitSysExMessages(bytes(0xf0, 0x90, 0xf7))).toThrow('Unexpected status byte 90 inside SysEx');
+  });
+});
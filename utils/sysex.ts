@@ -0,0 +1,58 @@
+export const formatHex = (bytes: ArrayLike<number>): string =>
+  Array.from(bytes, b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+
+/**
+ * Parses whitespace/comma separated hex bytes ("F0 7D 01 F7", "0xF0,0x7D", "F07D01F7").
+ * Throws with a readable message on invalid input.
+ */
+export const parseHexBytes = (input: string): Uint8Array => {
+  const cleaned = input.replace(/0x/gi, '').replace(/[\s,;]+/g, ' ').trim();
+  if (cleaned === '') return new Uint8Array();
+
+  const tokens = cleaned.split(' ').flatMap(token => {
+    if (token.length % 2 !== 0) {
+      throw new Error(`Invalid hex byte "${token}"`);
+    }
+    return token.match(/.{2}/g) ?? [];
+  });
+
+  return new Uint8Array(tokens.map(token => {
+    if (!/^[0-9a-f]{2}$/i.test(token)) {
+      throw new Error(`Invalid hex byte "${token}"`);
+    }
+    return parseInt(token, 16);
+  }));
+};
+
+/**
+ * Splits raw bytes (e.g. a .syx file) into individual F0 ... F7 messages.
+ * Bytes that are not framed by F0/F7 are wrapped into a single message, so a bare
+ * payload like "7D 01 02" can be entered without framing.
+ */
+export const splitSysExMessages = (bytes: Uint8Array): Uint8Array[] => {
+  if (bytes.length === 0) return [];
+  if (bytes[0] !== 0xf0) {
+    if (bytes.some(b => b > 0x7f)) {
+      throw new Error('SysEx payload bytes must be 00-7F');
+    }
+    return [new Uint8Array([0xf0, ...bytes, 0xf7])];
+  }
+
+  const messages: Uint8Array[] = [];
+  let start = -1;
+  bytes.forEach((byte, index) => {
+    if (byte === 0xf0) {
+      if (start !== -1) throw new Error('SysEx is missing its terminating F7');
+      start = index;
+    } else if (byte === 0xf7 && start !== -1) {
+      messages.push(bytes.slice(start, index + 1));
+      start = -1;
+    } else if (byte > 0x7f) {
+      throw new Error(`Unexpected status byte ${formatHex([byte])} inside SysEx`);
+    }
+  });
+  if (start !== -1) {
+    throw new Error('SysEx is missing its terminating F7');
+  }
+  return messages;
+};
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ParsedMidiMessage, TestSequence, TestStep, TestStepResult, TestStepType } from '../types';
+import { parseMidiMessage } from './midiParser';
+import { createTestSequenceRun, parseTestSequence, serializeTestSequence, validateTestStep } from './testSequence';
+
+const parse = (bytes: number[]): ParsedMidiMessage => ({ ...parseMidiMessage(bytes) as ParsedMidiMessage, receivedAt: performance.now() });
+
+// A step as written in a test, numbered by sequence().
+type StepDraft = { [T in TestStepType]: Omit<Extract<TestStep, { type: T }>, 'id'> }[TestStepType];
+
+const sequence = (steps: StepDraft[], stopOnFailure = true): TestSequence => ({
+  version: 1,
+  name: 'Test',
+  stopOnFailure,
+  steps: steps.map((step, index) => ({ ...step, id: index }) as TestStep),
+});
+
+// Starts a run; `write` reports the last sent message as written, as the transport would.
+const startRun = (steps: StepDraft[], { connected = true, writeError = undefined as string | undefined, stopOnFailure = true } = {}) => {
+  let latest: TestStepResult[] = [];
+  let final: TestStepResult[] | null = null;
+  const sent: Uint8Array[] = [];
+  const run = createTestSequenceRun({
+    sequence: sequence(steps, stopOnFailure),
+    send: message => {
+      sent.push(message);
+      return connected;
+    },
+    onUpdate: results => {
+      latest = results;
+    },
+    onComplete: results => {
+      final = results;
+    },
+  });
+  const write = (message = sent[sent.length - 1]) =>
+    run.handleWrite({ messages: [message], packets: [], writtenAt: performance.now(), error: writeError });
+  return { run, write, updates: () => latest, results: () => final as TestStepResult[] | null };
+};
+
+const statuses = (results: TestStepResult[] | null) => results?.map(result => result.status);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createTestSequenceRun', () => {
+  it('passes a send once it is written and an echo that comes back', () => {
+    const { run, write, results } = startRun([
+      { type: 'send', hex: 'B0 07 64' },
+      { type: 'expect', pattern: '', echo: true, timeoutMs: 200 },
+    ]);
+    vi.advanceTimersByTime(5);
+    write();
+    vi.advanceTimersByTime(10);
+    run.handleMessage(parse([0xb0, 7, 100]));
+    expect(statuses(results())).toEqual(['pass', 'pass']);
+    expect(results()?.[0].detail).toBe('Sent B0 07 64');
+    expect(results()?.[1].detail).toBe('Matched B0 07 64 after 10.0 ms');
+  });
+
+  it('fails a send that reaches no device and skips the rest', () => {
+    const { results } = startRun([
+      { type: 'send', hex: 'B0 07 64' },
+      { type: 'wait', ms: 10 },
+    ], { connected: false });
+    expect(statuses(results())).toEqual(['fail', 'skipped']);
+    expect(results()?.[0].detail).toBe('No connected device to send to');
+  });
+
+  it('fails a send whose write fails or is never reported', () => {
+    const failed = startRun([{ type: 'send', hex: 'B0 07 64' }], { writeError: 'GATT error' });
+    failed.write();
+    expect(failed.results()?.[0]).toMatchObject({ status: 'fail', detail: 'Write failed: GATT error' });
+
+    const lost = startRun([{ type: 'send', hex: 'B0 07 64' }]);
+    // A write of some other message does not count.
+    lost.write(new Uint8Array([0xb0, 7, 100]));
+    vi.advanceTimersByTime(1000);
+    expect(lost.results()?.[0]).toMatchObject({ status: 'fail', detail: 'No write reported within 1000 ms' });
+  });
+
+  it('matches a reply received during a wait, with wildcards', () => {
+    const { run, write, results } = startRun([
+      { type: 'send', hex: 'F0 7D 01 F7' },
+      { type: 'wait', ms: 50 },
+      { type: 'expect', pattern: 'F0 7D ?? F7', echo: false, timeoutMs: 200 },
+    ]);
+    write();
+    run.handleMessage(parse([0xf0, 0x7d, 0x02, 0xf7]));
+    expect(results()).toBeNull();
+    vi.advanceTimersByTime(50);
+    expect(statuses(results())).toEqual(['pass', 'pass', 'pass']);
+  });
+
+  it('times an expect step from the send and carries on after a failure when asked', () => {
+    const { write, results } = startRun([
+      { type: 'send', hex: 'B0 07 64' },
+      { type: 'expect', pattern: 'B0 07 ??', echo: false, timeoutMs: 200 },
+      { type: 'wait', ms: 10 },
+    ], { stopOnFailure: false });
+    write();
+    vi.advanceTimersByTime(199);
+    expect(results()).toBeNull();
+    // The expect step times out, then the wait runs.
+    vi.advanceTimersByTime(1 + 10);
+    expect(statuses(results())).toEqual(['pass', 'fail', 'pass']);
+    expect(results()?.[1].detail).toBe('No match within 200 ms');
+  });
+
+  it('fails an echo expectation without an earlier send', () => {
+    const { results } = startRun([{ type: 'expect', pattern: '', echo: true, timeoutMs: 200 }]);
+    expect(results()?.[0]).toMatchObject({ status: 'fail', detail: 'No message was sent before this step' });
+  });
+
+  it('marks the unfinished steps as skipped on stop, without completing', () => {
+    const { run, updates, results } = startRun([{ type: 'wait', ms: 50 }, { type: 'wait', ms: 50 }]);
+    run.stop();
+    expect(updates().map(result => result.detail)).toEqual(['Stopped', 'Stopped']);
+    vi.advanceTimersByTime(100);
+    expect(results()).toBeNull();
+  });
+});
+
+describe('validateTestStep', () => {
+  it('reports steps that cannot run', () => {
+    expect(validateTestStep({ id: 0, type: 'send', hex: '' })).toBe('Nothing to send');
+    expect(validateTestStep({ id: 0, type: 'send', hex: 'B0 7' })).toBe('Invalid hex byte "7"');
+    expect(validateTestStep({ id: 0, type: 'wait', ms: -1 })).toBe('Duration must not be negative');
+    expect(validateTestStep({ id: 0, type: 'expect', pattern: '', echo: false, timeoutMs: 100 })).toBe('Empty pattern');
+    expect(validateTestStep({ id: 0, type: 'expect', pattern: '', echo: true, timeoutMs: 0 })).toBe('Timeout must be positive');
+  });
+});
+
+describe('parseTestSequence', () => {
+  it('reads a serialized sequence back, renumbering duplicate step ids', () => {
+    const original = sequence([{ type: 'wait', ms: 10 }, { type: 'send', hex: 'F8' }]);
+    original.steps[1].id = original.steps[0].id;
+    const parsed = parseTestSequence(serializeTestSequence(original));
+    expect(parsed.steps.map(step => step.type)).toEqual(['wait', 'send']);
+    expect(parsed.steps[0].id).not.toBe(parsed.steps[1].id);
+  });
+
+  it('rejects files with missing or out-of-range fields', () => {
+    const withStep = (step: unknown) => JSON.stringify({ version: 1, steps: [step] });
+    expect(() => parseTestSequence('{}')).toThrow('Not a test sequence file.');
+    expect(() => parseTestSequence(JSON.stringify({ version: 2, steps: [] }))).toThrow(/newer/);
+    expect(() => parseTestSequence(withStep({ type: 'wait', ms: 1 }))).toThrow('Invalid step at index 0: missing id.');
+    expect(() => parseTestSequence(withStep({ id: 1, type: 'send', hex: 5 }))).toThrow('Invalid step at index 0: hex must be a string.');
+    expect(() => parseTestSequence(withStep({ id: 1, type: 'wait', ms: -1 })))
+      .toThrow('Invalid step at index 0: ms must be a non-negative number.');
+    expect(() => parseTestSequence(withStep({ id: 1, type: 'expect', pattern: '', echo: true, timeoutMs: 0 })))
+      .toThrow('Invalid step at index 0: timeoutMs must be a positive number.');
+    expect(() => parseTestSequence(withStep({ id: 1, type: 'loop' }))).toThrow('Invalid step at index 0: unknown type "loop".');
+  });
+});
@@ -0,0 +1,332 @@
+import type { ParsedMidiMessage, TestSequence, TestStep, TestStepResult, TestStepType, TransportWrite } from '../types';
+import { isRecord } from './guards';
+import { matchesHexPattern, parseHexPattern, type HexPattern } from './hexPattern';
+import { parseMidiMessage } from './midiParser';
+import { formatHex, parseHexBytes } from './sysex';
+
+export const TEST_SEQUENCE_VERSION = 1;
+export const TEST_SEQUENCE_STORAGE_KEY = 'ble-midi-simulator.test-sequence';
+
+// Received messages kept for later expect steps; a clock or sensing stream would grow it forever.
+const MAX_INBOX_SIZE = 1000;
+// A send step fails if the transport does not report writing its message within this time.
+const SEND_TIMEOUT_MS = 1000;
+
+const DEFAULT_STEPS: { [T in TestStepType]: Omit<Extract<TestStep, { type: T }>, 'id'> } = {
+  send: { type: 'send', hex: 'B0 07 64' },
+  wait: { type: 'wait', ms: 50 },
+  expect: { type: 'expect', pattern: '', echo: true, timeoutMs: 200 },
+};
+
+export const createTestStep = (type: TestStepType, id = Date.now() + Math.random()): TestStep =>
+  ({ id, ...DEFAULT_STEPS[type] }) as TestStep;
+
+export const createDefaultTestSequence = (): TestSequence => {
+  const id = Date.now();
+  return {
+    version: TEST_SEQUENCE_VERSION,
+    name: 'Echo test',
+    stopOnFailure: true,
+    steps: [
+      { id, type: 'send', hex: 'B0 07 64' },
+      { id: id + 1, type: 'expect', pattern: '', echo: true, timeoutMs: 200 },
+      { id: id + 2, type: 'wait', ms: 50 },
+      { id: id + 3, type: 'send', hex: 'F0 7D 01 F7' },
+      { id: id + 4, type: 'expect', pattern: 'F0 7D ?? F7', echo: false, timeoutMs: 500 },
+    ],
+  };
+};
+
+/**
+ * Returns why a step cannot run, or null if it is valid. Echo expectations are checked at
+ * run time, since they depend on the steps before them.
+ */
+export const validateTestStep = (step: TestStep): string | null => {
+  try {
+    switch (step.type) {
+      case 'send':
+        return parseHexBytes(step.hex).length === 0 ? 'Nothing to send' : null;
+      case 'wait':
+        return step.ms >= 0 ? null : 'Duration must not be negative';
+      case 'expect':
+        if (step.timeoutMs <= 0) return 'Timeout must be positive';
+        return step.echo || parseHexPattern(step.pattern).length > 0 ? null : 'Empty pattern';
+    }
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+export const describeTestStep = (step: TestStep): string => {
+  switch (step.type) {
+    case 'send': {
+      let message: ParsedMidiMessage | null = null;
+      try {
+        message = parseMidiMessage(parseHexBytes(step.hex));
+      } catch {
+        // Invalid hex is reported by validateTestStep.
+      }
+      return message ? `Send ${message.description}` : `Send ${step.hex}`;
+    }
+    case 'wait':
+      return `Wait ${step.ms} ms`;
+    case 'expect':
+      return `Expect ${step.echo ? 'echo' : step.pattern} within ${step.timeoutMs} ms`;
+  }
+};
+
+export const serializeTestSequence = (sequence: TestSequence): string => JSON.stringify(sequence, null, 2);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Returns the step if every field its type needs is present and in range, and throws otherwise.
+const parseStep = (raw: unknown, index: number): TestStep => {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid step at index ${index}: ${reason}.`);
+  };
+  if (!isRecord(raw)) return fail('not an object');
+  const { id, type } = raw;
+  if (!isFiniteNumber(id)) return fail('missing id');
+  switch (type) {
+    case 'send':
+      if (typeof raw.hex !== 'string') return fail('hex must be a string');
+      return { id, type, hex: raw.hex };
+    case 'wait':
+      if (!isFiniteNumber(raw.ms) || raw.ms < 0) return fail('ms must be a non-negative number');
+      return { id, type, ms: raw.ms };
+    case 'expect':
+      if (typeof raw.pattern !== 'string') return fail('pattern must be a string');
+      if (typeof raw.echo !== 'boolean') return fail('echo must be true or false');
+      if (!isFiniteNumber(raw.timeoutMs) || raw.timeoutMs <= 0) return fail('timeoutMs must be a positive number');
+      return { id, type, pattern: raw.pattern, echo: raw.echo, timeoutMs: raw.timeoutMs };
+    default:
+      return fail(`unknown type "${String(type)}"`);
+  }
+};
+
+/**
+ * Parses a sequence file. Throws if it is not a sequence, comes from a newer version or has
+ * a step with missing or out-of-range fields.
+ */
+export const parseTestSequence = (json: string): TestSequence => {
+  const sequence: unknown = JSON.parse(json);
+  if (!isRecord(sequence) || typeof sequence.version !== 'number' || !Array.isArray(sequence.steps)) {
+    throw new Error('Not a test sequence file.');
+  }
+  if (sequence.version > TEST_SEQUENCE_VERSION) {
+    throw new Error(`Sequence version ${sequence.version} is newer than this simulator supports (${TEST_SEQUENCE_VERSION}).`);
+  }
+  // Step ids are React keys, so they must be unique even in hand-edited files.
+  const seen = new Set<number>();
+  const steps = sequence.steps.map((raw: unknown, index: number) => {
+    const step = parseStep(raw, index);
+    const id = seen.has(step.id) ? Date.now() + Math.random() + index : step.id;
+    seen.add(id);
+    return { ...step, id };
+  });
+  return {
+    version: sequence.version,
+    name: typeof sequence.name === 'string' ? sequence.name : '',
+    stopOnFailure: sequence.stopOnFailure !== false,
+    steps,
+  };
+};
+
+export const loadStoredTestSequence = (): TestSequence | null => {
+  try {
+    const stored = localStorage.getItem(TEST_SEQUENCE_STORAGE_KEY);
+    return stored ? parseTestSequence(stored) : null;
+  } catch (error) {
+    console.warn('Ignoring unreadable stored test sequence:', error);
+    return null;
+  }
+};
+
+export const storeTestSequence = (sequence: TestSequence) => {
+  try {
+    localStorage.setItem(TEST_SEQUENCE_STORAGE_KEY, serializeTestSequence(sequence));
+  } catch (error) {
+    console.warn('Failed to autosave test sequence:', error);
+  }
+};
+
+export const createPendingResults = (steps: TestStep[]): TestStepResult[] =>
+  steps.map(() => ({ status: 'pending', startedAt: null, durationMs: null, detail: '' }));
+
+export interface TestSequenceRunOptions {
+  sequence: TestSequence;
+  // Returns false when the message reached no connected device.
+  send: (message: Uint8Array) => boolean;
+  onUpdate: (results: TestStepResult[]) => void;
+  onComplete: (results: TestStepResult[]) => void;
+}
+
+export interface TestSequenceRun {
+  handleMessage: (message: ParsedMidiMessage) => void;
+  // Completes a send step once the transport reports writing its message.
+  handleWrite: (write: TransportWrite) => void;
+  // Marks the unfinished steps as skipped, without calling onComplete.
+  stop: () => void;
+}
+
+/**
+ * Runs the steps in order. An expect step matches any message received since the previous
+ * send that no earlier expect step consumed, so a reply arriving during a wait still counts.
+ */
+export const createTestSequenceRun = ({ sequence, send, onUpdate, onComplete }: TestSequenceRunOptions): TestSequenceRun => {
+  const { steps, stopOnFailure } = sequence;
+  const results = createPendingResults(steps);
+  const runStartedAt = performance.now();
+  let index = -1;
+  let stepStartedAt = 0;
+  let lastSent: { bytes: Uint8Array; at: number } | null = null;
+  let inbox: ParsedMidiMessage[] = [];
+  // Set while the current expect step waits for its message.
+  let expecting: HexPattern | null = null;
+  // Set while the current send step waits for its message to be written.
+  let writing: Uint8Array | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let finished = false;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const skipRemaining = (detail: string) => {
+    for (let i = Math.max(index, 0); i < steps.length; i++) {
+      if (results[i].status === 'pending' || results[i].status === 'running') {
+        results[i] = { ...results[i], status: 'skipped', detail };
+      }
+    }
+  };
+
+  const finish = () => {
+    finished = true;
+    clearTimer();
+    onComplete([...results]);
+  };
+
+  // Completes the current step and runs the following ones until one has to wait.
+  const completeStep = (status: 'pass' | 'fail', detail: string) => {
+    expecting = null;
+    writing = null;
+    clearTimer();
+    results[index] = { ...results[index], status, durationMs: performance.now() - stepStartedAt, detail };
+    if (status === 'fail' && stopOnFailure) {
+      index++;
+      skipRemaining('Skipped after a failure');
+      onUpdate([...results]);
+      finish();
+      return;
+    }
+    startNextStep();
+  };
+
+  const referenceTime = () => lastSent?.at ?? runStartedAt;
+
+  const passWithMatch = (message: ParsedMidiMessage) => {
+    inbox = inbox.filter(candidate => candidate !== message);
+    completeStep('pass', `Matched ${formatHex(message.bytes)} after ${(message.receivedAt - referenceTime()).toFixed(1)} ms`);
+  };
+
+  const startExpect = (step: Extract<TestStep, { type: 'expect' }>) => {
+    let pattern: HexPattern;
+    if (step.echo) {
+      if (!lastSent) {
+        completeStep('fail', 'No message was sent before this step');
+        return;
+      }
+      pattern = Array.from(lastSent.bytes);
+    } else {
+      pattern = parseHexPattern(step.pattern);
+    }
+    const match = inbox.find(message => matchesHexPattern(message.bytes, pattern));
+    if (match) {
+      passWithMatch(match);
+      return;
+    }
+    const remaining = referenceTime() + step.timeoutMs - performance.now();
+    if (remaining <= 0) {
+      completeStep('fail', `No match within ${step.timeoutMs} ms`);
+      return;
+    }
+    expecting = pattern;
+    timer = setTimeout(() => completeStep('fail', `No match within ${step.timeoutMs} ms`), remaining);
+  };
+
+  const startNextStep = () => {
+    index++;
+    if (index >= steps.length) {
+      onUpdate([...results]);
+      finish();
+      return;
+    }
+    const step = steps[index];
+    stepStartedAt = performance.now();
+    results[index] = { status: 'running', startedAt: stepStartedAt - runStartedAt, durationMs: null, detail: '' };
+    onUpdate([...results]);
+
+    const error = validateTestStep(step);
+    if (error) {
+      completeStep('fail', error);
+      return;
+    }
+    switch (step.type) {
+      case 'send': {
+        const bytes = parseHexBytes(step.hex);
+        // Anything received earlier cannot be a reply to this message.
+        inbox = [];
+        lastSent = { bytes, at: performance.now() };
+        // Transports may report the write before send returns.
+        writing = bytes;
+        if (!send(bytes)) {
+          completeStep('fail', 'No connected device to send to');
+        } else if (writing === bytes) {
+          timer = setTimeout(() => completeStep('fail', `No write reported within ${SEND_TIMEOUT_MS} ms`), SEND_TIMEOUT_MS);
+        }
+        break;
+      }
+      case 'wait':
+        timer = setTimeout(() => completeStep('pass', ''), step.ms);
+        break;
+      case 'expect':
+        startExpect(step);
+        break;
+    }
+  };
+
+  const handleMessage = (message: ParsedMidiMessage) => {
+    if (finished) return;
+    if (expecting && matchesHexPattern(message.bytes, expecting)) {
+      passWithMatch(message);
+      return;
+    }
+    inbox.push(message);
+    if (inbox.length > MAX_INBOX_SIZE) inbox = inbox.slice(-MAX_INBOX_SIZE);
+  };
+
+  const handleWrite = (write: TransportWrite) => {
+    if (finished || !writing || !write.messages.includes(writing)) return;
+    if (write.error) {
+      completeStep('fail', `Write failed: ${write.error}`);
+      return;
+    }
+    // Expect steps time replies from the write, as the latency probes do.
+    lastSent = { bytes: writing, at: write.writtenAt };
+    completeStep('pass', `Sent ${formatHex(writing)}`);
+  };
+
+  const stop = () => {
+    if (finished) return;
+    finished = true;
+    clearTimer();
+    skipRemaining('Stopped');
+    onUpdate([...results]);
+  };
+
+  startNextStep();
+  return { handleMessage, handleWrite, stop };
+};
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SenderConfig } from '../types';
+import {
+  DEFAULT_SENDER_PARAMS,
+  WORKSPACE_VERSION,
+  createSender,
+  migrateWorkspace,
+  parseWorkspace,
+  serializeWorkspace,
+} from './workspace';
+
+const workspaceJson = (senders: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ version: WORKSPACE_VERSION, senders, scenes: [], ...extra });
+
+describe('parseWorkspace', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips a serialized workspace', () => {
+    const senders = (['standard', 'high-res', 'sysex', 'note', 'rpn', 'clock', 'mpe'] as const)
+      .map((type, index) => createSender(type, index + 1));
+    const scenes = [{ id: 10, name: 'Verse', values: { 1: { ccValue: 64 } }, programChange: 3 }];
+    expect(parseWorkspace(serializeWorkspace({ senders, scenes }))).toEqual({ senders, scenes });
+  });
+
+  it('rejects files that are not workspaces or have an unsupported version', () => {
+    expect(() => parseWorkspace('[]')).toThrow('Not a workspace file.');
+    expect(() => parseWorkspace(JSON.stringify({ version: WORKSPACE_VERSION + 1, senders: [] }))).toThrow(/newer/);
+    expect(() => parseWorkspace(JSON.stringify({ version: 0, senders: [] }))).toThrow('Unsupported workspace version 0.');
+    expect(() => parseWorkspace(JSON.stringify({ version: WORKSPACE_VERSION }))).toThrow('Workspace has no senders.');
+  });
+
+  it('fills in fields missing from older files', () => {
+    const { senders } = parseWorkspace(workspaceJson([{ id: 1, type: 'standard', params: { ccNumber: 74 } }]));
+    expect(senders[0].params).toEqual({ ...DEFAULT_SENDER_PARAMS.standard, ccNumber: 74 });
+  });
+
+  it('replaces invalid fields with their defaults and keeps the valid ones', () => {
+    const { senders } = parseWorkspace(workspaceJson([{
+      id: 1,
+      type: 'standard',
+      params: { ccNumber: 300, ccValue: 'loud', channels: [], maxRate: 20, description: 'Cutoff', extra: true },
+    }]));
+    expect(senders[0].params).toEqual({ ...DEFAULT_SENDER_PARAMS.standard, maxRate: 20, description: 'Cutoff' });
+    expect(console.warn).toHaveBeenCalledWith('Sender 0: using defaults for invalid channels, ccNumber, ccValue.');
+  });
+
+  it('validates nested automation fields one by one', () => {
+    const { senders } = parseWorkspace(workspaceJson([{
+      id: 1,
+      type: 'high-res',
+      params: { automation: { ...DEFAULT_SENDER_PARAMS['high-res'].automation, waveform: 'zigzag', depth: 0.25 } },
+    }]));
+    const params = senders[0].params as (SenderConfig & { type: 'high-res' })['params'];
+    expect(params.automation).toEqual({ ...DEFAULT_SENDER_PARAMS['high-res'].automation, depth: 0.25 });
+  });
+
+  it('skips cards of unknown types', () => {
+    const { senders } = parseWorkspace(workspaceJson([{ id: 1, type: 'theremin', params: {} }, { id: 2, type: 'sysex' }]));
+    expect(senders.map(sender => sender.type)).toEqual(['sysex']);
+  });
+
+  it('gives cards with repeated ids a new id', () => {
+    const { senders } = parseWorkspace(workspaceJson([{ id: 1, type: 'sysex' }, { id: 1, type: 'clock' }]));
+    expect(senders[0].id).toBe(1);
+    expect(senders[1].id).not.toBe(1);
+  });
+
+  it('drops scene values of missing cards and invalid values', () => {
+    const { scenes } = parseWorkspace(workspaceJson([{ id: 1, type: 'standard' }], {
+      scenes: [
+        { id: 5, name: 'A', values: { 1: { ccValue: 90, ccNumber: -1 }, 2: { ccValue: 10 } }, programChange: 200 },
+        { id: 'bad', values: {} },
+      ],
+    }));
+    expect(scenes).toEqual([{ id: 5, name: 'A', values: { 1: { ccValue: 90 } }, programChange: null }]);
+  });
+});
+
+describe('migrateWorkspace', () => {
+  it('runs each migration step from the file version up to the target version', () => {
+    const migrations = {
+      1: (workspace: Record<string, unknown>) => ({ ...workspace, scenes: [] }),
+      2: (workspace: Record<string, unknown>) => ({ ...workspace, senders: ['renamed'] }),
+    };
+    expect(migrateWorkspace({ version: 1, senders: [] }, 1, migrations, 3))
+      .toEqual({ version: 3, senders: ['renamed'], scenes: [] });
+    expect(migrateWorkspace({ version: 2, senders: [] }, 2, migrations, 3))
+      .toEqual({ version: 3, senders: ['renamed'] });
+  });
+
+  it('leaves a current workspace alone', () => {
+    const workspace = { version: WORKSPACE_VERSION, senders: [] };
+    expect(migrateWorkspace(workspace, WORKSPACE_VERSION)).toBe(workspace);
+  });
+
+  it('rejects versions without a migration path', () => {
+    expect(() => migrateWorkspace({ version: 1 }, 1, {}, 2)).toThrow('Unsupported workspace version 1.');
+  });
+});
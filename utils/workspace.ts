@@ -0,0 +1,335 @@
+import type { Scene, SenderConfig, SenderType, Workspace } from '../types';
+import { DEFAULT_AUTOMATION_CONFIG } from './automation';
+import { isRecord } from './guards';
+import { DEFAULT_MIDI_LEARN_BINDING } from './midiLearn';
+import { MAX_BPM, MIN_BPM } from './midiClock';
+import { CHORD_PRESETS } from './notes';
+
+export const WORKSPACE_VERSION = 1;
+export const WORKSPACE_STORAGE_KEY = 'ble-midi-simulator.workspace';
+
+export type SenderOfType<T extends SenderType> = Extract<SenderConfig, { type: T }>;
+
+type ParamsOf<T extends SenderType> = SenderOfType<T>['params'];
+
+export const DEFAULT_SENDER_PARAMS: { [T in SenderType]: ParamsOf<T> } = {
+  'standard': {
+    description: '',
+    targets: [],
+    channels: [1],
+    ccNumber: 7, // Default to Volume
+    ccValue: 100,
+    sendMode: 'release',
+    maxRate: 50,
+    automation: DEFAULT_AUTOMATION_CONFIG,
+    learn: DEFAULT_MIDI_LEARN_BINDING,
+    profileParameter: null,
+  },
+  'high-res': {
+    description: '',
+    targets: [],
+    channels: [1],
+    msbCc: 7, // Volume MSB
+    value14bit: 12874, // ~100 * 128
+    sendMode: 'release',
+    maxRate: 50,
+    automation: DEFAULT_AUTOMATION_CONFIG,
+    learn: DEFAULT_MIDI_LEARN_BINDING,
+    profileParameter: null,
+  },
+  'sysex': {
+    description: '',
+    targets: [],
+    hexInput: 'F0 7D 01 02 03 F7', // 0x7D = non-commercial ID
+  },
+  'note': {
+    description: '',
+    targets: [],
+    channels: [1],
+    baseOctave: 3, // C3 = note 48
+    octaves: 2,
+    velocity: 100,
+    velocityByPosition: false,
+    hold: false,
+    chord: 'Single Note',
+    qwertyEnabled: false,
+  },
+  'rpn': {
+    description: '',
+    targets: [],
+    channels: [1],
+    kind: 'RPN',
+    parameter: 0x0000, // Pitch Bend Sensitivity
+    value14bit: 2 << 7, // ±2 semitones
+    sendDataLsb: true,
+    sendNull: true,
+    sendMode: 'release',
+    maxRate: 50,
+    learn: DEFAULT_MIDI_LEARN_BINDING,
+    profileParameter: null,
+  },
+  'clock': {
+    description: '',
+    targets: [],
+    mode: 'master',
+    bpm: 120,
+    clockWhileStopped: false,
+  },
+  'mpe': {
+    description: '',
+    targets: [],
+    zone: 'lower',
+    memberChannels: 15,
+    bendRange: 48, // The MPE default for member channels
+    baseOctave: 3,
+    octaves: 2,
+    velocity: 100,
+  },
+};
+
+const SENDER_TITLES: Record<SenderType, string> = {
+  'standard': 'Standard CC (7-bit)',
+  'high-res': 'High-Res CC (14-bit)',
+  'sysex': 'SysEx',
+  'note': 'Notes',
+  'rpn': 'RPN / NRPN',
+  'clock': 'MIDI Clock',
+  'mpe': 'MPE Expression',
+};
+
+// Names a card in the traffic log: its description, or its title when it has none.
+export const getSenderLabel = (sender: SenderConfig): string =>
+  sender.params.description.trim() || SENDER_TITLES[sender.type];
+
+export const createSender = <T extends SenderType>(type: T, id = Date.now() + Math.random()): SenderConfig =>
+  ({ id, type, params: structuredClone(DEFAULT_SENDER_PARAMS[type]) }) as SenderConfig;
+
+// Narrows a card to one type, so it only takes params changes made for that type.
+export const isSenderOfType = <T extends SenderType>(sender: SenderConfig, type: T): sender is SenderOfType<T> =>
+  sender.type === type;
+
+// A copy of the card with some of its params changed.
+export const withSenderParams = <T extends SenderConfig>(sender: T, changes: Partial<T['params']>): T =>
+  ({ ...sender, params: { ...sender.params, ...changes } });
+
+export const createDefaultSenders = (): SenderConfig[] => [
+  createSender('standard', Date.now()),
+  createSender('high-res', Date.now() + 1),
+];
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isNumberIn = (min: number, max: number): FieldCheck => value =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const isIntIn = (min: number, max: number): FieldCheck => value =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+const isOneOf = (...options: string[]): FieldCheck => value => typeof value === 'string' && options.includes(value);
+
+const isLearnSource: FieldCheck = value => value === null || (isRecord(value)
+  && isOneOf('cc', 'note', 'pitch-bend')(value.kind) && isIntIn(1, 16)(value.channel) && isIntIn(0, 127)(value.number));
+
+const isProfileParameter: FieldCheck = value => value === null || (isRecord(value)
+  && isOneOf('cc', 'rpn', 'nrpn')(value.kind) && isIntIn(0, 16383)(value.number) && isString(value.name)
+  && isIntIn(0, 16383)(value.min) && isIntIn(0, 16383)(value.max) && isRecord(value.values));
+
+// Checks per params field; the field names mean the same on every card type that has them.
+const FIELD_CHECKS: Record<string, FieldCheck> = {
+  description: isString,
+  targets: value => Array.isArray(value) && value.every(id => typeof id === 'number' && Number.isFinite(id)),
+  channels: value => Array.isArray(value) && value.length > 0 && value.every(isIntIn(1, 16)),
+  ccNumber: isIntIn(0, 127),
+  ccValue: isIntIn(0, 127),
+  msbCc: isIntIn(0, 31),
+  value14bit: isIntIn(0, 16383),
+  sendMode: isOneOf('release', 'drag', 'change'),
+  maxRate: isNumberIn(1, 1000),
+  automation: isRecord,
+  learn: isRecord,
+  profileParameter: isProfileParameter,
+  hexInput: isString,
+  baseOctave: isIntIn(-1, 8),
+  octaves: isIntIn(1, 4),
+  velocity: isIntIn(1, 127),
+  velocityByPosition: isBoolean,
+  hold: isBoolean,
+  chord: value => typeof value === 'string' && value in CHORD_PRESETS,
+  qwertyEnabled: isBoolean,
+  kind: isOneOf('RPN', 'NRPN'),
+  parameter: isIntIn(0, 16383),
+  sendDataLsb: isBoolean,
+  sendNull: isBoolean,
+  mode: isOneOf('master', 'slave'),
+  bpm: isNumberIn(MIN_BPM, MAX_BPM),
+  clockWhileStopped: isBoolean,
+  zone: isOneOf('lower', 'upper'),
+  memberChannels: isIntIn(1, 15),
+  bendRange: isIntIn(1, 96),
+};
+
+// Fields holding an object of their own are checked field by field too.
+const NESTED_CHECKS: Record<string, Record<string, FieldCheck>> = {
+  automation: {
+    waveform: isOneOf('sine', 'triangle', 'saw', 'square', 'random', 'ramp'),
+    rateHz: isNumberIn(0.01, 50),
+    depth: isNumberIn(0, 1),
+    offset: isNumberIn(0, 1),
+    phase: isNumberIn(0, 360),
+  },
+  learn: {
+    source: isLearnSource,
+    inputMin: isNumberIn(0, 1),
+    inputMax: isNumberIn(0, 1),
+    outputMin: isNumberIn(0, 1),
+    outputMax: isNumberIn(0, 1),
+    invert: isBoolean,
+    curve: isOneOf('linear', 'exponential', 'logarithmic', 's-curve'),
+    upscaling: isOneOf('stretch', 'msb', 'lsb-pair'),
+  },
+};
+
+/**
+ * Takes the fields of `defaults` from `raw` where they pass their check, and the default
+ * otherwise, so one bad field in a hand-edited file cannot break the card. Returns the
+ * names of the fields that were rejected.
+ */
+const pickValidFields = <T extends object>(defaults: T, raw: unknown, checks: Record<string, FieldCheck>) => {
+  const values = structuredClone(defaults) as Record<string, unknown>;
+  const rejected: string[] = [];
+  const source = isRecord(raw) ? raw : {};
+  Object.keys(values).forEach(field => {
+    if (!(field in source)) return;
+    const value = source[field];
+    if (!checks[field]?.(value)) {
+      rejected.push(field);
+      return;
+    }
+    const nested = NESTED_CHECKS[field];
+    if (nested) {
+      const result = pickValidFields(values[field] as object, value, nested);
+      values[field] = result.values;
+      rejected.push(...result.rejected.map(name => `${field}.${name}`));
+    } else {
+      values[field] = value;
+    }
+  });
+  return { values: values as T, rejected };
+};
+
+const isSenderType = (type: unknown): type is SenderType =>
+  typeof type === 'string' && type in DEFAULT_SENDER_PARAMS;
+
+const normalizeSender = (raw: unknown, index: number): SenderConfig | null => {
+  const type = isRecord(raw) ? raw.type : undefined;
+  if (!isRecord(raw) || !isSenderType(type)) {
+    console.warn(`Skipping sender ${index}: unknown card type "${String(type)}".`);
+    return null;
+  }
+  const { values: params, rejected } = pickValidFields(DEFAULT_SENDER_PARAMS[type], raw.params, FIELD_CHECKS);
+  if (rejected.length > 0) {
+    console.warn(`Sender ${index}: using defaults for invalid ${rejected.join(', ')}.`);
+  }
+  const id = typeof raw.id === 'number' && Number.isFinite(raw.id) ? raw.id : Date.now() + index;
+  return { id, type, params } as SenderConfig;
+};
+
+export type WorkspaceContents = Omit<Workspace, 'version'>;
+
+export const serializeWorkspace = ({ senders, scenes }: WorkspaceContents): string =>
+  JSON.stringify({ version: WORKSPACE_VERSION, senders, scenes } satisfies Workspace, null, 2);
+
+// Drops malformed scenes, the values of cards that no longer exist and values that fail their check.
+const normalizeScenes = (raw: unknown, senders: SenderConfig[]): Scene[] => {
+  if (!Array.isArray(raw)) return [];
+  const sendersById = new Map(senders.map(sender => [sender.id, sender]));
+  return raw
+    .filter((scene): scene is Record<string, unknown> => isRecord(scene) && typeof scene.id === 'number' && isRecord(scene.values))
+    .map((scene, index) => ({
+      id: scene.id as number,
+      name: typeof scene.name === 'string' ? scene.name : `Scene ${index + 1}`,
+      values: Object.fromEntries(Object.entries(scene.values as Record<string, unknown>).flatMap(([id, values]) => {
+        const sender = sendersById.get(Number(id));
+        if (!sender || !isRecord(values)) return [];
+        const valid = Object.entries(values).filter(([field, value]) => field in sender.params && FIELD_CHECKS[field]?.(value));
+        return [[id, Object.fromEntries(valid)]];
+      })),
+      programChange: isIntIn(0, 127)(scene.programChange) ? scene.programChange as number : null,
+    }));
+};
+
+// Upgrades a parsed workspace file from the version it is keyed by to the next one.
+export type WorkspaceMigration = (workspace: Record<string, unknown>) => Record<string, unknown>;
+
+// Version 1 is the first format, so nothing needs migrating yet.
+export const WORKSPACE_MIGRATIONS: Record<number, WorkspaceMigration> = {};
+
+/**
+ * Runs the migrations from `version` up to `targetVersion`, one version at a time. Throws if
+ * a step is missing.
+ */
+export const migrateWorkspace = (
+  workspace: Record<string, unknown>,
+  version: number,
+  migrations: Record<number, WorkspaceMigration> = WORKSPACE_MIGRATIONS,
+  targetVersion = WORKSPACE_VERSION,
+): Record<string, unknown> => {
+  let migrated = workspace;
+  for (let from = version; from < targetVersion; from++) {
+    const migrate = migrations[from];
+    if (!migrate) throw new Error(`Unsupported workspace version ${version}.`);
+    migrated = { ...migrate(migrated), version: from + 1 };
+  }
+  return migrated;
+};
+
+/**
+ * Parses a workspace file, migrating older versions, filling in fields added since it was
+ * saved and replacing invalid ones with defaults. Throws if the file is not a workspace or
+ * its version cannot be read by this simulator.
+ */
+export const parseWorkspace = (json: string): WorkspaceContents => {
+  const raw: unknown = JSON.parse(json);
+  const version = isRecord(raw) ? raw.version : undefined;
+
+  if (!isRecord(raw) || typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new Error('Not a workspace file.');
+  }
+  if (version > WORKSPACE_VERSION) {
+    throw new Error(`Workspace version ${version} is newer than this simulator supports (${WORKSPACE_VERSION}).`);
+  }
+  const workspace = migrateWorkspace(raw, version);
+  if (!Array.isArray(workspace.senders)) {
+    throw new Error('Workspace has no senders.');
+  }
+
+  const senders = workspace.senders
+    .map(normalizeSender)
+    .filter((sender): sender is SenderConfig => sender !== null);
+  // Imported files may repeat ids (e.g. a duplicated card); React keys must be unique.
+  const seen = new Set<number>();
+  const uniqueSenders = senders.map((sender, index) => {
+    const id = seen.has(sender.id) ? Date.now() + Math.random() + index : sender.id;
+    seen.add(id);
+    return { ...sender, id };
+  });
+  return { senders: uniqueSenders, scenes: normalizeScenes(workspace.scenes, uniqueSenders) };
+};
+
+export const loadStoredWorkspace = (): WorkspaceContents | null => {
+  try {
+    const stored = localStorage.getItem(WORKSPACE_STORAGE_KEY);
+    return stored ? parseWorkspace(stored) : null;
+  } catch (error) {
+    console.warn('Ignoring unreadable stored workspace:', error);
+    return null;
+  }
+};
+
+export const storeWorkspace = (contents: WorkspaceContents) => {
+  try {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, serializeWorkspace(contents));
+  } catch (error) {
+    console.warn('Failed to autosave workspace:', error);
+  }
+};